@@ -4,41 +4,52 @@ import MainChat from './components/MainChat';
 import RightPanel from './components/RightPanel';
 import BulkRunPanel from './components/BulkRunPanel';
 import EconomyPanel from './components/EconomyPanel'; // Import new panel
-import { SessionData, ModelConfig, ChatMessage, Role, Attachment, ContextCacheConfig, ActiveViewType } from './types';
-import { DEFAULT_CONFIG, INITIAL_SYSTEM_INSTRUCTION, AVAILABLE_MODELS } from './constants';
-import { createChatSession, streamMessage, estimateTokens, createCache, formatHistory, deleteCache, getBatchJob } from './services/geminiService';
-import { saveCostRecord, getDailyCost, getMonthlyCost } from './services/costService';
+import ComparePanel from './components/ComparePanel';
+import LockScreen from './components/LockScreen';
+import BackupDialog from './components/BackupDialog';
+import StorageDialog from './components/StorageDialog';
+import { SessionData, ModelConfig, ChatMessage, MessageAlternate, GenerationInfo, GenerationUsage, GroundingInfo, ToolRound, FunctionCallRecord, FunctionTool, CodeExecutionBlock, SchemaValidation, SafetyFeedback, Role, Attachment, ContextCacheConfig, ActiveViewType } from './types';
+import { DEFAULT_CONFIG, INITIAL_SYSTEM_INSTRUCTION, APP_VERSION } from './constants';
+import { resolveTemplate, resolveText } from './services/templateService';
+import { applyContextPolicy, planSummary, summarizeMessages, createSummaryMessage, insertSummary } from './services/contextPolicyService';
+import { createChatSession, streamMessage, streamFunctionResponses, createCache, formatHistory, deleteCache, getBatchJob } from './services/geminiService';
+import { estimateTokens, countContentsTokens, systemInstructionContents } from './services/tokenService';
+import { saveCostRecord, getDailyCost, getMonthlyCost, calculateCost } from './services/costService';
 import { getBatchHistory, updateBatchJobStatus, deleteBatchJob, saveBatchJob } from './services/batchService';
+import { STORES, getRecord, loadSessions, saveSession, removeSession, isQuotaError, wipeAllData } from './services/storageService';
+import { loadVaultState, unlockVault, enableVault, disableVault, lockVault, setAutoLockMinutes, loadApiKey, saveApiKey, DEFAULT_AUTO_LOCK_MINUTES } from './services/vaultService';
+import { createReport, upgradeRecord, stampSchemaVersion, formatReport } from './services/schemaService';
+import { storeAttachments, storeCodeBlocks, externalizeSessionAttachments, resolveSessionAttachments, collectGarbage } from './services/attachmentStore';
+import { stripSessionAttachments } from './services/storageUsageService';
+import { getAlternates, selectAlternate, writeAlternates } from './services/alternateService';
+import { executeFunctionCall, markToolsImported, MAX_TOOL_ROUNDS } from './services/toolService';
+import { isStructuredOutputActive, validateStructuredResponse } from './services/structuredOutputService';
+import { formatRetryStatus, classifyError, describeError, RetryAttempt } from './services/retryService';
+import { forkBranch, selectBranch } from './services/branchService';
+import { broadcast, subscribe, tryAcquireLock, LOCK_PREFIX_CONTEXT_CACHE } from './services/syncService';
+import { createGenerationInfo, parseUsageMetadata, addUsage, billedOutputTokens } from './services/generationInfoService';
 import { BatchJobRecord } from './types';
 
 // Storage Keys
-const STORAGE_KEY_SESSIONS = 'gemini_sessions_v2'; // v2 to avoid conflicts with old structure
+// Sessions live in IndexedDB (see services/storageService). Only the small UI pointer stays in localStorage.
 const STORAGE_KEY_CURRENT_SESSION = 'gemini_current_session_id';
 
+const createDefaultSession = (): SessionData => ({
+    id: 'default',
+    title: 'Untitled Prompt',
+    systemInstruction: INITIAL_SYSTEM_INSTRUCTION,
+    messages: [],
+    config: DEFAULT_CONFIG,
+    updatedAt: Date.now()
+});
+
 export default function App() {
   
-  // --- 1. Initialize State from LocalStorage ---
+  // --- 1. Initialize State (hydrated from IndexedDB after mount) ---
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
 
-  const [sessions, setSessions] = useState<SessionData[]>(() => {
-      try {
-          const stored = localStorage.getItem(STORAGE_KEY_SESSIONS);
-          if (stored) {
-              return JSON.parse(stored);
-          }
-      } catch (e) {
-          console.error("Failed to load sessions:", e);
-      }
-      // Default fallback if no storage
-      return [{
-          id: 'default',
-          title: 'Untitled Prompt',
-          systemInstruction: INITIAL_SYSTEM_INSTRUCTION,
-          messages: [],
-          config: DEFAULT_CONFIG,
-          updatedAt: Date.now()
-      }];
-  });
+  const [sessions, setSessions] = useState<SessionData[]>(() => [createDefaultSession()]);
 
   const [currentSessionId, setCurrentSessionId] = useState<string>(() => {
       return localStorage.getItem(STORAGE_KEY_CURRENT_SESSION) || 'default';
@@ -57,6 +68,8 @@ export default function App() {
     status: 'none' 
   });
   const [isStreaming, setIsStreaming] = useState(false);
+  const isStreamingRef = React.useRef(false);
+  isStreamingRef.current = isStreaming;
   const [totalCost, setTotalCost] = useState(0);
   const [todayCost, setTodayCost] = useState(0);
   const [monthCost, setMonthCost] = useState(0);
@@ -67,50 +80,259 @@ export default function App() {
   
   // Ref for persistent ChatSession
   const chatSessionRef = React.useRef<any>(null);
+  // Cancels the chat request currently streaming
+  const abortControllerRef = React.useRef<AbortController | null>(null);
+  // Set while a failed request (chat or cache creation) waits for its next attempt
+  const [retryStatus, setRetryStatus] = useState<string | null>(null);
+  const handleRetry = (info: RetryAttempt) => setRetryStatus(formatRetryStatus(info));
+  // Imported handlers the user allowed to run in this tab. Kept out of `config` so approving one mid-turn does not rebuild the chat.
+  const approvedHandlersRef = React.useRef(new Set<string>());
+  const confirmImportedHandler = (tool: FunctionTool) => {
+    const key = `${tool.id}\n${tool.handler}`;
+    if (approvedHandlersRef.current.has(key)) return true;
+    const ok = window.confirm(`The model wants to run "${tool.name}", a JavaScript handler that came from an imported file.\n\nOnly allow it if you trust the code:\n\n${tool.handler.slice(0, 1500)}`);
+    if (ok) approvedHandlersRef.current.add(key);
+    return ok;
+  };
 
   // Reset session ref when key parameters change
+  // Every config field (sampling, tools, schema...) is baked into the chat object, so any change rebuilds it
   useEffect(() => {
     chatSessionRef.current = null;
-  }, [currentSessionId, config.model, systemInstruction, contextCache.cacheName, config.tools]); // Added config.tools dependency implicitly via config object, but explicit is better if I destructured. Here config is object.
+  }, [currentSessionId, config, systemInstruction, contextCache.cacheName]);
   
-  // API Key State
-  const [apiKey, setApiKey] = useState(() => {
-    return localStorage.getItem('gemini_api_key') || '';
-  });
+  // API Key State (loaded after the vault check; encrypted when the vault is enabled)
+  const [apiKey, setApiKey] = useState('');
+
+  // --- Vault (optional passphrase lock) ---
+  const [vaultStatus, setVaultStatus] = useState<'checking' | 'locked' | 'open'>('checking');
+  const [vaultEnabled, setVaultEnabled] = useState(false);
+  const [autoLockMinutes, setAutoLockMinutesState] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [showBackupDialog, setShowBackupDialog] = useState(false);
+  const [showStorageDialog, setShowStorageDialog] = useState(false);
 
-  // Save API key
   useEffect(() => {
-    localStorage.setItem('gemini_api_key', apiKey);
-  }, [apiKey]);
+      loadVaultState()
+          .then(state => {
+              setVaultEnabled(state.enabled);
+              setAutoLockMinutesState(state.autoLockMinutes);
+              setVaultStatus(state.enabled && !state.unlocked ? 'locked' : 'open');
+          })
+          .catch(e => {
+              console.error("Failed to read vault state:", e);
+              setVaultStatus('open');
+          });
+  }, []);
 
-  // --- 2. Persist Sessions to LocalStorage ---
+  // Save API key (only after it was loaded, so the empty initial value never overwrites it)
   useEffect(() => {
-      try {
-          localStorage.setItem(STORAGE_KEY_SESSIONS, JSON.stringify(sessions));
-          if (saveError) setSaveError(null);
-      } catch (e) {
-          console.error("Failed to save sessions (Quota Exceeded):", e);
-          setSaveError("⚠️ 儲存空間已滿！請刪除舊對話或匯出備份，否則重新整理後資料將遺失。");
-      }
-  }, [sessions]);
+    if (!isHydrated) return;
+    saveApiKey(apiKey).catch(e => console.error("Failed to save API key:", e));
+  }, [apiKey, isHydrated]);
+
+  // Auto-lock after inactivity: drop the key and reload so no decrypted state stays in memory
+  useEffect(() => {
+      if (!vaultEnabled || vaultStatus !== 'open') return;
+
+      let timer: number;
+      const lockNow = () => {
+          if (isStreamingRef.current) {
+              // Never interrupt a running generation; check again later
+              timer = window.setTimeout(lockNow, 60 * 1000);
+              return;
+          }
+          lockVault();
+          window.location.reload();
+      };
+      const resetTimer = () => {
+          clearTimeout(timer);
+          timer = window.setTimeout(lockNow, autoLockMinutes * 60 * 1000);
+      };
+
+      const events = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'];
+      events.forEach(ev => window.addEventListener(ev, resetTimer, { passive: true }));
+      resetTimer();
+      return () => {
+          clearTimeout(timer);
+          events.forEach(ev => window.removeEventListener(ev, resetTimer));
+      };
+  }, [vaultEnabled, vaultStatus, autoLockMinutes]);
+
+  // --- 2. Hydrate Sessions from IndexedDB ---
+  // Tracks the last persisted object of each session so only changed records are written
+  const persistedSessionsRef = React.useRef<Map<string, SessionData>>(new Map());
+
+  useEffect(() => {
+      if (vaultStatus !== 'open') return;
+
+      loadSessions()
+          .then(async loaded => {
+              // Move legacy inline attachment payloads into the blob store
+              const stored = await Promise.all(loaded.map(externalizeSessionAttachments));
+              if (stored.length > 0) {
+                  // Sessions that changed during externalization are left out so they get re-written
+                  stored.forEach((s, i) => {
+                      if (s === loaded[i]) persistedSessionsRef.current.set(s.id, s);
+                  });
+                  const target = stored.find(s => s.id === currentSessionId) || stored[0];
+                  setSessions(stored);
+                  setCurrentSessionId(target.id);
+                  setMessages(target.messages);
+                  setSystemInstruction(target.systemInstruction);
+                  setConfig(target.config);
+              }
+              setApiKey(await loadApiKey());
+              setIsHydrated(true);
+
+              // Free blobs left behind by deleted sessions / edited messages
+              collectGarbage().catch(e => console.warn("Attachment GC failed:", e));
+          })
+          .catch(e => {
+              console.error("Failed to load sessions:", e);
+              setSaveError("⚠️ 無法開啟瀏覽器資料庫 (IndexedDB)，本次對話將不會被儲存。");
+          });
+  }, [vaultStatus]);
+
+  // --- 3. Persist Changed Sessions (per-record writes) ---
+  useEffect(() => {
+      if (!isHydrated) return;
+
+      const persisted = persistedSessionsRef.current;
+      const changed = sessions.filter(s => persisted.get(s.id) !== s);
+      const liveIds = new Set(sessions.map(s => s.id));
+      const removed = [...persisted.keys()].filter(id => !liveIds.has(id));
+      if (changed.length === 0 && removed.length === 0) return;
+
+      changed.forEach(s => persisted.set(s.id, s));
+      removed.forEach(id => persisted.delete(id));
+
+      Promise.all([...changed.map(saveSession), ...removed.map(removeSession)])
+          .then(() => {
+              setSaveError(null);
+              if (removed.length > 0) {
+                  collectGarbage().catch(e => console.warn("Attachment GC failed:", e));
+              }
+          })
+          .catch(e => {
+              console.error("Failed to save sessions:", e);
+              // Forget the failed records so the next change retries them
+              changed.forEach(s => persisted.delete(s.id));
+              setSaveError(isQuotaError(e)
+                  ? "⚠️ 儲存空間已滿！請刪除舊對話或匯出備份，否則重新整理後資料將遺失。"
+                  : "⚠️ 對話儲存失敗，請匯出備份以免資料遺失。");
+          });
+  }, [sessions, isHydrated]);
 
   useEffect(() => {
       localStorage.setItem(STORAGE_KEY_CURRENT_SESSION, currentSessionId);
   }, [currentSessionId]);
 
-  // Initialize costs & batch jobs (Once)
-  useEffect(() => {
+  const refreshCosts = () => {
     const now = new Date();
     const todayStr = now.toISOString().split('T')[0];
-    setTodayCost(getDailyCost(todayStr));
-    setMonthCost(getMonthlyCost(now.getFullYear(), now.getMonth()));
-    setBatchJobs(getBatchHistory());
-  }, []);
+    getDailyCost(todayStr).then(setTodayCost);
+    getMonthlyCost(now.getFullYear(), now.getMonth()).then(setMonthCost);
+  };
+
+  // Initialize costs & batch jobs (Once, after unlocking)
+  useEffect(() => {
+    if (vaultStatus !== 'open') return;
+    refreshCosts();
+    getBatchHistory().then(setBatchJobs);
+  }, [vaultStatus]);
+
+  // --- 4. Cross-Tab Sync ---
+  // Other tabs announce what they wrote; this tab re-reads those records from IndexedDB.
+  const sessionsRef = React.useRef(sessions);
+  sessionsRef.current = sessions;
+  const currentSessionIdRef = React.useRef(currentSessionId);
+  currentSessionIdRef.current = currentSessionId;
+
+  const applyRemoteSessions = async (changedIds: string[], removedIds: string[]) => {
+      const loaded = await Promise.all(changedIds.map(id => getRecord<SessionData>(STORES.SESSIONS, id)));
+      const local = new Map<string, SessionData>(sessionsRef.current.map(s => [s.id, s]));
+      const activeId = currentSessionIdRef.current;
+
+      const accepted = loaded.filter((remote): remote is SessionData => {
+          if (!remote) return false;
+          // Never swap the conversation out from under a running generation; its next write wins
+          if (remote.id === activeId && isStreamingRef.current) return false;
+          const mine = local.get(remote.id);
+          return !mine || remote.updatedAt > mine.updatedAt;
+      });
+      const removed = removedIds.filter(id => local.has(id));
+      if (accepted.length === 0 && removed.length === 0) return;
+
+      // Mark as persisted so the persist effect does not write them back (or delete them again)
+      accepted.forEach(s => persistedSessionsRef.current.set(s.id, s));
+      removed.forEach(id => persistedSessionsRef.current.delete(id));
+
+      const acceptedById = new Map<string, SessionData>(accepted.map(s => [s.id, s]));
+      const added = accepted.filter(s => !local.has(s.id));
+      let next = sessionsRef.current
+          .filter(s => !removed.includes(s.id))
+          .map(s => acceptedById.get(s.id) || s);
+      next = [...added, ...next];
+      if (next.length === 0) next = [createDefaultSession()];
+      setSessions(next);
+
+      const active = acceptedById.get(activeId) || (removed.includes(activeId) ? next[0] : undefined);
+      if (active) {
+          setCurrentSessionId(active.id);
+          setMessages(active.messages);
+          setSystemInstruction(active.systemInstruction);
+          setConfig(active.config);
+      }
+  };
+
+  useEffect(() => {
+      if (!isHydrated) return;
+      return subscribe(msg => {
+          switch (msg.type) {
+              case 'sessions':
+                  applyRemoteSessions(msg.changed, msg.removed)
+                      .catch(e => console.error("Failed to apply sessions from another tab:", e));
+                  break;
+              case 'costs':
+                  refreshCosts();
+                  break;
+              case 'batchJobs':
+                  getBatchHistory().then(setBatchJobs);
+                  break;
+              case 'contextCache':
+                  setContextCache(prev => {
+                      if (msg.status === 'deleted') {
+                          return prev.cacheName === msg.cacheName
+                              ? { ...prev, status: 'none', cacheName: undefined, tokenCount: 0, expirationTime: undefined }
+                              : prev;
+                      }
+                      // Share a cache created elsewhere only if this tab has none of its own
+                      if (prev.status === 'active' || prev.status === 'loading') return prev;
+                      return {
+                          ...prev,
+                          status: 'active',
+                          cacheName: msg.cacheName,
+                          fileName: msg.fileName,
+                          tokenCount: msg.tokenCount,
+                          expirationTime: msg.expirationTime
+                      };
+                  });
+                  break;
+              case 'reset':
+                  window.location.reload();
+                  break;
+          }
+      });
+  }, [isHydrated]);
 
   // Update session data when internal state (messages, config, etc.) changes
   useEffect(() => {
     setSessions(prev => prev.map(s => {
       if (s.id === currentSessionId) {
+        // Nothing changed (state was just loaded from this session): keep the object so it is not re-saved
+        if (s.messages === messages && s.config === config && s.systemInstruction === systemInstruction) {
+          return s;
+        }
         return {
           ...s,
           systemInstruction,
@@ -152,40 +374,69 @@ export default function App() {
     }
   };
 
+  const deleteSessions = (ids: string[]) => {
+    const remaining = sessions.filter(s => !ids.includes(s.id));
+    // If deleting the last one, reset to a new default
+    const newSessions = remaining.length > 0 ? remaining : [createDefaultSession()];
+    setSessions(newSessions);
+
+    // If we deleted the active session, switch to the first available
+    // (selected directly: `sessions` in this closure does not contain a new default session)
+    if (ids.includes(currentSessionId)) {
+      const target = newSessions[0];
+      setCurrentSessionId(target.id);
+      setMessages(target.messages);
+      setSystemInstruction(target.systemInstruction);
+      setConfig(target.config);
+    }
+  };
+
   const handleDeleteSession = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    const newSessions = sessions.filter(s => s.id !== id);
-    
-    if (newSessions.length === 0) {
-       // If deleting the last one, reset to a new default
-       const defaultSession: SessionData = {
-          id: 'default',
-          title: 'Untitled Prompt',
-          systemInstruction: INITIAL_SYSTEM_INSTRUCTION,
-          messages: [],
-          config: DEFAULT_CONFIG,
-          updatedAt: Date.now()
-       };
-       setSessions([defaultSession]);
-       handleSelectSession('default');
-    } else {
-       setSessions(newSessions);
-       // If we deleted the active session, switch to the first available
-       if (currentSessionId === id) {
-         handleSelectSession(newSessions[0].id);
-       }
-    }
+    deleteSessions([id]);
+  };
+
+  // --- Storage Manager Actions ---
+  // These write directly (instead of via the persist effect) so the dialog can re-measure right after.
+  const handleDeleteStoredSessions = async (ids: string[]) => {
+    await Promise.all(ids.map(removeSession));
+    ids.forEach(id => persistedSessionsRef.current.delete(id));
+    deleteSessions(ids);
+    await collectGarbage();
+  };
+
+  const handleStripAttachments = async (sessionIds: string[], hashes?: string[]) => {
+    const hashSet = hashes ? new Set(hashes) : undefined;
+    const stripped = sessions
+      .filter(s => sessionIds.includes(s.id))
+      .map(s => stripSessionAttachments(s, hashSet))
+      // Unchanged sessions come back as the same object
+      .filter(s => !sessions.includes(s));
+    if (stripped.length === 0) return;
+
+    await Promise.all(stripped.map(saveSession));
+    stripped.forEach(s => persistedSessionsRef.current.set(s.id, s));
+
+    const strippedById = new Map<string, SessionData>(stripped.map(s => [s.id, s]));
+    setSessions(prev => prev.map(s => strippedById.get(s.id) || s));
+    const current = strippedById.get(currentSessionId);
+    if (current) setMessages(current.messages);
+
+    await collectGarbage();
   };
 
   // --- Export / Import Logic ---
-  const handleExportSession = () => {
-    const session = sessions.find(s => s.id === currentSessionId);
-    if (!session) return;
+  const handleExportSession = async () => {
+    const current = sessions.find(s => s.id === currentSessionId);
+    if (!current) return;
+
+    // Inline attachment payloads so the file is self-contained
+    const session = await resolveSessionAttachments(current);
     
     const exportData = {
-        ...session,
+        ...stampSchemaVersion('session', session),
         exportDate: new Date().toISOString(),
-        appVersion: "1.0"
+        appVersion: APP_VERSION
     };
 
     const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
@@ -201,27 +452,38 @@ export default function App() {
 
   const handleImportSession = (file: File) => {
     const reader = new FileReader();
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
       try {
         const data = JSON.parse(event.target?.result as string);
         
-        // Basic Validation
-        if (!data.messages || !Array.isArray(data.messages)) {
-            throw new Error("Invalid session format");
+        // Upgrade old export shapes and validate strictly
+        const report = createReport();
+        const upgraded = upgradeRecord<SessionData & { exportDate?: string; appVersion?: string }>('session', data, report, file.name);
+        if (!upgraded) {
+            alert(`Failed to import session.\n\n${formatReport(report)}`);
+            return;
         }
+        const { exportDate, appVersion, ...imported } = upgraded;
 
         const newId = Date.now().toString();
-        const newSession: SessionData = {
+        const newSession: SessionData = await externalizeSessionAttachments({
+            ...imported,
+            config: markToolsImported(imported.config),
             id: newId,
-            title: data.title ? `${data.title} (Import)` : 'Imported Chat',
-            systemInstruction: data.systemInstruction || "",
-            messages: data.messages,
-            config: data.config || DEFAULT_CONFIG,
+            title: imported.title ? `${imported.title} (Import)` : 'Imported Chat',
             updatedAt: Date.now()
-        };
+        });
+
+        if (report.repaired.length > 0 || report.rejected.length > 0) {
+            alert(`Imported with changes:\n\n${formatReport(report)}`);
+        }
 
         setSessions(prev => [newSession, ...prev]);
-        handleSelectSession(newId); 
+        // Select directly: `sessions` in this closure does not contain the new session yet
+        setCurrentSessionId(newId);
+        setMessages(newSession.messages);
+        setSystemInstruction(newSession.systemInstruction);
+        setConfig(newSession.config);
 
       } catch (err) {
         alert("Failed to import session. Invalid JSON file.");
@@ -248,11 +510,18 @@ export default function App() {
         config.model,
         file,
         finalTTL,
-        systemInstruction,
-        config.enableGoogleSearch
+        resolveText(systemInstruction, config.variables),
+        config.enableGoogleSearch,
+        { onRetry: handleRetry }
       );
+      setRetryStatus(null);
 
       const expirationTime = Date.now() + (finalTTL * 1000);
+      const tokenCount = Math.ceil(sizeBytes / 4);
+
+      // This tab owns the new cache: only the owner deletes it on the server
+      await tryAcquireLock(LOCK_PREFIX_CONTEXT_CACHE + name);
+      broadcast({ type: 'contextCache', cacheName: name, status: 'created', fileName: file.name, expirationTime, tokenCount });
 
       setContextCache(prev => ({
         ...prev,
@@ -260,7 +529,7 @@ export default function App() {
         cacheName: name,
         fileName: file.name,
         // Approx tokens from bytes (very rough: 1 token ~ 4 bytes)
-        tokenCount: Math.ceil(sizeBytes / 4),
+        tokenCount,
         expirationTime: expirationTime,
         ttlSeconds: finalTTL // Update state with used TTL
       }));
@@ -269,7 +538,8 @@ export default function App() {
 
     } catch (error) {
       console.error("Cache creation failed:", error);
-      alert("Failed to create cache. Ensure your file meets the minimum token requirements (1024 for Flash, 4096 for Pro).");
+      setRetryStatus(null);
+      alert(`Failed to create cache: ${describeError(classifyError(error))}. Ensure your file meets the minimum token requirements (1024 for Flash, 4096 for Pro).`);
       setContextCache(prev => ({ ...prev, status: 'error' }));
       return null;
     }
@@ -286,14 +556,22 @@ export default function App() {
     }));
 
     // Try to delete on server side
-    if (contextCache.cacheName && apiKey) {
+    const cacheName = contextCache.cacheName;
+    if (cacheName && apiKey) {
+      // A cache shared from another tab is only detached here while its owner is alive.
+      // If the owner tab is gone its lock is free, and this tab takes over the deletion.
+      const release = await tryAcquireLock(LOCK_PREFIX_CONTEXT_CACHE + cacheName);
+      if (!release) return;
       try {
-        await deleteCache(apiKey, contextCache.cacheName);
+        await deleteCache(apiKey, cacheName);
       } catch (error) {
         // FIX: Silently handle 403/404 errors - only log to console
         // Since we've already cleared the UI state, this shouldn't disrupt the user
         console.warn("Attempted to delete cache on server but failed (it may have already expired):", error);
+      } finally {
+        release();
       }
+      broadcast({ type: 'contextCache', cacheName, status: 'deleted' });
     }
   };
 
@@ -302,10 +580,9 @@ export default function App() {
     outputText: string, 
     exactInput?: number, 
     exactOutput?: number,
-    cachedInput?: number
+    cachedInput?: number,
+    model: string = config.model // Compare mode runs other models than the session's
   ) => {
-    const modelData = AVAILABLE_MODELS.find(m => m.id === config.model) || AVAILABLE_MODELS[0];
-    
     const totalInput = exactInput !== undefined ? exactInput : estimateTokens(inputText);
     const outTokens = exactOutput !== undefined ? exactOutput : estimateTokens(outputText);
     const cachedTokens = cachedInput || 0;
@@ -313,28 +590,20 @@ export default function App() {
     // Billable Input = Total Input - Cached Input
     const billableInput = Math.max(0, totalInput - cachedTokens);
     
-    // Cost calculation (simplified for standard inputs)
-    // Note: Cached input cost is usually 25% of standard input. 
-    // We add specific logic for Economy Mode's cost tracking if needed, 
-    // but here we just use the generic formula.
-    // Ideally, costService should handle cached pricing tiers.
-    
-    // For now, we assume cached input is cheaper (0.25x roughly for Gemini)
-    const cost = (billableInput / 1000000 * modelData.costInput) + 
-                 (cachedTokens / 1000000 * (modelData.costInput * 0.25)) + 
-                 (outTokens / 1000000 * modelData.costOutput);
+    // Cached input is assumed to cost 0.25x (see costService.calculateCost)
+    const cost = calculateCost(model, totalInput, outTokens, cachedTokens);
                  
     setTotalCost(prev => prev + cost);
 
-    // Save to LocalStorage
+    // Save to IndexedDB
     const now = new Date();
     saveCostRecord({
         date: now.toISOString().split('T')[0],
-        model: config.model,
+        model,
         inputTokens: billableInput, // Record billable tokens
         outputTokens: outTokens,
         cost: cost
-    });
+    }).catch(e => console.error("Failed to save cost record:", e));
 
     // Update UI
     setTodayCost(prev => prev + cost);
@@ -344,7 +613,8 @@ export default function App() {
   const handleSendMessage = async (
     text: string, 
     attachments: Attachment[], 
-    historyState: ChatMessage[] = messages // Optional override for history
+    historyState: ChatMessage[] = messages, // Optional override for history
+    forkIndex?: number // Edited user message: the new message becomes a sibling branch of it
   ) => {
     // API Key Validation - Show in Chat Log
     if (!apiKey) {
@@ -359,21 +629,28 @@ export default function App() {
         return;
     }
 
-    // Prepare the history for the API (excludes the new message we are about to add)
-    const history = formatHistory(historyState);
+    // Store payloads once in the blob store; the message only keeps hash references
+    let storedAttachments = attachments;
+    try {
+      storedAttachments = await storeAttachments(attachments);
+    } catch (e) {
+      console.error("Failed to store attachments, keeping them inline:", e);
+    }
+
+    // {{variables}}: the resolved text is what is sent and kept in history; the template stays for editing
+    const resolved = resolveTemplate(text, config.variables);
+    const values = { ...resolveTemplate(systemInstruction, config.variables).used, ...resolved.used };
 
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: Role.USER,
-      text: text,
-      attachments,
-      timestamp: Date.now()
+      text: resolved.text,
+      attachments: storedAttachments,
+      timestamp: Date.now(),
+      ...(Object.keys(values).length > 0 ? { template: { text, values } } : {})
     };
     
     // Update UI with new message (appended to the provided history state)
-    setMessages([...historyState, userMsg]);
-    setIsStreaming(true);
-
     const botMsgId = (Date.now() + 1).toString();
     const botMsg: ChatMessage = {
         id: botMsgId,
@@ -381,90 +658,343 @@ export default function App() {
         text: '',
         timestamp: Date.now()
     };
-    setMessages(prev => [...prev, botMsg]);
+    const path = forkIndex === undefined ? [...historyState, userMsg] : forkBranch(messages, forkIndex, userMsg);
+    setMessages([...path, botMsg]);
+
+    const ok = await runModelTurn(historyState, resolved.text, attachments, botMsgId, 0);
+
+    if (ok && historyState.length === 0) {
+       setSessions(prev => prev.map(s => 
+         s.id === currentSessionId ? { ...s, title: resolved.text.slice(0, 30) + '...' } : s
+       ));
+    }
+  };
+
+  // Streams the answer(s) to one user turn into `botMsgId`.
+  // Candidate i is written to alternate `firstAlternate + i`. Returns false on error.
+  const runModelTurn = async (
+    historyState: ChatMessage[],
+    text: string,
+    attachments: Attachment[],
+    botMsgId: string,
+    firstAlternate: number
+  ): Promise<boolean> => {
+    setIsStreaming(true);
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    // History actually sent under the session's context policy
+    let context = applyContextPolicy(historyState, config.contextPolicy);
+    const activeCacheName = (contextCache.enabled && contextCache.status === 'active') 
+      ? contextCache.cacheName 
+      : undefined;
+
+    const texts: string[] = [];
+    const thoughts: string[] = [];
+    const signatures: (string | undefined)[] = [];
+    const groundings: (GroundingInfo | undefined)[] = [];
+    const codeBlocks: CodeExecutionBlock[][] = [];
+    const validations: (SchemaValidation | undefined)[] = [];
+    const safeties: (SafetyFeedback | undefined)[] = [];
+    // Function call steps of this turn (single candidate: candidateCount is ignored while tools are active)
+    const toolRounds: ToolRound[] = [];
+    let finalUsageMetadata: { promptTokenCount: number, candidatesTokenCount: number } | undefined;
+    // Generation metadata: usage is summed over the function call rounds of the turn
+    const finishReasons: (string | undefined)[] = [];
+    let turnUsage: GenerationUsage | undefined;
+    let firstTokenMs: number | undefined;
+    let generation: GenerationInfo | undefined; // Set once the turn has ended
+    const finishGeneration = (endedAt: number) => {
+        generation = createGenerationInfo(config, {
+            usage: turnUsage,
+            firstTokenMs,
+            totalMs: endedAt - startedAt,
+            cachedContent: activeCacheName,
+            sharedBy: texts.length > 1 ? texts.length : undefined
+        });
+    };
+
+    const writeTexts = (extra: Partial<MessageAlternate> = {}) => {
+        // Array.from fills gaps: a candidate may start streaming before a lower-indexed one
+        const written = Array.from({ length: Math.max(texts.length, thoughts.length, safeties.length, 1) }, (_, i) => ({
+            text: texts[i] || '',
+            thoughts: thoughts[i] || undefined,
+            grounding: groundings[i],
+            codeBlocks: codeBlocks[i] && codeBlocks[i].length > 0 ? [...codeBlocks[i]] : undefined,
+            toolRounds: i === 0 && toolRounds.length > 0 ? [...toolRounds] : undefined,
+            schemaValidation: validations[i],
+            safety: safeties[i],
+            thoughtSignature: signatures[i],
+            timestamp: startedAt,
+            generation: generation && { ...generation, finishReason: finishReasons[i] },
+            ...extra
+        }));
+        setMessages(prev => prev.map(m => 
+            m.id === botMsgId ? writeAlternates(m, firstAlternate, written) : m
+        ));
+    };
+
+    // Usage metadata is cumulative per chunk, so the last one received is what was consumed (also when stopped)
+    const recordTurnCost = async () => {
+      const fullText = texts.join('');
+      let usage: GenerationUsage;
+      if (finalUsageMetadata) {
+          usage = parseUsageMetadata(finalUsageMetadata);
+      } else {
+          // No usage report (e.g. stopped early): count the prompt that was sent rather than only the last message.
+          // The answer shows the same figures, marked as estimated.
+          const sent: ChatMessage[] = [...context.messages, { id: 'prompt', role: Role.USER, text, attachments, timestamp: startedAt }];
+          const promptTokens = await formatHistory(sent)
+            .then(contents => countContentsTokens(apiKey, config.model, [...systemInstructionContents(resolveText(systemInstruction, config.variables)), ...contents]))
+            .then(count => count.tokens)
+            .catch(() => estimateTokens(text));
+          usage = { promptTokens, candidatesTokens: estimateTokens(fullText), cachedTokens: 0, thinkingTokens: 0, estimated: true };
+      }
+      turnUsage = addUsage(turnUsage, usage);
+      updateCost(text, fullText, usage.promptTokens, billedOutputTokens(usage), usage.cachedTokens);
+    };
+
+    // Keeps the partial answer; the chat object never recorded the turn, so history is rebuilt next time
+    const finishStopped = async () => {
+      const endedAt = Date.now(); // Before counting tokens for the cost
+      await recordTurnCost();
+      finishGeneration(endedAt);
+      writeTexts({ stopped: true });
+      chatSessionRef.current = null;
+    };
 
     try {
-      // Initialize session if needed
-      if (!chatSessionRef.current) {
-          const activeCacheName = (contextCache.enabled && contextCache.status === 'active') 
-            ? contextCache.cacheName 
-            : undefined;
-          const history = formatHistory(historyState);
-          chatSessionRef.current = createChatSession(apiKey, config, systemInstruction, history, activeCacheName);
+      // Summarize policy: fold older turns into a summary message before they are sent again
+      const plan = planSummary(historyState, config.contextPolicy);
+      if (plan) {
+          try {
+              setRetryStatus(`Summarizing ${plan.foldedTurns} earlier turns...`);
+              const summary = await summarizeMessages(apiKey, config.model, plan.fold, { signal: controller.signal, onRetry: handleRetry });
+              updateCost('', summary.text, summary.inputTokens, summary.outputTokens);
+              const summaryMsg = createSummaryMessage(summary.text, plan.foldedTurns, config.model);
+              context = applyContextPolicy(insertSummary(historyState, plan.insertBefore, summaryMsg), config.contextPolicy);
+              setMessages(prev => insertSummary(prev, plan.insertBefore, summaryMsg));
+              chatSessionRef.current = null;
+          } catch (e) {
+              if (controller.signal.aborted) throw e;
+              // The turn still goes out, just with the longer history
+              console.warn("Summarizing the history failed:", e);
+          } finally {
+              setRetryStatus(null);
+          }
+      }
+
+      // Initialize session if needed. A sliding window moves with every turn, so it is rebuilt each time.
+      if (!chatSessionRef.current || (config.contextPolicy?.mode === 'window' && context.foldedTurns > 0)) {
+          const history = await formatHistory(context.messages);
+          chatSessionRef.current = createChatSession(apiKey, config, resolveText(systemInstruction, config.variables), history, activeCacheName);
       }
       
-      const stream = await streamMessage(chatSessionRef.current, text, attachments);
-      
-      let fullText = '';
-      let finalThoughtSignature: string | undefined;
-      let finalUsageMetadata: { promptTokenCount: number, candidatesTokenCount: number } | undefined;
-
-      for await (const chunk of stream) {
-        fullText += chunk.text;
-        if (chunk.thoughtSignature) {
-            finalThoughtSignature = chunk.thoughtSignature;
+      let stream = await streamMessage(chatSessionRef.current, text, attachments, controller.signal, handleRetry);
+      setRetryStatus(null);
+
+      for (let round = 0; ; round++) {
+        const functionCalls: FunctionCallRecord[] = [];
+        for await (const chunk of stream) {
+          if (chunk.functionCalls && chunk.functionCalls.length > 0) {
+              functionCalls.push(...chunk.functionCalls);
+          }
+          if (chunk.candidates && chunk.candidates.length > 0) {
+              // Generated images go to the blob store; the message keeps references only
+              const chunkBlocks = await Promise.all(chunk.candidates.map(c => c.codeBlocks && c.codeBlocks.length > 0 ? storeCodeBlocks(c.codeBlocks) : undefined));
+              chunk.candidates.forEach((c, j) => {
+                  const blocks = chunkBlocks[j];
+                  if (blocks) {
+                      const base = (texts[c.index] || '').length;
+                      codeBlocks[c.index] = [...(codeBlocks[c.index] || []), ...blocks.map(b => ({ ...b, textOffset: base + b.textOffset }))];
+                  }
+                  texts[c.index] = (texts[c.index] || '') + c.text;
+                  if (c.thoughts) thoughts[c.index] = (thoughts[c.index] || '') + c.thoughts;
+                  if (c.thoughtSignature) signatures[c.index] = c.thoughtSignature;
+                  if (c.grounding) groundings[c.index] = c.grounding;
+                  if (c.safety) safeties[c.index] = c.safety;
+                  if (c.finishReason) finishReasons[c.index] = c.finishReason;
+              });
+          } else {
+              texts[0] = (texts[0] || '') + chunk.text;
+              if (chunk.thoughts) thoughts[0] = (thoughts[0] || '') + chunk.thoughts;
+              if (chunk.thoughtSignature) signatures[0] = chunk.thoughtSignature;
+              if (chunk.grounding) groundings[0] = chunk.grounding;
+          }
+          // Prompt blocked: there are no candidates, so it is reported on the first answer
+          if (chunk.safety?.scope === 'prompt') safeties[0] = chunk.safety;
+          if (firstTokenMs === undefined && (chunk.text || chunk.thoughts || chunk.candidates?.some(c => c.text || c.thoughts))) {
+              firstTokenMs = Date.now() - startedAt;
+          }
+          if (chunk.usageMetadata) {
+              finalUsageMetadata = chunk.usageMetadata;
+          }
+          writeTexts();
         }
-        if (chunk.usageMetadata) {
-            finalUsageMetadata = chunk.usageMetadata;
+
+        if (controller.signal.aborted) {
+            await finishStopped();
+            return true;
         }
+        if (functionCalls.length === 0) break;
 
-        setMessages(prev => prev.map(m => 
-            m.id === botMsgId ? { 
-                ...m, 
-                text: fullText,
-                thoughtSignature: finalThoughtSignature
-            } : m
-        ));
+        // --- Function call step: run the local handlers and send the results back ---
+        await recordTurnCost();
+        finalUsageMetadata = undefined;
+        if (round >= MAX_TOOL_ROUNDS) {
+            throw new Error(`Gave up after ${MAX_TOOL_ROUNDS} function call rounds.`);
+        }
+        toolRounds.push({ text: texts[0] || undefined, calls: functionCalls });
+        texts.length = 0;
+        // The text they were placed in moved to the tool round: keep the blocks ahead of the next text
+        codeBlocks.forEach((blocks, i) => { codeBlocks[i] = blocks.map(b => ({ ...b, textOffset: 0 })); });
+        // Thinking and citations belong to the round's text (citation offsets point into it)
+        thoughts.length = 0;
+        groundings.length = 0;
+        writeTexts();
+
+        const results: FunctionCallRecord[] = [];
+        for (const call of functionCalls) {
+            results.push(await executeFunctionCall(config.tools, call, controller.signal, confirmImportedHandler));
+            toolRounds[toolRounds.length - 1] = { ...toolRounds[toolRounds.length - 1], calls: [...results, ...functionCalls.slice(results.length)] };
+            writeTexts();
+        }
+        stream = await streamFunctionResponses(chatSessionRef.current, results, controller.signal, handleRetry);
+        setRetryStatus(null);
       }
-      
-      if (finalUsageMetadata) {
-          // Try to get cachedContentTokenCount (cast to any as types might be outdated)
-          const cachedCount = (finalUsageMetadata as any).cachedContentTokenCount || 0;
-          updateCost(
-              text, 
-              fullText, 
-              finalUsageMetadata.promptTokenCount, 
-              finalUsageMetadata.candidatesTokenCount,
-              cachedCount
-          );
-      } else {
-          updateCost(text, fullText);
+
+      // Structured output: flag answers that do not conform to the response schema
+      if (isStructuredOutputActive(config)) {
+          texts.forEach((t, i) => { validations[i] = validateStructuredResponse(t || '', config); });
       }
-      
-      if (historyState.length === 0) {
-         setSessions(prev => prev.map(s => 
-           s.id === currentSessionId ? { ...s, title: text.slice(0, 30) + '...' } : s
-         ));
+
+      // The chat object only records the first candidate; rebuild history from the messages next time.
+      // A blocked turn is not reliably recorded either.
+      if (texts.length > 1 || safeties.some(Boolean)) {
+          chatSessionRef.current = null;
       }
 
+      const endedAt = Date.now();
+      await recordTurnCost();
+      finishGeneration(endedAt);
+      writeTexts();
+      return true;
+
     } catch (error) {
+      if (controller.signal.aborted) {
+          await finishStopped();
+          return true;
+      }
       console.error(error);
       chatSessionRef.current = null;
       setMessages(prev => prev.map(m => 
-        m.id === botMsgId ? { ...m, text: "Error generating response. " + (error as any).message, isError: true } : m
+        m.id === botMsgId ? writeAlternates(m, firstAlternate, [{
+            text: `Error generating response (${describeError(classifyError(error))}). ` + (error as any).message,
+            timestamp: startedAt,
+            isError: true,
+            toolRounds: toolRounds.length > 0 ? toolRounds : undefined,
+            generation: createGenerationInfo(config, { usage: turnUsage, firstTokenMs, totalMs: Date.now() - startedAt, cachedContent: activeCacheName })
+        }]) : m
       ));
+      return false;
     } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setRetryStatus(null);
       setIsStreaming(false);
     }
   };
 
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Re-runs the last user turn and adds the new answer(s) as alternates of its model message
+  const handleRegenerate = async () => {
+    if (isStreaming) return;
+    if (!apiKey) {
+      alert("Please enter API Key first.");
+      return;
+    }
+
+    let userIndex = -1;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === Role.USER) { userIndex = i; break; }
+    }
+    if (userIndex === -1) return;
+
+    const userMsg = messages[userIndex];
+    const history = messages.slice(0, userIndex);
+    const existing = messages[userIndex + 1];
+
+    let botMsgId: string;
+    let firstAlternate: number;
+    if (existing && existing.role === Role.MODEL) {
+      botMsgId = existing.id;
+      firstAlternate = getAlternates(existing).length;
+      setMessages(messages.slice(0, userIndex + 2));
+    } else {
+      // The turn never got an answer (e.g. the page was closed mid-stream)
+      botMsgId = Date.now().toString();
+      firstAlternate = 0;
+      setMessages([...messages.slice(0, userIndex + 1), { id: botMsgId, role: Role.MODEL, text: '', timestamp: Date.now() }]);
+    }
+
+    // The live chat already contains the previous answer; start from the history before this turn
+    chatSessionRef.current = null;
+    await runModelTurn(history, userMsg.text, userMsg.attachments || [], botMsgId, firstAlternate);
+  };
+
+  const handleSelectAlternate = (id: string, index: number) => {
+    setMessages(prev => prev.map(m => m.id === id ? selectAlternate(m, index) : m));
+    // Later turns are now answered against a different model message
+    chatSessionRef.current = null;
+  };
+
   const handleEditMessage = (id: string, newText: string) => {
     const index = messages.findIndex(m => m.id === id);
     if (index === -1) return;
 
     const originalMessage = messages[index];
-    
-    // Keep everything BEFORE the edited message
-    const newHistory = messages.slice(0, index);
-    
-    // Update state immediately to remove old future messages
-    setMessages(newHistory);
+
+    // A summary pseudo-message is corrected in place rather than forking the conversation
+    if (originalMessage.contextSummary) {
+      setMessages(prev => prev.map(m => m.id === id ? { ...m, text: newText, contextSummary: { ...m.contextSummary!, edited: true } } : m));
+      chatSessionRef.current = null;
+      return;
+    }
 
     // Reset session ref because history has changed
     chatSessionRef.current = null;
 
-    // Send the edited message as a new message, using the truncated history
-    handleSendMessage(newText, originalMessage.attachments || [], newHistory);
+    // Send the edited message as a new branch; the previous continuation stays reachable from it
+    handleSendMessage(newText, originalMessage.attachments || [], messages.slice(0, index), index);
+  };
+
+  const handleSelectBranch = (id: string, branch: number) => {
+    setMessages(prev => {
+      const index = prev.findIndex(m => m.id === id);
+      return index === -1 ? prev : selectBranch(prev, index, branch);
+    });
+    chatSessionRef.current = null;
+  };
+
+  // Compare mode: the prompt and the chosen column's answer join the chat.
+  // Promoting another column of the same comparison adds it as an alternate of that answer.
+  const handlePromoteComparison = (prompt: ChatMessage, answer: MessageAlternate) => {
+    const answerId = `${prompt.id}-answer`;
+    setMessages(prev => {
+      if (prev.some(m => m.id === answerId)) {
+        return prev.map(m => m.id === answerId ? writeAlternates(m, getAlternates(m).length, [answer]) : m);
+      }
+      const botMsg: ChatMessage = { id: answerId, role: Role.MODEL, text: '', timestamp: answer.timestamp };
+      return [...prev, prompt, writeAlternates(botMsg, 0, [answer])];
+    });
+    if (messages.length === 0) {
+      setSessions(prev => prev.map(s => 
+        s.id === currentSessionId ? { ...s, title: prompt.text.slice(0, 30) + '...' } : s
+      ));
+    }
+    chatSessionRef.current = null;
   };
 
   const handleCheckBatchStatus = async (job: BatchJobRecord) => {
@@ -473,7 +1003,7 @@ export default function App() {
           const result = await getBatchJob(apiKey, job.jobName);
           const newState = result.state || "UNKNOWN";
           
-          const updatedList = updateBatchJobStatus(job.id, newState);
+          const updatedList = await updateBatchJobStatus(job.id, newState);
           setBatchJobs(updatedList);
           
           alert(`Job Status: ${newState}\nCreated: ${result.createTime}`);
@@ -482,24 +1012,96 @@ export default function App() {
       }
   };
 
-  const handleAddBatchJob = (jobName: string, prompt: string) => {
-      const newJob = saveBatchJob(jobName, prompt);
+  const handleAddBatchJob = async (jobName: string, prompt: string) => {
+      const newJob = await saveBatchJob(jobName, prompt);
       setBatchJobs(prev => [newJob, ...prev]);
   };
 
   const handleDeleteBatchJob = (id: string, e: React.MouseEvent) => {
       e.stopPropagation();
-      const updatedList = deleteBatchJob(id);
-      setBatchJobs(updatedList);
+      deleteBatchJob(id).then(setBatchJobs);
+  };
+
+  // --- Vault Handlers ---
+  const handleUnlockVault = async (passphrase: string): Promise<boolean> => {
+      const ok = await unlockVault(passphrase);
+      if (ok) setVaultStatus('open');
+      return ok;
+  };
+
+  const handleEnableVault = async (passphrase: string) => {
+      try {
+          const report = await enableVault(passphrase, autoLockMinutes);
+          setVaultEnabled(true);
+          // Other tabs still hold plaintext state and no key
+          broadcast({ type: 'reset' });
+          if (report.rejected.length > 0) {
+              alert(`Lock enabled. Some records failed validation: they were encrypted as they are but are not loaded.\n\n${formatReport(report)}`);
+          }
+      } catch (e: any) {
+          alert("Failed to enable lock: " + e.message);
+      }
+  };
+
+  const handleDisableVault = async () => {
+      if (!confirm("Disable the lock? Your API key and history will be stored unencrypted again.")) return;
+      try {
+          const report = await disableVault();
+          setVaultEnabled(false);
+          broadcast({ type: 'reset' });
+          if (report.rejected.length > 0) {
+              alert(`Lock disabled. Some records failed validation: they were decrypted as they are but are not loaded.\n\n${formatReport(report)}`);
+          }
+      } catch (e: any) {
+          alert("Failed to disable lock: " + e.message);
+      }
+  };
+
+  const handleLockNow = () => {
+      lockVault();
+      window.location.reload();
+  };
+
+  const handleAutoLockChange = (minutes: number) => {
+      setAutoLockMinutesState(minutes);
+      setAutoLockMinutes(minutes).catch(e => console.error("Failed to save auto-lock setting:", e));
+  };
+
+  const handleWipeAll = async () => {
+      if (!confirm("⚠️ FORGET EVERYTHING?\nThis permanently deletes your API key, all chats, bulk sessions, batch jobs and cost history from this browser.")) return;
+      try {
+          await wipeAllData();
+      } catch (e) {
+          console.error("Wipe failed:", e);
+      }
+      broadcast({ type: 'reset' });
+      window.location.reload();
   };
 
+  // Restore writes straight to storage; reload so every view hydrates from the restored data
+  const handleBackupRestored = () => {
+      broadcast({ type: 'reset' });
+      window.location.reload();
+  };
+
+  if (vaultStatus === 'checking') {
+      return <div className="h-screen w-full bg-[#131314]" />;
+  }
+
+  if (vaultStatus === 'locked') {
+      return <LockScreen onUnlock={handleUnlockVault} onWipeAll={handleWipeAll} />;
+  }
+
   return (
     <div className="flex h-screen w-full bg-[#131314] text-[#e3e3e3] font-sans overflow-hidden relative">
       
       {saveError && (
         <div className="absolute top-0 left-0 w-full bg-red-600/90 text-white text-xs font-bold p-2 z-[9999] text-center flex justify-between items-center px-4">
             <span>{saveError}</span>
-            <button onClick={() => setSaveError(null)} className="hover:bg-red-800 rounded px-2">X</button>
+            <div className="flex items-center gap-2">
+                <button onClick={() => setShowStorageDialog(true)} className="border border-white/50 hover:bg-red-800 rounded px-2">Manage Storage</button>
+                <button onClick={() => setSaveError(null)} className="hover:bg-red-800 rounded px-2">X</button>
+            </div>
         </div>
       )}
 
@@ -516,6 +1118,8 @@ export default function App() {
         onDeleteBatchJob={handleDeleteBatchJob}
         activeView={activeView}
         onViewChange={setActiveView}
+        onOpenBackup={() => setShowBackupDialog(true)}
+        onOpenStorage={() => setShowStorageDialog(true)}
       />
 
       {activeView === 'economy' ? (
@@ -523,13 +1127,28 @@ export default function App() {
             apiKey={apiKey}
             config={config}
             systemInstruction={systemInstruction}
-            onUpdateCost={(inTokens, outTokens) => {
-                 updateCost("", "", 0, outTokens, inTokens); 
+            setSystemInstruction={setSystemInstruction}
+            onConfigChange={setConfig}
+            onUpdateCost={(inTokens, outTokens, cachedTokens) => {
+                 updateCost("", "", inTokens, outTokens, cachedTokens);
             }}
             messages={messages}
             setMessages={setMessages}
             currentSessionId={currentSessionId}
         />
+      ) : activeView === 'compare' ? (
+        <ComparePanel
+            apiKey={apiKey}
+            config={config}
+            systemInstruction={systemInstruction}
+            contextCache={contextCache}
+            messages={messages}
+            currentSessionId={currentSessionId}
+            onUpdateCost={(model, inTokens, outTokens, cachedTokens) => {
+                 updateCost("", "", inTokens, outTokens, cachedTokens, model);
+            }}
+            onPromote={handlePromoteComparison}
+        />
       ) : activeView === 'bulk' ? (
         <BulkRunPanel 
             apiKey={apiKey}
@@ -549,13 +1168,25 @@ export default function App() {
           messages={messages}
           onSendMessage={handleSendMessage}
           isStreaming={isStreaming}
-          onRegenerate={() => {}}
+          onRegenerate={handleRegenerate}
+          onSelectAlternate={handleSelectAlternate}
           onEditMessage={handleEditMessage}
+          onSelectBranch={handleSelectBranch}
+          onStop={handleStopGeneration}
+          retryStatus={retryStatus}
+          apiKey={apiKey}
+          model={config.model}
+          contextCacheTokens={contextCache.enabled && contextCache.status === 'active' ? contextCache.tokenCount || 0 : undefined}
+          contextPolicy={config.contextPolicy}
+          variables={config.variables}
+          config={config}
+          onConfigChange={setConfig}
         />
       )}
 
       <RightPanel 
         config={config}
+        systemInstruction={systemInstruction}
         contextCache={contextCache}
         onConfigChange={setConfig}
         onCacheChange={setContextCache}
@@ -567,8 +1198,27 @@ export default function App() {
         todayCost={todayCost}
         monthCost={monthCost}
         onBatchCreated={handleAddBatchJob}
+        vaultEnabled={vaultEnabled}
+        autoLockMinutes={autoLockMinutes}
+        onEnableVault={handleEnableVault}
+        onDisableVault={handleDisableVault}
+        onLockNow={handleLockNow}
+        onAutoLockChange={handleAutoLockChange}
+        onWipeAll={handleWipeAll}
       />
 
+      {showBackupDialog && (
+        <BackupDialog onClose={() => setShowBackupDialog(false)} onRestored={handleBackupRestored} />
+      )}
+
+      {showStorageDialog && (
+        <StorageDialog
+          onClose={() => setShowStorageDialog(false)}
+          onStripAttachments={handleStripAttachments}
+          onDeleteSessions={handleDeleteStoredSessions}
+        />
+      )}
+
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Image as ImageIcon, X } from 'lucide-react';
+import { Attachment } from '../types';
+import { loadAttachmentData } from '../services/attachmentStore';
+import { formatBytes } from '../services/storageUsageService';
+
+interface AttachmentPreviewProps {
+  attachment: Attachment;
+  onRemove?: () => void; // Pending attachments (input areas) can be removed
+}
+
+// Image attachments are loaded from the blob store only when the message is rendered
+const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ attachment, onRemove }) => {
+  const isImage = attachment.mimeType.startsWith('image/');
+  const [src, setSrc] = useState<string | null>(
+    isImage && attachment.data ? `data:${attachment.mimeType};base64,${attachment.data}` : null
+  );
+
+  useEffect(() => {
+    if (!isImage || src || !attachment.hash) return;
+    let cancelled = false;
+    loadAttachmentData(attachment.hash)
+      .then(data => {
+        if (!cancelled && data) setSrc(`data:${attachment.mimeType};base64,${data}`);
+      })
+      .catch(e => console.warn("Failed to load attachment preview", e));
+    return () => { cancelled = true; };
+  }, [attachment.hash]);
+
+  return (
+    <div className="bg-studio-panel border border-studio-border rounded-lg p-2 flex items-center gap-2" title={`${attachment.name} (${attachment.mimeType})`}>
+      {src ? (
+          <img src={src} alt={attachment.name} className="w-10 h-10 object-cover rounded" />
+      ) : isImage ? (
+          <ImageIcon size={16} className="text-purple-400" />
+      ) : (
+          <FileText size={16} className="text-blue-400" />
+      )}
+      <div className="flex flex-col">
+        <span className="text-xs truncate max-w-[150px] font-medium">{attachment.name}</span>
+        <span className="text-[9px] text-gray-500 uppercase">
+          {attachment.mimeType.split('/')[1] || 'FILE'}
+          {attachment.size !== undefined && ` · ${formatBytes(attachment.size)}`}
+          {attachment.textContent !== undefined && <span className="ml-1 text-green-600 bg-green-900/20 px-1 rounded">TEXT</span>}
+        </span>
+      </div>
+      {onRemove && (
+          <button onClick={onRemove} className="text-gray-500 hover:text-red-400 self-start" title="Remove">
+              <X size={12} />
+          </button>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentPreview;
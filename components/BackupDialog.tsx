@@ -0,0 +1,198 @@
+import React, { useRef, useState } from 'react';
+import { X, Archive, Download, Upload, Loader2, AlertTriangle } from 'lucide-react';
+import {
+  createWorkspaceBackup, readWorkspaceBackup, restoreWorkspaceBackup,
+  ParsedBackup, RestoreMode, ConflictPolicy
+} from '../services/backupService';
+import { formatReport } from '../services/schemaService';
+
+interface BackupDialogProps {
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const CONFLICT_LABELS: Record<ConflictPolicy, string> = {
+  'newer': 'Keep the newer version',
+  'keep-both': 'Keep both (restored copy gets a new id)',
+  'overwrite': 'Overwrite with backup',
+  'skip': 'Keep existing, skip backup'
+};
+
+const BackupDialog: React.FC<BackupDialogProps> = ({ onClose, onRestored }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeApiKey, setIncludeApiKey] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('newer');
+  const [restoreApiKey, setRestoreApiKey] = useState(false);
+
+  const handleCreate = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const blob = await createWorkspaceBackup({ includeApiKey });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `gemini-studio-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      setError('Backup failed: ' + e.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    setIsWorking(true);
+    setError(null);
+    setBackup(null);
+    try {
+      const parsed = await readWorkspaceBackup(file);
+      setBackup(parsed);
+      setRestoreApiKey(false);
+    } catch (e: any) {
+      setError('Cannot read backup: ' + e.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (mode === 'replace' && !confirm("Replace mode deletes all current chats, bulk sessions, batch jobs and cost history before restoring. Continue?")) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const result = await restoreWorkspaceBackup(backup, { mode, conflictPolicy, restoreApiKey });
+      alert(`Restore complete.\nAdded: ${result.added}\nReplaced: ${result.replaced}\nKept both: ${result.duplicated}\nSkipped: ${result.skipped}`);
+      onRestored();
+    } catch (e: any) {
+      setError('Restore failed: ' + e.message);
+      setIsWorking(false);
+    }
+  };
+
+  const reportText = backup ? formatReport(backup.report) : '';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-10 animate-in fade-in">
+      <div className="bg-studio-panel border border-studio-border rounded-lg w-full max-w-lg max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-studio-border flex justify-between items-center bg-[#1e1e1e]">
+          <h3 className="font-bold text-white text-sm flex items-center gap-2"><Archive size={16} /> Workspace Backup</h3>
+          <button onClick={onClose} disabled={isWorking}><X className="text-gray-400 hover:text-white" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6 text-sm">
+          {/* Create */}
+          <section className="space-y-2">
+            <h4 className="text-xs font-bold text-studio-subtext uppercase tracking-wider">Create Backup</h4>
+            <p className="text-xs text-gray-500">
+              One zip with every chat (and attachment), bulk session, batch job record, cost history and settings.
+              The archive is not encrypted, even when the passphrase lock is on.
+            </p>
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input type="checkbox" checked={includeApiKey} onChange={(e) => setIncludeApiKey(e.target.checked)} />
+              Include API key
+            </label>
+            <button
+              onClick={handleCreate}
+              disabled={isWorking}
+              className="w-full py-2 bg-studio-primary text-studio-bg text-xs font-bold rounded flex items-center justify-center gap-2 hover:opacity-90 disabled:opacity-50"
+            >
+              <Download size={14} /> Download Backup
+            </button>
+          </section>
+
+          {/* Restore */}
+          <section className="space-y-2 border-t border-studio-border pt-4">
+            <h4 className="text-xs font-bold text-studio-subtext uppercase tracking-wider">Restore</h4>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isWorking}
+              className="w-full py-2 bg-[#2a2b2e] hover:bg-[#3a3b3e] text-gray-200 text-xs rounded flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Upload size={14} /> Choose Backup File
+            </button>
+            <input type="file" ref={fileInputRef} className="hidden" accept=".zip" onChange={handleFileChange} />
+
+            {backup && (
+              <div className="space-y-3 bg-[#131314] border border-studio-border rounded p-3">
+                <div className="text-xs text-gray-400 space-y-0.5">
+                  <div>Created {new Date(backup.manifest.createdAt).toLocaleString()} (v{backup.manifest.appVersion})</div>
+                  <div>
+                    {backup.sessions.length} chats · {backup.bulkSessions.length} bulk sessions · {backup.batchJobs.length} batch jobs · {backup.costRecords.length} cost records · {backup.prompts.length} saved prompts · {backup.blobs.length} attachments
+                  </div>
+                </div>
+
+                {reportText && (
+                  <pre className="text-[10px] text-yellow-300 whitespace-pre-wrap max-h-32 overflow-y-auto">{reportText}</pre>
+                )}
+
+                <div className="flex gap-4 text-xs text-gray-300">
+                  <label className="flex items-center gap-1 cursor-pointer">
+                    <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} /> Merge
+                  </label>
+                  <label className="flex items-center gap-1 cursor-pointer">
+                    <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} /> Replace everything
+                  </label>
+                </div>
+
+                {mode === 'merge' ? (
+                  <div>
+                    <label className="text-xs text-gray-400 block mb-1">When a chat / bulk session already exists</label>
+                    <select
+                      value={conflictPolicy}
+                      onChange={(e) => setConflictPolicy(e.target.value as ConflictPolicy)}
+                      className="w-full bg-studio-panel border border-studio-border rounded px-2 py-1.5 text-xs outline-none focus:border-studio-primary"
+                    >
+                      {(Object.keys(CONFLICT_LABELS) as ConflictPolicy[]).map(p => (
+                        <option key={p} value={p}>{CONFLICT_LABELS[p]}</option>
+                      ))}
+                    </select>
+                  </div>
+                ) : (
+                  <div className="text-xs text-red-400 flex items-start gap-1">
+                    <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" /> Current data will be deleted first.
+                  </div>
+                )}
+
+                {backup.settings.apiKey && (
+                  <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                    <input type="checkbox" checked={restoreApiKey} onChange={(e) => setRestoreApiKey(e.target.checked)} />
+                    Also restore the API key from the backup
+                  </label>
+                )}
+
+                <button
+                  onClick={handleRestore}
+                  disabled={isWorking}
+                  className="w-full py-2 bg-studio-primary text-studio-bg text-xs font-bold rounded flex items-center justify-center gap-2 hover:opacity-90 disabled:opacity-50"
+                >
+                  {isWorking ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+                  Restore
+                </button>
+              </div>
+            )}
+          </section>
+
+          {error && <div className="text-xs text-red-400">{error}</div>}
+          {isWorking && !backup && <div className="text-xs text-gray-500 flex items-center gap-2"><Loader2 size={12} className="animate-spin" /> Working...</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupDialog;
@@ -5,11 +5,19 @@ import {
 } from 'lucide-react';
 import { BatchSession, BatchFileItem, ModelConfig, ContextCacheConfig } from '../types';
 import { generateBatchContent } from '../services/geminiService';
+import StructuredOutputView from './StructuredOutputView';
+import SafetyFeedbackView from './SafetyFeedbackView';
+import { describeSafetyFeedback } from '../services/safetyService';
+import { formatRetryStatus, classifyError, describeError } from '../services/retryService';
+import { buildStructuredOutputConfig, validateStructuredResponse } from '../services/structuredOutputService';
+import { resolveTemplate, resolveText, formatMissingVariables } from '../services/templateService';
 import { 
     getLocalBatchSessions, saveLocalBatchSession, deleteLocalBatchSession, 
     clearAllLocalBatchSessions, readFileContent, createZipFromSession, 
     sanitizeFileName, updateItemInSession 
 } from '../services/batchRunService';
+import { subscribe, tryAcquireLock, getLocksHeldElsewhere, LOCK_PREFIX_BATCH_SESSION } from '../services/syncService';
+import { parseUsageMetadata, billedOutputTokens } from '../services/generationInfoService';
 
 interface BulkRunPanelProps {
   apiKey: string;
@@ -36,6 +44,7 @@ const BulkRunPanel: React.FC<BulkRunPanelProps> = ({
   const [autoDeleteCache, setAutoDeleteCache] = useState(true);
   const [ttlMinutes, setTtlMinutes] = useState<number>(5); // Default 5 mins
   const [concurrency, setConcurrency] = useState<number>(1); // Default 1 to avoid 503
+  const resolvedSystemInstruction = resolveText(systemInstruction, config.variables);
   const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
   
   // Context File State
@@ -50,10 +59,35 @@ const BulkRunPanel: React.FC<BulkRunPanelProps> = ({
   const abortControllerRef = useRef<AbortController | null>(null);
   // 用來記錄當前正在使用的 Cache Name，以便緊急停止時刪除
   const currentRunningCacheRef = useRef<string | undefined>(undefined);
+  // Session this tab is running (its in-memory state is ahead of the DB)
+  const runningSessionIdRef = useRef<string | null>(null);
+  // Sessions being run by other tabs
+  const [runningElsewhere, setRunningElsewhere] = useState<Set<string>>(new Set());
+
+  const refreshRunningElsewhere = () => {
+      getLocksHeldElsewhere()
+          .then(held => setRunningElsewhere(new Set(
+              [...held]
+                  .filter(name => name.startsWith(LOCK_PREFIX_BATCH_SESSION))
+                  .map(name => name.slice(LOCK_PREFIX_BATCH_SESSION.length))
+          )))
+          .catch(e => console.warn("Failed to query locks:", e));
+  };
 
-  // Load history on mount
+  // Load history on mount, then follow changes made by other tabs
   useEffect(() => {
-      setSessions(getLocalBatchSessions());
+      getLocalBatchSessions().then(setSessions);
+      refreshRunningElsewhere();
+
+      return subscribe(msg => {
+          if (msg.type === 'bulkSessions') {
+              getLocalBatchSessions().then(loaded => setSessions(prev => loaded.map(s =>
+                  s.id === runningSessionIdRef.current ? (prev.find(p => p.id === s.id) || s) : s
+              )));
+          } else if (msg.type === 'locks') {
+              refreshRunningElsewhere();
+          }
+      });
   }, []);
 
   // Get active session object
@@ -138,7 +172,33 @@ const BulkRunPanel: React.FC<BulkRunPanelProps> = ({
   const handleIntegratedRun = async () => {
       if (!activeSession) return;
       if (!apiKey) return alert("Please enter API Key.");
+      // Every item would fail the same way
+      try {
+          buildStructuredOutputConfig(config);
+      } catch (e: any) {
+          return alert(e.message);
+      }
+      const pendingQuestions = activeSession.items.filter(i => i.status === 'pending' || i.status === 'error').map(i => i.question);
+      const missing = resolveTemplate([systemInstruction, ...pendingQuestions].join('\n'), config.variables).missing;
+      if (missing.length > 0 && !confirm(`${formatMissingVariables(missing)}\n\nRun anyway?`)) return;
+
+      // Only one tab may run a given session (it would double the requests and the cost)
+      const release = await tryAcquireLock(LOCK_PREFIX_BATCH_SESSION + activeSession.id);
+      if (!release) {
+          refreshRunningElsewhere();
+          return alert("This session is already running in another tab.");
+      }
 
+      runningSessionIdRef.current = activeSession.id;
+      try {
+          await runSession(activeSession);
+      } finally {
+          runningSessionIdRef.current = null;
+          release();
+      }
+  };
+
+  const runSession = async (activeSession: BatchSession) => {
       // 初始化中斷控制器
       abortControllerRef.current = new AbortController();
       const signal = abortControllerRef.current.signal;
@@ -202,42 +262,61 @@ const BulkRunPanel: React.FC<BulkRunPanelProps> = ({
       const CONCURRENCY = concurrency;
       const pendingItems = activeSession.items.filter(i => i.status === 'pending' || i.status === 'error');
       
-      // Queue for processing (supports re-queueing)
-      const queue: { item: BatchFileItem, retries: number }[] = pendingItems.map(i => ({ item: i, retries: 0 }));
+      // Queue for processing. Transient API errors are retried inside generateBatchContent (services/retryService)
+      const queue: BatchFileItem[] = [...pendingItems];
 
-      let currentSessionState = { ...activeSession, cacheNameUsed: activeCacheName }; 
+      let currentSessionState: BatchSession = { ...activeSession, cacheNameUsed: activeCacheName }; 
       let cacheDeleted = false;
 
-      // Helper to process one item (Returns true if success, false if failed)
-      const processItem = async (queueItem: { item: BatchFileItem, retries: number }): Promise<boolean> => {
-           const { item } = queueItem;
-           if (signal.aborted) return false;
+      // Helper to process one item
+      const processItem = async (item: BatchFileItem): Promise<void> => {
+           if (signal.aborted) return;
 
            // Update status to loading
-           currentSessionState = updateItemInSession(currentSessionState, item.id, { status: 'loading' });
+           currentSessionState = updateItemInSession(currentSessionState, item.id, { status: 'loading', attempts: 1, retryStatus: undefined });
            setSessions(prev => prev.map(s => s.id === currentSessionState.id ? currentSessionState : s));
 
            try {
-               let finalPrompt = item.question;
+               // {{variables}} are substituted per request; the sent question is kept on the item
+               const question = resolveText(item.question, config.variables);
+               let finalPrompt = question;
                if (activeCacheName) {
-                   finalPrompt = `[System Instruction: You have access to a cached document. Please answer the user's question strictly based on that document.]\n\nUser Question:\n${item.question}`;
+                   finalPrompt = `[System Instruction: You have access to a cached document. Please answer the user's question strictly based on that document.]\n\nUser Question:\n${question}`;
                }
 
                const response = await generateBatchContent(
                    apiKey,
                    config,
                    finalPrompt,
-                   activeCacheName
-                   // Removed onFirstToken callback to prevent early cache deletion which breaks retries
+                   activeCacheName,
+                   undefined, // No onFirstToken: deleting the cache early would break retries
+                   {
+                       signal,
+                       onRetry: (info) => {
+                           currentSessionState = updateItemInSession(currentSessionState, item.id, { attempts: info.attempt, retryStatus: formatRetryStatus(info) });
+                           if (!signal.aborted) {
+                               setSessions(prev => prev.map(s => s.id === currentSessionState.id ? currentSessionState : s));
+                           }
+                       }
+                   }
                );
 
                if (response.usageMetadata) {
-                   onUpdateCost(response.usageMetadata.promptTokenCount, response.usageMetadata.candidatesTokenCount);
+                   const usage = parseUsageMetadata(response.usageMetadata);
+                   onUpdateCost(usage.promptTokens, billedOutputTokens(usage));
                }
 
+               // Blocked before any text: the item failed with the block reason (not retried, it would be blocked again)
+               const blocked = !response.text && !!response.safety;
+
                currentSessionState = updateItemInSession(currentSessionState, item.id, { 
-                   status: 'success', 
+                   status: blocked ? 'error' : 'success', 
+                   errorMsg: blocked ? describeSafetyFeedback(response.safety!) : undefined,
+                   retryStatus: undefined,
                    answer: response.text,
+                   resolvedQuestion: question !== item.question ? question : undefined,
+                   safety: response.safety,
+                   schemaValidation: validateStructuredResponse(response.text, config),
                    tokenUsage: {
                        prompt: response.usageMetadata?.promptTokenCount || 0,
                        candidates: response.usageMetadata?.candidatesTokenCount || 0
@@ -248,25 +327,24 @@ const BulkRunPanel: React.FC<BulkRunPanelProps> = ({
                    setSessions(prev => prev.map(s => s.id === currentSessionState.id ? currentSessionState : s));
                    saveLocalBatchSession(currentSessionState);
                }
-               return true;
 
            } catch (err: any) {
-               if (signal.aborted) return false;
+               if (signal.aborted) return;
                console.error(`Error processing item ${item.id}:`, err);
                
                currentSessionState = updateItemInSession(currentSessionState, item.id, { 
                    status: 'error', 
-                   errorMsg: err.message 
+                   errorMsg: `${describeError(classifyError(err))}: ${err.message}`,
+                   retryStatus: undefined
                });
                
                if (!signal.aborted) {
                    setSessions(prev => prev.map(s => s.id === currentSessionState.id ? currentSessionState : s));
                }
-               return false;
            }
       };
 
-      // Dynamic Concurrency Pool with Re-queueing
+      // Dynamic Concurrency Pool
       const executing: Promise<void>[] = [];
 
       while (queue.length > 0 || executing.length > 0) {
@@ -275,28 +353,13 @@ const BulkRunPanel: React.FC<BulkRunPanelProps> = ({
 
           // Fill the pool
           while (queue.length > 0 && executing.length < concurrency) {
-              const queueItem = queue.shift();
-              if (!queueItem) break;
+              const item = queue.shift();
+              if (!item) break;
 
               // Throttling to avoid 503
               await new Promise(resolve => setTimeout(resolve, 1000));
 
-              const p = processItem(queueItem).then(async (success) => {
-                  if (!success) {
-                      // Handle Retry
-                      if (queueItem.retries < 5) { // MAX_RETRIES = 5
-                          queueItem.retries++;
-                          const delay = Math.pow(2, queueItem.retries) * 2000; // Increased backoff
-                          console.log(`Re-queueing item ${queueItem.item.id} in ${delay}ms (Attempt ${queueItem.retries})`);
-                          
-                          await new Promise(r => setTimeout(r, delay));
-                          queue.push(queueItem);
-                      } else {
-                          console.error(`Item ${queueItem.item.id} failed after ${queueItem.retries} retries.`);
-                      }
-                  }
-              });
-              executing.push(p);
+              executing.push(processItem(item));
           }
 
           if (executing.length === 0 && queue.length === 0) break;
@@ -340,7 +403,7 @@ const BulkRunPanel: React.FC<BulkRunPanelProps> = ({
   const handleDeleteSession = (id: string, e: React.MouseEvent) => {
       e.stopPropagation();
       if (confirm("Are you sure you want to delete this history?")) {
-          setSessions(deleteLocalBatchSession(id));
+          deleteLocalBatchSession(id).then(setSessions);
           if (activeSessionId === id) setActiveSessionId(null);
       }
   };
@@ -555,13 +618,18 @@ const BulkRunPanel: React.FC<BulkRunPanelProps> = ({
                                                 </div>
                                             </div>
                                         </label>
-                                        <div className="text-xs bg-[#131314] border border-studio-border rounded p-2 text-gray-400 truncate" title={systemInstruction}>
-                                            {systemInstruction ? `"${systemInstruction.slice(0, 50)}..."` : "(Empty - Model will just answer questions)"}
+                                        <div className="text-xs bg-[#131314] border border-studio-border rounded p-2 text-gray-400 truncate" title={resolvedSystemInstruction}>
+                                            {resolvedSystemInstruction ? `"${resolvedSystemInstruction.slice(0, 50)}..."` : "(Empty - Model will just answer questions)"}
                                         </div>
                                     </div>
 
                                     {/* 按鈕區域：根據是否正在執行顯示不同按鈕 */}
-                                    {isRunning ? (
+                                    {runningElsewhere.has(activeSession.id) && !isRunning ? (
+                                        <div className="h-10 px-4 border border-yellow-800 bg-yellow-900/20 text-yellow-400 text-xs rounded flex items-center gap-2">
+                                            <Loader2 size={14} className="animate-spin" />
+                                            Running in another tab
+                                        </div>
+                                    ) : isRunning ? (
                                         <button
                                             onClick={handleStop}
                                             className="h-10 px-6 bg-red-900/80 border border-red-700 text-white font-bold rounded flex items-center gap-2 hover:bg-red-800 transition-colors animate-pulse"
@@ -665,7 +733,13 @@ const BulkRunPanel: React.FC<BulkRunPanelProps> = ({
                                             <div className="flex items-center gap-2 mb-1">
                                                 {item.status === 'loading' ? <Loader2 size={14} className="animate-spin text-blue-400"/> : <div className="w-2 h-2 rounded-full bg-gray-600"/>}
                                                 <span className="text-xs font-mono truncate">{item.originalFileName}</span>
+                                                {item.status === 'loading' && item.attempts && item.attempts > 1 && (
+                                                    <span className="ml-auto text-[10px] text-yellow-500 whitespace-nowrap">attempt {item.attempts}</span>
+                                                )}
                                             </div>
+                                            {item.status === 'loading' && item.retryStatus && (
+                                                <div className="text-[10px] text-yellow-500/80 mb-1">{item.retryStatus}</div>
+                                            )}
                                             <div className="text-xs text-gray-500 truncate">{item.question.slice(0, 50)}...</div>
                                         </div>
                                     ))}
@@ -699,6 +773,11 @@ const BulkRunPanel: React.FC<BulkRunPanelProps> = ({
                                             {expandedItemId === item.id ? <ChevronDown size={16} className="text-gray-500"/> : <ChevronRight size={16} className="text-gray-500"/>}
                                             <div className="text-sm font-medium text-green-400 flex-1 truncate">{item.originalFileName}</div>
                                             {item.status === 'error' && <AlertCircle size={16} className="text-red-400"/>}
+                                            {item.schemaValidation && item.schemaValidation.errors.length > 0 && (
+                                                <span className="text-[10px] text-orange-400 border border-orange-800 rounded px-1" title={item.schemaValidation.errors.join('\n')}>
+                                                    Schema mismatch
+                                                </span>
+                                            )}
                                             {item.tokenUsage && (
                                                 <span className="text-[10px] font-mono text-gray-600">
                                                     {item.tokenUsage.prompt + item.tokenUsage.candidates} toks
@@ -711,13 +790,20 @@ const BulkRunPanel: React.FC<BulkRunPanelProps> = ({
                                             <div className="border-t border-studio-border p-4 bg-[#1a1a1a]">
                                                  <div className="mb-2">
                                                     <span className="text-[10px] text-gray-500 uppercase">Question</span>
-                                                    <div className="text-xs text-gray-400 mb-2 line-clamp-2 hover:line-clamp-none">{item.question}</div>
+                                                    <div className="text-xs text-gray-400 mb-2 line-clamp-2 hover:line-clamp-none" title={item.resolvedQuestion ? `Template:\n${item.question}` : undefined}>{item.resolvedQuestion || item.question}</div>
                                                  </div>
                                                  <div>
                                                     <span className="text-[10px] text-gray-500 uppercase">Answer</span>
-                                                    <div className="text-sm text-gray-200 whitespace-pre-wrap font-mono mt-1">
-                                                        {item.answer || <span className="text-red-400">{item.errorMsg}</span>}
-                                                    </div>
+                                                    {item.schemaValidation ? (
+                                                        <div className="mt-1">
+                                                            <StructuredOutputView text={item.answer} validation={item.schemaValidation} />
+                                                        </div>
+                                                    ) : (
+                                                        <div className="text-sm text-gray-200 whitespace-pre-wrap font-mono mt-1">
+                                                            {item.answer || <span className="text-red-400">{item.errorMsg}</span>}
+                                                        </div>
+                                                    )}
+                                                    {item.safety && <SafetyFeedbackView feedback={item.safety} partial={!!item.answer} />}
                                                  </div>
                                             </div>
                                         )}
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { Terminal, Code2, ChevronDown, ChevronRight, Copy } from 'lucide-react';
+import { CodeExecutionBlock } from '../types';
+import { loadAttachmentData } from '../services/attachmentStore';
+
+// One executableCode / codeExecutionResult block of the code execution tool, or a generated image
+const CodeExecutionView: React.FC<{ block: CodeExecutionBlock }> = ({ block }) => {
+  const [open, setOpen] = useState(true);
+  // Stored images are loaded from the blob store when shown
+  const [imageData, setImageData] = useState<string | null | undefined>(block.data);
+
+  useEffect(() => {
+    if (block.kind !== 'image' || block.data || !block.hash) {
+      setImageData(block.data);
+      return;
+    }
+    let cancelled = false;
+    loadAttachmentData(block.hash)
+      .then(data => { if (!cancelled) setImageData(data ?? null); })
+      .catch(() => { if (!cancelled) setImageData(null); });
+    return () => { cancelled = true; };
+  }, [block.kind, block.data, block.hash]);
+
+  if (block.kind === 'image') {
+    return (
+      <div className="my-2">
+        {imageData
+          ? <img src={`data:${block.mimeType};base64,${imageData}`} alt="Generated output" className="max-w-full rounded border border-studio-border bg-white" />
+          : <div className="text-xs text-gray-500 italic">{imageData === null ? 'Image no longer available' : 'Loading image...'}</div>}
+      </div>
+    );
+  }
+
+  const isCode = block.kind === 'code';
+  const failed = !isCode && block.outcome !== undefined && block.outcome !== 'OUTCOME_OK';
+  const body = isCode ? block.code : block.output;
+  const label = isCode
+    ? `Executed code${block.language ? ` · ${block.language.toLowerCase()}` : ''}`
+    : `Output${failed ? ` · ${(block.outcome || '').replace('OUTCOME_', '').toLowerCase().replace(/_/g, ' ')}` : ''}`;
+
+  return (
+    <div className={`my-2 rounded-lg border overflow-hidden text-sm ${failed ? 'border-red-800' : 'border-studio-border'}`}>
+      <div className={`flex items-center justify-between px-3 py-1.5 ${isCode ? 'bg-[#2d2d2d]' : 'bg-[#1a1a1a]'}`}>
+        <button onClick={() => setOpen(!open)} className="flex items-center gap-2 text-xs text-gray-400 hover:text-white">
+          {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+          {isCode ? <Code2 size={12} className="text-orange-400" /> : <Terminal size={12} className={failed ? 'text-red-400' : 'text-green-400'} />}
+          <span className="font-mono font-bold uppercase">{label}</span>
+        </button>
+        {isCode && (
+          <button
+            onClick={() => navigator.clipboard.writeText(body || '')}
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+          >
+            <Copy size={12} /> Copy
+          </button>
+        )}
+      </div>
+      {open && (
+        <pre className={`p-3 overflow-x-auto font-mono leading-relaxed bg-[#1e1e1e] ${isCode ? 'text-[#a5d6ff]' : failed ? 'text-red-300' : 'text-gray-300'}`}>
+          <code>{body || (isCode ? '' : '(no output)')}</code>
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default CodeExecutionView;
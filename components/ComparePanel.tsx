@@ -0,0 +1,339 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Send, StopCircle, Columns3, Plus, X, RotateCcw, ArrowUpFromLine, Check, Timer } from 'lucide-react';
+import { ChatMessage, Role, ModelConfig, ContextCacheConfig, MessageAlternate } from '../types';
+import { AVAILABLE_MODELS } from '../constants';
+import MessageItem from './MessageItem';
+import { formatHistory } from '../services/geminiService';
+import { applyContextPolicy, describeContextView } from '../services/contextPolicyService';
+import { resolveTemplate, resolveText, formatMissingVariables } from '../services/templateService';
+import {
+  CompareColumn, CompareResult, MIN_COMPARE_COLUMNS, MAX_COMPARE_COLUMNS,
+  createColumn, createDefaultColumns, buildColumnConfig, runCompareColumn, toAlternate
+} from '../services/compareService';
+import { formatDuration, billedOutputTokens } from '../services/generationInfoService';
+import { Content } from '@google/genai';
+
+interface ComparePanelProps {
+  apiKey: string;
+  config: ModelConfig;
+  systemInstruction: string;
+  contextCache: ContextCacheConfig;
+  messages: ChatMessage[]; // The session's history, sent before the prompt in every column
+  currentSessionId: string;
+  onUpdateCost: (model: string, inTokens: number, outTokens: number, cachedTokens: number) => void;
+  // Appends the prompt and answer to the session; promoting again adds another alternate to the same answer
+  onPromote: (prompt: ChatMessage, answer: MessageAlternate) => void;
+}
+
+// One prompt as sent to every column, with what is needed to re-run a single column
+interface CompareRun {
+  prompt: ChatMessage;
+  history: Content[];
+  systemInstruction: string;
+  baseMessageId?: string; // Last session message when the run started
+  results: Record<string, CompareResult>; // By column id
+  promoted: string[]; // Column ids
+}
+
+const ComparePanel: React.FC<ComparePanelProps> = ({
+  apiKey,
+  config,
+  systemInstruction,
+  contextCache,
+  messages,
+  currentSessionId,
+  onUpdateCost,
+  onPromote
+}) => {
+  const [columns, setColumns] = useState<CompareColumn[]>(() => createDefaultColumns(config));
+  const [inputText, setInputText] = useState('');
+  const [run, setRun] = useState<CompareRun | null>(null);
+  const [running, setRunning] = useState<string[]>([]); // Column ids still streaming
+  const controllerRef = useRef<AbortController | null>(null);
+  const contextNote = describeContextView(applyContextPolicy(messages, config.contextPolicy));
+  const activeCacheName = contextCache.enabled && contextCache.status === 'active' ? contextCache.cacheName : undefined;
+
+  // A comparison belongs to the session it was run against
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setRun(null);
+  }, [currentSessionId]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateColumn = (id: string, patch: Partial<CompareColumn>) => {
+    setColumns(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  const runColumn = async (column: CompareColumn, target: CompareRun, signal: AbortSignal) => {
+    const columnConfig = buildColumnConfig(config, column);
+    // The cache was created for the session's model; other models get the history without it
+    const cacheName = column.model === config.model ? activeCacheName : undefined;
+    setRunning(prev => [...prev, column.id]);
+    try {
+      const result = await runCompareColumn(
+        apiKey, columnConfig, target.systemInstruction, target.history, target.prompt.text, cacheName, signal,
+        r => setRun(prev => prev && prev.prompt.id === target.prompt.id ? { ...prev, results: { ...prev.results, [column.id]: r } } : prev)
+      );
+      const usage = result.generation?.usage;
+      if (usage) onUpdateCost(column.model, usage.promptTokens, billedOutputTokens(usage), usage.cachedTokens);
+    } finally {
+      setRunning(prev => prev.filter(id => id !== column.id));
+    }
+  };
+
+  const handleSend = async () => {
+    if (!inputText.trim() || running.length > 0) return;
+    if (!apiKey) {
+      alert("Please enter API Key first.");
+      return;
+    }
+    const missing = resolveTemplate(`${systemInstruction}\n${inputText}`, config.variables).missing;
+    if (missing.length > 0 && !window.confirm(`${formatMissingVariables(missing)}\n\nSend anyway?`)) return;
+
+    // Same history the chat view would send under the session's context policy
+    const resolved = resolveTemplate(inputText, config.variables);
+    const values = { ...resolveTemplate(systemInstruction, config.variables).used, ...resolved.used };
+    const history = await formatHistory(applyContextPolicy(messages, config.contextPolicy).messages);
+    const target: CompareRun = {
+      prompt: {
+        id: `compare-${Date.now()}`,
+        role: Role.USER,
+        text: resolved.text,
+        timestamp: Date.now(),
+        ...(Object.keys(values).length > 0 ? { template: { text: inputText, values } } : {})
+      },
+      history,
+      systemInstruction: resolveText(systemInstruction, config.variables),
+      baseMessageId: messages[messages.length - 1]?.id,
+      results: {},
+      promoted: []
+    };
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRun(target);
+    setInputText('');
+    await Promise.all(columns.map(column => runColumn(column, target, controller.signal)));
+  };
+
+  // Re-runs one column against the same prompt, e.g. after an error or with other settings
+  const handleRerun = (column: CompareColumn) => {
+    if (!run) return;
+    if (!controllerRef.current || controllerRef.current.signal.aborted) controllerRef.current = new AbortController();
+    runColumn(column, run, controllerRef.current.signal);
+  };
+
+  const handlePromote = (columnId: string) => {
+    if (!run) return;
+    const result = run.results[columnId];
+    if (!result) return;
+    if (run.promoted.length === 0 && messages[messages.length - 1]?.id !== run.baseMessageId && !window.confirm(
+      'The chat has changed since this comparison ran. Append the prompt and this answer to the end of it anyway?'
+    )) return;
+    onPromote(run.prompt, toAlternate(result, config.model));
+    setRun(prev => prev ? { ...prev, promoted: [...prev.promoted, columnId] } : prev);
+  };
+
+  const toResultMessage = (columnId: string, result: CompareResult): ChatMessage => ({
+    id: `${columnId}-result`,
+    role: Role.MODEL,
+    text: result.status === 'error' ? result.error || 'Error' : result.text,
+    timestamp: result.startedAt,
+    isError: result.status === 'error',
+    stopped: result.status === 'stopped',
+    thoughts: result.thoughts,
+    grounding: result.grounding,
+    codeBlocks: result.codeBlocks,
+    schemaValidation: result.schemaValidation,
+    safety: result.safety,
+    generation: result.generation
+  });
+
+  const isRunning = running.length > 0;
+  const inputClass = "bg-[#131314] border border-studio-border rounded px-2 py-1 text-xs outline-none focus:border-orange-500 disabled:opacity-50";
+
+  return (
+    <div className="flex-1 flex flex-col h-full relative min-w-0 bg-studio-bg">
+      {/* Header */}
+      <div className="bg-orange-900/10 border-b border-orange-900/30 p-2 flex justify-between items-center px-4">
+        <div className="flex items-center gap-2 text-orange-300 text-xs font-bold">
+          <Columns3 size={14} />
+          COMPARE MODE
+        </div>
+        <div className="flex items-center gap-4 text-xs text-gray-400">
+          <span>{messages.length} message{messages.length === 1 ? '' : 's'} of history{contextNote ? ` · ${contextNote}` : ''}</span>
+          <button
+            onClick={() => setColumns(prev => [...prev, createColumn(config)])}
+            disabled={isRunning || columns.length >= MAX_COMPARE_COLUMNS}
+            className="flex items-center gap-1 text-orange-300 hover:underline bg-[#2a2b2e] px-2 py-1 rounded disabled:opacity-40 disabled:no-underline"
+          >
+            <Plus size={12} /> Add column
+          </button>
+        </div>
+      </div>
+
+      {/* Prompt of the current comparison */}
+      {run && (
+        <div className="flex-shrink-0 px-6 pt-4">
+          <MessageItem message={run.prompt} />
+        </div>
+      )}
+
+      {/* Columns */}
+      <div className="flex-1 min-h-0 flex gap-3 p-4 overflow-x-auto">
+        {columns.map(column => {
+          const result = run?.results[column.id];
+          const columnRunning = running.includes(column.id);
+          const promoted = run?.promoted.includes(column.id);
+          const usage = result?.generation?.usage;
+          return (
+            <div key={column.id} className="flex-1 min-w-[260px] flex flex-col border border-studio-border rounded-lg bg-studio-panel/40">
+              {/* Column settings */}
+              <div className="p-2 border-b border-studio-border space-y-2">
+                <div className="flex items-center gap-2">
+                  <select
+                    value={column.model}
+                    onChange={(e) => updateColumn(column.id, { model: e.target.value })}
+                    disabled={columnRunning}
+                    className={`${inputClass} flex-1 min-w-0`}
+                  >
+                    {AVAILABLE_MODELS.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                  </select>
+                  {columns.length > MIN_COMPARE_COLUMNS && (
+                    <button
+                      onClick={() => setColumns(prev => prev.filter(c => c.id !== column.id))}
+                      disabled={isRunning}
+                      className="text-gray-500 hover:text-red-400 disabled:opacity-40"
+                      title="Remove column"
+                    >
+                      <X size={14} />
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 text-[10px] text-gray-400">
+                  <label className="flex items-center gap-1">
+                    Temp
+                    <input
+                      type="number" min={0} max={2} step={0.1}
+                      value={column.temperature}
+                      onChange={(e) => updateColumn(column.id, { temperature: Number(e.target.value) })}
+                      disabled={columnRunning}
+                      className={`${inputClass} w-16`}
+                    />
+                  </label>
+                  {column.model.includes('gemini-3') && (
+                    <label className="flex items-center gap-1">
+                      Thinking
+                      <select
+                        value={column.thinkingLevel}
+                        onChange={(e) => updateColumn(column.id, { thinkingLevel: e.target.value as CompareColumn['thinkingLevel'] })}
+                        disabled={columnRunning}
+                        className={inputClass}
+                      >
+                        <option value="LOW">Low</option>
+                        <option value="HIGH">High</option>
+                      </select>
+                    </label>
+                  )}
+                  {column.model === config.model && activeCacheName && <span className="text-studio-primary" title="Uses the active context cache">cache</span>}
+                </div>
+              </div>
+
+              {/* Answer */}
+              <div className="flex-1 min-h-0 overflow-y-auto px-3">
+                {result ? (
+                  <>
+                    {result.retryStatus && <p className="mt-3 text-[10px] text-yellow-400">{result.retryStatus}</p>}
+                    <MessageItem message={toResultMessage(column.id, result)} />
+                  </>
+                ) : (
+                  <p className="mt-6 text-center text-xs text-gray-500">{run ? 'Not run for this prompt.' : 'Waiting for a prompt.'}</p>
+                )}
+              </div>
+
+              {/* Stats */}
+              {result && (
+                <div className="p-2 border-t border-studio-border text-[10px] text-gray-400 space-y-1">
+                  <div className="flex justify-between font-mono">
+                    <span className="flex items-center gap-1" title="Time to first token / total time"><Timer size={10} /> {formatDuration(result.firstTokenMs)} / {formatDuration(result.generation?.totalMs)}</span>
+                    {usage && (
+                      <span title={usage.estimated ? 'No usage was reported; estimated' : 'Reported by the API'}>
+                        {usage.estimated ? '~' : ''}{usage.promptTokens.toLocaleString()} in{usage.cachedTokens ? ` (${usage.cachedTokens.toLocaleString()} cached)` : ''} · {usage.candidatesTokens.toLocaleString()} out{usage.thinkingTokens ? ` · ${usage.thinkingTokens.toLocaleString()} thinking` : ''}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="font-mono text-white">{result.generation?.cost !== undefined ? `$${result.generation.cost.toFixed(6)}` : '—'}</span>
+                    <div className="flex items-center gap-2">
+                      {!columnRunning && (
+                        <button onClick={() => handleRerun(column)} className="flex items-center gap-1 hover:text-white" title="Run this column again with its current settings">
+                          <RotateCcw size={10} /> Re-run
+                        </button>
+                      )}
+                      {promoted ? (
+                        <span className="flex items-center gap-1 text-green-400"><Check size={10} /> In chat</span>
+                      ) : (
+                        <button
+                          onClick={() => handlePromote(column.id)}
+                          disabled={columnRunning || result.status === 'error' || !result.text}
+                          className="flex items-center gap-1 text-orange-300 hover:text-orange-200 disabled:opacity-40"
+                          title="Add the prompt and this answer to the chat (further answers become alternates)"
+                        >
+                          <ArrowUpFromLine size={10} /> Use in chat
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Input Area */}
+      <div className="flex-shrink-0 p-4 lg:px-20 pb-8 bg-studio-bg">
+        <div className="bg-studio-panel border border-orange-900/30 rounded-xl p-2 focus-within:ring-1 focus-within:ring-orange-500 transition-all">
+          <div className="flex gap-2 items-end">
+            <textarea
+              value={inputText}
+              onChange={(e) => setInputText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSend();
+                }
+              }}
+              placeholder={`Prompt for all ${columns.length} columns...`}
+              rows={1}
+              className="flex-1 bg-transparent border-none outline-none text-studio-text py-2 max-h-40 resize-none overflow-y-auto"
+              style={{ minHeight: '44px' }}
+            />
+            {isRunning ? (
+              <button
+                onClick={() => controllerRef.current?.abort()}
+                className="p-2 text-orange-300 hover:bg-[#2a2b2e] rounded-full transition-colors"
+                title="Stop all columns"
+              >
+                <StopCircle size={20} />
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!inputText.trim()}
+                className="p-2 text-studio-bg bg-orange-400 hover:opacity-90 rounded-full transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Send size={20} />
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="mt-2 text-center text-xs text-studio-subtext">
+          Each column gets the chat history and system instruction. Function tools are not sent; answers stay out of the chat until used.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparePanel;
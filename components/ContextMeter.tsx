@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Content } from '@google/genai';
+import { ChatMessage, Attachment } from '../types';
+import { formatHistory } from '../services/geminiService';
+import { countContentsTokens, systemInstructionContents, getContextWindow, TokenCount } from '../services/tokenService';
+
+interface ContextMeterProps {
+  apiKey: string;
+  model: string;
+  systemInstruction: string; // Empty when it is already part of a context cache
+  messages: ChatMessage[];
+  draft: string;
+  attachments: Attachment[];
+  cachedTokens?: number; // Tokens held by an active context cache
+  paused?: boolean; // While streaming: the last message changes with every chunk
+  onTotalChange?: (usage: ContextUsage) => void;
+}
+
+export interface ContextUsage {
+  total: number;
+  withoutDraft: number; // Total minus the draft and its attachments, which are counted with a delay
+}
+
+const COUNT_DELAY_MS = 600;
+const ZERO: TokenCount = { tokens: 0, exact: true };
+
+// Debounced count of `build()`; the previous request is aborted when the inputs change again
+const useTokenCount = (
+  apiKey: string,
+  model: string,
+  build: (signal: AbortSignal) => Promise<TokenCount>,
+  deps: React.DependencyList,
+  paused?: boolean
+): TokenCount => {
+  const [count, setCount] = useState<TokenCount>(ZERO);
+  useEffect(() => {
+    if (paused) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      build(controller.signal)
+        .then(result => { if (!controller.signal.aborted) setCount(result); })
+        .catch(() => { /* Keeps the previous count */ });
+    }, COUNT_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [apiKey, model, paused, ...deps]);
+  return count;
+};
+
+const attachmentContents = (attachments: Attachment[]): Content[] => attachments.length === 0 ? [] : [{
+  role: 'user',
+  parts: attachments.map(att => att.textContent !== undefined
+    ? { text: att.textContent }
+    : { inlineData: { mimeType: att.mimeType, data: att.data || '' } })
+}];
+
+// History + system instruction + draft + attachments against the model's context window
+const ContextMeter: React.FC<ContextMeterProps> = ({
+  apiKey, model, systemInstruction, messages, draft, attachments, cachedTokens = 0, paused, onTotalChange
+}) => {
+  // Unchanged leading messages keep their object identity, so only new ones are counted
+  const historyCache = useRef<{ key: string; messages: ChatMessage[]; count: TokenCount }>({ key: '', messages: [], count: ZERO });
+
+  const history = useTokenCount(apiKey, model, async (signal) => {
+    const cached = historyCache.current;
+    const key = `${apiKey}|${model}`;
+    const isPrefix = cached.key === key && cached.messages.length <= messages.length && cached.messages.every((m, i) => m === messages[i]);
+    const base = isPrefix ? cached.count : ZERO;
+    const tail = messages.slice(isPrefix ? cached.messages.length : 0);
+    const tailCount = await countContentsTokens(apiKey, model, await formatHistory(tail), signal);
+    const count = { tokens: base.tokens + tailCount.tokens, exact: base.exact && tailCount.exact };
+    historyCache.current = { key, messages, count };
+    return count;
+  }, [messages], paused);
+
+  const system = useTokenCount(apiKey, model,
+    (signal) => countContentsTokens(apiKey, model, systemInstructionContents(systemInstruction), signal),
+    [systemInstruction]);
+
+  const draftCount = useTokenCount(apiKey, model,
+    (signal) => countContentsTokens(apiKey, model, draft.trim() ? [{ role: 'user', parts: [{ text: draft }] }] : [], signal),
+    [draft]);
+
+  const attachmentCount = useTokenCount(apiKey, model,
+    (signal) => countContentsTokens(apiKey, model, attachmentContents(attachments), signal),
+    [attachments]);
+
+  const parts = [
+    { label: 'History', count: history },
+    { label: 'System', count: system },
+    { label: 'Draft', count: draftCount },
+    { label: 'Attachments', count: attachmentCount },
+    { label: 'Cached', count: { tokens: cachedTokens, exact: false } }
+  ];
+  const total = parts.reduce((sum, p) => sum + p.count.tokens, 0);
+  const exact = parts.every(p => p.count.exact || p.count.tokens === 0);
+  const limit = getContextWindow(model);
+  const ratio = total / limit;
+
+  const withoutDraft = total - draftCount.tokens - attachmentCount.tokens;
+  useEffect(() => {
+    onTotalChange?.({ total, withoutDraft });
+  }, [total, withoutDraft]);
+
+  const color = ratio > 1 ? 'bg-red-500' : ratio > 0.9 ? 'bg-orange-400' : ratio > 0.7 ? 'bg-yellow-500' : 'bg-studio-primary';
+  const title = parts
+    .filter(p => p.count.tokens > 0)
+    .map(p => `${p.label}: ${p.count.exact ? '' : '≈'}${p.count.tokens.toLocaleString()}`)
+    .join('\n') + (exact ? '' : '\n\n≈ includes local estimates');
+
+  return (
+    <div className="flex items-center gap-2" title={title}>
+      <div className="w-24 h-1.5 bg-studio-border rounded-full overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+      </div>
+      <span className={`font-mono ${ratio > 1 ? 'text-red-400' : ''}`}>
+        {exact ? '' : '≈'}{total.toLocaleString()} / {limit.toLocaleString()} tokens
+      </span>
+    </div>
+  );
+};
+
+export default ContextMeter;
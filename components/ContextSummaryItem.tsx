@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Layers, Pencil, Check, ChevronDown, ChevronUp } from 'lucide-react';
+import { ChatMessage } from '../types';
+
+interface ContextSummaryItemProps {
+  message: ChatMessage;
+  onEdit?: (id: string, newText: string) => void;
+}
+
+// Summary pseudo-message: shown as a divider, sent to the model instead of everything above it
+const ContextSummaryItem: React.FC<ContextSummaryItemProps> = ({ message, onEdit }) => {
+  const [open, setOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedText, setEditedText] = useState(message.text);
+  const info = message.contextSummary!;
+
+  const handleSave = () => {
+    if (onEdit && editedText.trim() !== '' && editedText !== message.text) {
+      onEdit(message.id, editedText);
+    }
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="my-6 border border-dashed border-studio-border rounded-lg bg-studio-panel/40 text-xs">
+      <div className="flex items-center gap-2 px-3 py-2 text-studio-subtext">
+        <Layers size={14} className="text-studio-primary" />
+        <button onClick={() => setOpen(!open)} className="flex items-center gap-1 hover:text-white">
+          Summary of {info.foldedTurns} earlier turn{info.foldedTurns === 1 ? '' : 's'}
+          {open ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+        </button>
+        <span className="text-gray-600">{info.model}{info.edited ? ' · edited' : ''}</span>
+        <span className="flex-1" />
+        {onEdit && !isEditing && (
+          <button
+            onClick={() => { setEditedText(message.text); setIsEditing(true); setOpen(true); }}
+            className="p-1 text-gray-400 hover:text-white rounded hover:bg-white/10"
+            title="Edit summary"
+          >
+            <Pencil size={12} />
+          </button>
+        )}
+      </div>
+      {open && (
+        <div className="px-3 pb-3">
+          {isEditing ? (
+            <>
+              <textarea
+                value={editedText}
+                onChange={(e) => setEditedText(e.target.value)}
+                className="w-full bg-[#1e1e1e] border border-studio-border rounded p-2 text-xs font-mono leading-relaxed outline-none focus:border-studio-primary min-h-[160px]"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2 mt-2">
+                <button onClick={() => setIsEditing(false)} className="px-3 py-1.5 hover:bg-[#333] rounded text-xs text-gray-400 hover:text-white">
+                  Cancel
+                </button>
+                <button onClick={handleSave} className="px-3 py-1.5 bg-studio-primary text-studio-bg rounded text-xs font-bold hover:opacity-90 flex items-center gap-1">
+                  <Check size={12} /> Save
+                </button>
+              </div>
+            </>
+          ) : (
+            <div className="whitespace-pre-wrap text-gray-300 leading-relaxed">{message.text}</div>
+          )}
+          <p className="mt-2 text-[10px] text-gray-500">
+            Sent instead of the messages above while the context policy is "Summarize older turns".
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContextSummaryItem;
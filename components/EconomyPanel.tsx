@@ -1,15 +1,31 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Paperclip, X, Eye, PiggyBank, Loader2, FileText, UploadCloud } from 'lucide-react';
-import { ChatMessage, Role, Attachment, ModelConfig } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Paperclip, X, Eye, PiggyBank, UploadCloud, StopCircle, BookOpen } from 'lucide-react';
+import { ChatMessage, Role, Attachment, ModelConfig, MessageAlternate, GenerationInfo, GenerationUsage, CodeExecutionBlock, SchemaValidation, SafetyFeedback } from '../types';
 import MessageItem from './MessageItem';
-import { createCacheFromContent, formatHistory, deleteCache } from '../services/geminiService';
+import AttachmentPreview from './AttachmentPreview';
+import ContextMeter, { ContextUsage } from './ContextMeter';
+import ContextSummaryItem from './ContextSummaryItem';
+import PromptLibraryDialog from './PromptLibraryDialog';
+import { readFilesAsAttachments, getClipboardFiles, composeMessage } from '../services/attachmentInputService';
+import { createCacheFromContent, formatHistory, deleteCache, buildSamplingConfig, extractCodeBlocks } from '../services/geminiService';
+import { estimateTokens, estimateDraftTokens, countContentsTokens, systemInstructionContents, getContextWindow } from '../services/tokenService';
+import { writeAlternates } from '../services/alternateService';
+import { resolveTemplate, resolveText, formatMissingVariables } from '../services/templateService';
+import { applyContextPolicy, planSummary, summarizeMessages, createSummaryMessage, insertSummary } from '../services/contextPolicyService';
+import { buildSafetySettings, parsePromptFeedback, parseCandidateSafety } from '../services/safetyService';
+import { withRetry, formatRetryStatus, RetryAttempt } from '../services/retryService';
+import { storeAttachments, storeCodeBlocks } from '../services/attachmentStore';
+import { createGenerationInfo, parseUsageMetadata, billedOutputTokens } from '../services/generationInfoService';
+import { buildStructuredOutputConfig, isStructuredOutputActive, validateStructuredResponse } from '../services/structuredOutputService';
 import { Content } from '@google/genai';
 
 interface EconomyPanelProps {
   apiKey: string;
   config: ModelConfig;
   systemInstruction: string;
-  onUpdateCost: (inTokens: number, outTokens: number) => void;
+  setSystemInstruction: (val: string) => void;
+  onConfigChange: (config: ModelConfig) => void;
+  onUpdateCost: (inTokens: number, outTokens: number, cachedTokens: number) => void;
   // Shared state props from App
   messages: ChatMessage[];
   setMessages: (msgs: ChatMessage[] | ((prev: ChatMessage[]) => ChatMessage[])) => void;
@@ -20,6 +36,8 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
   apiKey,
   config,
   systemInstruction,
+  setSystemInstruction,
+  onConfigChange,
   onUpdateCost,
   messages,
   setMessages,
@@ -30,9 +48,14 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
   const [status, setStatus] = useState<string>(''); 
   const [isProcessing, setIsProcessing] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const contextTokensRef = useRef<ContextUsage>({ total: 0, withoutDraft: 0 });
+  const contextMessages = useMemo(() => applyContextPolicy(messages, config.contextPolicy).messages, [messages, config.contextPolicy]);
   const [isDragging, setIsDragging] = useState(false);
+  const [debugPayload, setDebugPayload] = useState<Content[] | null>(null);
   
   const activeCacheIdRef = useRef<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -44,45 +67,29 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
       setShowDebug(false);
   }, [currentSessionId]);
 
+  // Build the preview when the modal opens (history attachments are loaded lazily)
+  useEffect(() => {
+      if (!showDebug) return;
+      setDebugPayload(null);
+      constructDebugPayload().then(setDebugPayload);
+  }, [showDebug]);
+
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, status]);
 
-  // Unified File Handler
-  const handleFiles = async (files: FileList | null) => {
-      if (!files || files.length === 0) return;
-
-      Array.from(files).forEach(file => {
-          // Check if text/code
-          const isText = file.type.startsWith('text/') || 
-                         /\.(txt|md|js|ts|tsx|jsx|json|py|html|css|csv|java|c|cpp|h|xml|yaml|yml)$/i.test(file.name);
-
-          if (isText) {
-              const textReader = new FileReader();
-              textReader.onload = (ev) => {
-                 const content = ev.target?.result as string;
-                 setAttachments(prev => [...prev, {
-                     name: file.name,
-                     mimeType: file.type || 'text/plain',
-                     data: '', 
-                     textContent: content // Stored for prompt injection
-                 }]);
-              };
-              textReader.readAsText(file);
-          } else {
-              // Binary
-              const reader = new FileReader();
-              reader.onloadend = () => {
-                const base64String = (reader.result as string).split(',')[1];
-                setAttachments(prev => [...prev, {
-                    name: file.name,
-                    mimeType: file.type,
-                    data: base64String
-                }]);
-              };
-              reader.readAsDataURL(file);
-          }
-      });
+  // Unified File Handler (text / code files are always embedded as text in this mode)
+  const handleFiles = async (files: FileList | File[] | null) => {
+      const { attachments: added, failed } = await readFilesAsAttachments(files, true);
+      if (added.length > 0) setAttachments(prev => [...prev, ...added]);
+      if (failed.length > 0) alert(`Could not read: ${failed.join(', ')}`);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+      const files = getClipboardFiles(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      handleFiles(files);
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -95,20 +102,12 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
   };
 
   // Construct payload for Debug Preview (Using current state)
-  const constructDebugPayload = (): Content[] => {
-      const historyContents = formatHistory(messages);
+  const constructDebugPayload = async (): Promise<Content[]> => {
+      const historyContents = await formatHistory(applyContextPolicy(messages, config.contextPolicy).messages);
       
-      let finalUserText = "";
-      attachments.forEach(att => {
-          if (att.textContent) {
-              finalUserText += `\n[FILE START: ${att.name}]\n${att.textContent}\n[FILE END]\n`;
-          }
-      });
-      finalUserText += `\n${inputText}`;
-
-      const binaryAttachments = attachments.filter(att => !att.textContent);
+      const { text: finalUserText, attachments: binaryAttachments } = composeMessage(inputText, attachments);
       
-      let newParts: any[] = [{ text: finalUserText }];
+      let newParts: any[] = [{ text: resolveText(finalUserText, config.variables) }];
       if (binaryAttachments.length > 0) {
           const attParts = binaryAttachments.map(att => ({
               inlineData: { mimeType: att.mimeType, data: att.data }
@@ -123,26 +122,42 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
   const handleSend = async () => {
     if (!inputText.trim() && attachments.length === 0) return;
     if (!apiKey) return alert("Please enter API Key in settings.");
+    // --- 修正重點：建立包含「完整內容」的文字 ---
+    // 這樣寫入 History 後，下一輪對話才能讀到這些內容
+    // 1-2. Inject Text Files, then the User Input
+    const composed = composeMessage(inputText, attachments);
+    if (composed.skipped.length > 0) {
+      const note = `Empty files are left out: ${composed.skipped.join(', ')}`;
+      if (!composed.text.trim() && composed.attachments.length === 0) return alert(note);
+      if (!window.confirm(`${note}\n\nSend anyway?`)) return;
+    }
+    const limit = getContextWindow(config.model);
+    // The meter counts the draft after a delay: estimate what was typed or pasted since
+    const { total, withoutDraft } = contextTokensRef.current;
+    const requestTokens = Math.max(total, withoutDraft + estimateDraftTokens(resolveText(inputText, config.variables), attachments));
+    if (requestTokens > limit && !window.confirm(
+      `This request is about ${requestTokens.toLocaleString()} tokens, over the ${limit.toLocaleString()} token context window of ${config.model}. The cache upload will most likely be rejected.\n\nSend anyway?`
+    )) return;
+    // Only what was typed is checked: attached text files may contain {{...}} of their own
+    const missing = resolveTemplate(`${systemInstruction}\n${inputText}`, config.variables).missing;
+    if (missing.length > 0 && !window.confirm(`${formatMissingVariables(missing)}\n\nSend anyway?`)) return;
 
     setIsProcessing(true);
     setStatus('Preparing context...');
 
-    // --- 修正重點：建立包含「完整內容」的文字 ---
-    // 這樣寫入 History 後，下一輪對話才能讀到這些內容
-    let fullUserText = "";
-    
-    // 1. Inject Text Files
-    attachments.forEach(att => {
-        if (att.textContent) {
-            fullUserText += `\n[FILE START: ${att.name}]\n${att.textContent}\n[FILE END]\n`;
-        }
-    });
-    
-    // 2. Append User Input
-    fullUserText += inputText ? `\n${inputText}` : "";
+    // {{variables}} are substituted; the template is kept on the message for editing
+    const resolved = resolveTemplate(composed.text, config.variables);
+    const resolvedSystemInstruction = resolveTemplate(systemInstruction, config.variables);
+    const values = { ...resolvedSystemInstruction.used, ...resolved.used };
+    const fullUserText = resolved.text;
     
-    // 3. Separate Binary Attachments (Images/PDFs)
-    const binaryAttachments = attachments.filter(att => !att.textContent);
+    // 3. Separate Binary Attachments (Images/PDFs) and move payloads into the blob store
+    let binaryAttachments = composed.attachments;
+    try {
+        binaryAttachments = await storeAttachments(binaryAttachments);
+    } catch (e) {
+        console.error("Failed to store attachments, keeping them inline:", e);
+    }
 
     // 4. Create User Message Object
     const newUserMsg: ChatMessage = {
@@ -150,22 +165,110 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
       role: Role.USER,
       text: fullUserText, // Store FULL content here so it persists for next turn
       attachments: binaryAttachments, // Only keep binary, text is already merged
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      ...(Object.keys(values).length > 0 ? { template: { text: composed.text, values } } : {})
     };
 
     // 5. Update Local State & Clear Input
-    // Note: We use a local variable `newHistory` for the immediate API call
+    // Note: The API call uses the local `sentHistory` below
     // because setMessages is async.
     const newHistory = [...messages, newUserMsg];
     setMessages(newHistory); 
+    // What is uploaded: the history under the session's context policy plus the new message
+    let sentHistory = [...applyContextPolicy(messages, config.contextPolicy).messages, newUserMsg];
     
     setInputText('');
     setAttachments([]);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const botMsgId = (Date.now() + 1).toString();
+    let botMsgAdded = false;
+    // One entry per candidate (candidateCount > 1 fills the alternates of the bot message)
+    const texts: string[] = [];
+    const blocks: CodeExecutionBlock[][] = [];
+    const validations: (SchemaValidation | undefined)[] = [];
+    const safeties: (SafetyFeedback | undefined)[] = [];
+    const finishReasons: (string | undefined)[] = [];
+    const startedAt = Date.now();
+    let triggeredAt = 0; // Latency is measured from the generation request, not from the cache upload
+    let firstTokenMs: number | undefined;
+    let generation: GenerationInfo | undefined; // Set once the answer has ended
+    const writeAnswers = (extra: Partial<MessageAlternate> = {}) => {
+        const written = Array.from({ length: Math.max(texts.length, safeties.length, 1) }, (_, i) => ({
+            text: texts[i] || '',
+            codeBlocks: blocks[i] && blocks[i].length > 0 ? [...blocks[i]] : undefined,
+            schemaValidation: validations[i],
+            safety: safeties[i],
+            timestamp: startedAt,
+            generation: generation && { ...generation, finishReason: finishReasons[i] },
+            ...extra
+        }));
+        setMessages(prev => prev.map(m => m.id === botMsgId ? writeAlternates(m, 0, written) : m));
+    };
+    let lastUsage: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number; cachedContentTokenCount?: number } | undefined;
+    let usage: GenerationUsage | undefined; // What the cost is recorded from; the answer shows the same figures
+    // No usage report (e.g. stopped early): count what the request consumed, estimate the answer
+    const measureUsage = async (): Promise<GenerationUsage> => {
+        if (lastUsage) return parseUsageMetadata(lastUsage);
+        const promptTokens = await formatHistory(sentHistory)
+            .then(contents => countContentsTokens(apiKey, config.model, [...systemInstructionContents(resolvedSystemInstruction.text), ...contents]))
+            .then(count => count.tokens)
+            .catch(() => sentHistory.reduce((sum, m) => sum + estimateTokens(m.text), 0));
+        return { promptTokens, candidatesTokens: estimateTokens(texts.join('')), cachedTokens: 0, thinkingTokens: 0, estimated: true };
+    };
+    const finishGeneration = async () => {
+        const endedAt = Date.now();
+        usage = await measureUsage();
+        generation = createGenerationInfo(config, {
+            usage,
+            firstTokenMs,
+            totalMs: triggeredAt ? endedAt - triggeredAt : undefined,
+            sharedBy: texts.length > 1 ? texts.length : undefined
+        });
+    };
+
+    const showRetry = (info: RetryAttempt) => setStatus(formatRetryStatus(info));
+
+    // Deletes the temporary cache exactly once, whichever path (first token / error / stop) gets there first
+    let cacheDeletion: Promise<boolean> | null = null;
+    const releaseCache = (cacheName: string) => {
+        if (!cacheDeletion) {
+            cacheDeletion = deleteCache(apiKey, cacheName).then(() => {
+                if (activeCacheIdRef.current === cacheName) activeCacheIdRef.current = null;
+                return true;
+            }).catch(e => {
+                console.warn("Delete cache failed", e);
+                return false;
+            });
+        }
+        return cacheDeletion;
+    };
+
     try {
+        // Checked before paying for the cache upload
+        const structuredOutput = buildStructuredOutputConfig(config);
+
+        // Summarize policy: older turns are folded into a summary message before the upload
+        const plan = planSummary(messages, config.contextPolicy);
+        if (plan) {
+            setStatus(`Summarizing ${plan.foldedTurns} earlier turns...`);
+            try {
+                const summary = await summarizeMessages(apiKey, config.model, plan.fold, { signal: controller.signal, onRetry: showRetry });
+                // Sent without the cache: billed as regular input
+                onUpdateCost(summary.inputTokens ?? 0, summary.outputTokens ?? estimateTokens(summary.text), 0);
+                const summaryMsg = createSummaryMessage(summary.text, plan.foldedTurns, config.model);
+                sentHistory = [...applyContextPolicy(insertSummary(messages, plan.insertBefore, summaryMsg), config.contextPolicy).messages, newUserMsg];
+                setMessages(prev => insertSummary(prev, plan.insertBefore, summaryMsg));
+            } catch (e) {
+                if (controller.signal.aborted) throw e;
+                console.warn("Summarizing the history failed:", e);
+            }
+        }
+
         // 6. Format History for Cache (Using the updated history which includes the full text)
         // formatHistory converts ChatMessage[] -> Content[]
-        const fullPayloadToCache = formatHistory(newHistory);
+        const fullPayloadToCache = await formatHistory(sentHistory);
 
         setStatus('Uploading to Cache...');
         
@@ -175,14 +278,16 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
             config.model,
             fullPayloadToCache,
             300, 
-            systemInstruction
+            resolvedSystemInstruction.text,
+            { signal: controller.signal, onRetry: showRetry }
         );
         
         activeCacheIdRef.current = cacheName;
+        // Cache creation cannot be cancelled; a stop during upload is honoured right after it
+        if (controller.signal.aborted) throw new DOMException('Stopped', 'AbortError');
         setStatus(`Cache Created (${cacheName.slice(-10)}). Triggering...`);
 
         // 7. Trigger Generation
-        const botMsgId = (Date.now() + 1).toString();
         // Add placeholder bot message
         setMessages(prev => [...prev, {
             id: botMsgId,
@@ -190,75 +295,133 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
             text: '',
             timestamp: Date.now()
         }]);
+        botMsgAdded = true;
 
         const triggerPrompt = "請認真回答這對我很重要";
 
         const { GoogleGenAI } = await import("@google/genai");
         const ai = new GoogleGenAI({ apiKey });
         const modelClient = ai.models;
+        triggeredAt = Date.now();
         
-        const result = await modelClient.generateContentStream({
+        // Only opening the stream is retried; the cache stays alive until the first token
+        const result = await withRetry(() => modelClient.generateContentStream({
             model: config.model,
             contents: [{ role: 'user', parts: [{ text: triggerPrompt }] }],
             config: {
                 cachedContent: cacheName,
-                temperature: config.temperature,
-                maxOutputTokens: config.maxOutputTokens,
+                ...buildSamplingConfig(config),
+                ...(config.candidateCount && config.candidateCount > 1 ? { candidateCount: config.candidateCount } : {}),
+                abortSignal: controller.signal,
+                ...structuredOutput,
+                safetySettings: buildSafetySettings(config),
                 // @ts-ignore
                 thinkingLevel: config.model.includes('gemini-3') ? config.thinkingLevel : undefined
             }
-        });
-
-        let fullText = '';
-        let cacheDeleted = false;
+        }), { signal: controller.signal, onRetry: showRetry });
+        setStatus('Streaming...');
 
         // @ts-ignore
         for await (const chunk of result) {
-            let text = '';
-            // Safe text extraction
-            if (typeof (chunk as any).text === 'function') {
-                text = (chunk as any).text();
-            } else if (typeof (chunk as any).text === 'string') {
-                text = (chunk as any).text;
+            let received = false;
+            // Generated images go to the blob store; the message keeps references only
+            const chunkBlocks = await Promise.all((chunk.candidates || []).map(cand => storeCodeBlocks(extractCodeBlocks(cand.content?.parts || []))));
+            (chunk.candidates || []).forEach((cand, idx) => {
+                const i = cand.index ?? idx;
+                const parts = cand.content?.parts || [];
+                const newBlocks = chunkBlocks[idx];
+                if (newBlocks.length > 0) {
+                    const base = (texts[i] || '').length;
+                    blocks[i] = [...(blocks[i] || []), ...newBlocks.map(b => ({ ...b, textOffset: base + b.textOffset }))];
+                }
+                const text = parts.filter((p: any) => !p.thought).map((p: any) => p.text || '').join('');
+                texts[i] = (texts[i] || '') + text;
+                if (text || newBlocks.length > 0) received = true;
+                if (cand.finishReason) finishReasons[i] = cand.finishReason;
+                const safety = parseCandidateSafety(cand);
+                if (safety) {
+                    safeties[i] = safety;
+                    received = true;
+                }
+            });
+            // Prompt blocked: no candidates at all
+            const promptSafety = parsePromptFeedback(chunk.promptFeedback);
+            if (promptSafety) {
+                safeties[0] = promptSafety;
+                received = true;
             }
 
-            if (text) {
-                fullText += text;
-                setMessages(prev => prev.map(m => m.id === botMsgId ? { ...m, text: fullText } : m));
+            if (received) {
+                if (firstTokenMs === undefined) firstTokenMs = Date.now() - triggeredAt;
+                writeAnswers();
                 
                 // 4. Delete Cache ASAP
-                if (!cacheDeleted) {
-                    cacheDeleted = true;
-                    deleteCache(apiKey, cacheName).then(() => {
-                        setStatus(prev => `Streaming... (Cache Deleted ✅)`);
-                        activeCacheIdRef.current = null;
-                    }).catch(e => {
-                        console.warn("Delete cache failed", e);
-                        setStatus(prev => `Streaming... (Delete Failed ⚠️)`);
+                if (!cacheDeletion) {
+                    releaseCache(cacheName).then(ok => {
+                        setStatus(ok ? `Streaming... (Cache Deleted ✅)` : `Streaming... (Delete Failed ⚠️)`);
                     });
                 }
             }
             if (chunk.usageMetadata) {
-                onUpdateCost(chunk.usageMetadata.promptTokenCount, chunk.usageMetadata.candidatesTokenCount);
+                // Cumulative: only the last one is recorded
+                lastUsage = chunk.usageMetadata;
             }
         }
         
+        if (controller.signal.aborted) throw new DOMException('Stopped', 'AbortError');
+        if (isStructuredOutputActive(config)) {
+            texts.forEach((t, i) => { validations[i] = validateStructuredResponse(t || '', config); });
+        }
+        await finishGeneration();
+        writeAnswers();
         setStatus('Finished.');
 
     } catch (error: any) {
-        console.error(error);
-        setStatus(`Error: ${error.message}`);
-        setMessages(prev => prev.map(m => m.id === (Date.now()+1).toString() ? { ...m, text: "Error: " + error.message, isError: true } : m));
-        
-        if (activeCacheIdRef.current) {
-             deleteCache(apiKey, activeCacheIdRef.current).catch(() => {});
-             activeCacheIdRef.current = null;
+        if (controller.signal.aborted) {
+            setStatus('Stopped.');
+            if (botMsgAdded) {
+                await finishGeneration();
+                writeAnswers({ stopped: true });
+            }
+        } else {
+            console.error(error);
+            setStatus(`Error: ${error.message}`);
+            if (botMsgAdded) {
+                // Replaces every partial answer (the message is new to this request), so switching answers
+                // or regenerating never brings one back
+                setMessages(prev => prev.map(m => m.id === botMsgId ? writeAlternates({ ...m, alternates: [] }, 0, [{
+                    text: "Error: " + error.message,
+                    isError: true,
+                    timestamp: startedAt,
+                    generation: createGenerationInfo(config, {
+                        usage: lastUsage ? parseUsageMetadata(lastUsage) : undefined,
+                        firstTokenMs,
+                        totalMs: triggeredAt ? Date.now() - triggeredAt : undefined
+                    })
+                }]) : m));
+            }
         }
     } finally {
+        if (!usage && (lastUsage || botMsgAdded)) usage = await measureUsage();
+        if (usage) onUpdateCost(usage.promptTokens, billedOutputTokens(usage), usage.cachedTokens);
+        // Never leave the temporary cache behind (it is billed for storage until its TTL runs out)
+        if (activeCacheIdRef.current) {
+            await releaseCache(activeCacheIdRef.current);
+        }
+        if (abortControllerRef.current === controller) abortControllerRef.current = null;
         setIsProcessing(false);
     }
   };
 
+  // Summary pseudo-messages are corrected in place; the next upload uses the new text
+  const handleEditSummary = (id: string, text: string) => {
+      setMessages(prev => prev.map(m => m.id === id && m.contextSummary ? { ...m, text, contextSummary: { ...m.contextSummary, edited: true } } : m));
+  };
+
+  const handleStop = () => {
+      abortControllerRef.current?.abort();
+  };
+
   // Drag & Drop Handlers
   const onDragOver = (e: React.DragEvent) => {
       e.preventDefault();
@@ -296,6 +459,13 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
              </div>
              <div className="flex items-center gap-4">
                  <span className="text-xs text-gray-400 font-mono">{status}</span>
+                 <button
+                    onClick={() => setShowLibrary(true)}
+                    className="text-xs flex items-center gap-1 text-studio-primary hover:underline bg-[#2a2b2e] px-2 py-1 rounded"
+                    title="Saved system instructions and prompts"
+                 >
+                     <BookOpen size={12} /> Library
+                 </button>
                  <button 
                     onClick={() => setShowDebug(true)}
                     className="text-xs flex items-center gap-1 text-studio-primary hover:underline bg-[#2a2b2e] px-2 py-1 rounded"
@@ -305,6 +475,18 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
              </div>
         </div>
 
+        {showLibrary && (
+            <PromptLibraryDialog
+                onClose={() => setShowLibrary(false)}
+                systemInstruction={systemInstruction}
+                config={config}
+                draft={inputText}
+                onApplySystemInstruction={setSystemInstruction}
+                onApplyConfig={onConfigChange}
+                onInsertPrompt={(text) => setInputText(prev => prev ? `${prev}\n${text}` : text)}
+            />
+        )}
+
         {/* Debug Modal */}
         {showDebug && (
             <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-10 animate-in fade-in">
@@ -314,7 +496,7 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
                         <button onClick={() => setShowDebug(false)}><X className="text-gray-400 hover:text-white"/></button>
                     </div>
                     <div className="flex-1 overflow-auto p-4 bg-[#0e0e0e] font-mono text-xs text-green-300 whitespace-pre-wrap">
-                        {JSON.stringify(constructDebugPayload(), null, 2)}
+                        {debugPayload ? JSON.stringify(debugPayload, null, 2) : 'Loading...'}
                     </div>
                 </div>
             </div>
@@ -334,7 +516,9 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
                 </p>
             </div>
             ) : (
-            messages.map((msg) => (
+            messages.map((msg) => msg.contextSummary ? (
+                <ContextSummaryItem key={msg.id} message={msg} onEdit={isProcessing ? undefined : handleEditSummary} />
+            ) : (
                 <MessageItem key={msg.id} message={msg} />
             ))
             )}
@@ -349,14 +533,7 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
                 {attachments.length > 0 && (
                     <div className="flex gap-2 p-2 flex-wrap">
                         {attachments.map((att, idx) => (
-                            <div key={idx} className="bg-[#2a2b2e] px-2 py-1 rounded text-xs flex items-center gap-2 group border border-gray-700">
-                                <FileText size={12} className="text-green-400" />
-                                <span className="truncate max-w-[150px] text-gray-300">{att.name}</span>
-                                {att.textContent && <span className="text-[9px] text-green-600 bg-green-900/20 px-1 rounded">TEXT</span>}
-                                <button onClick={() => removeAttachment(idx)} className="text-gray-500 hover:text-red-400">
-                                    <X size={12} />
-                                </button>
-                            </div>
+                            <AttachmentPreview key={idx} attachment={att} onRemove={() => removeAttachment(idx)} />
                         ))}
                     </div>
                 )}
@@ -375,6 +552,7 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
                     <textarea 
                         value={inputText}
                         onChange={(e) => setInputText(e.target.value)}
+                        onPaste={handlePaste}
                         placeholder="Type message..."
                         rows={1}
                         className="flex-1 bg-transparent border-none outline-none text-studio-text py-2 max-h-40 resize-none overflow-y-auto"
@@ -388,9 +566,13 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
                     />
 
                     {isProcessing ? (
-                        <div className="p-2">
-                             <Loader2 className="animate-spin text-green-500" size={20} />
-                        </div>
+                        <button
+                            onClick={handleStop}
+                            className="p-2 text-green-400 hover:bg-[#2a2b2e] rounded-full transition-colors"
+                            title="Stop (the temporary cache is deleted)"
+                        >
+                            <StopCircle size={20} />
+                        </button>
                     ) : (
                         <button 
                             onClick={handleSend}
@@ -402,8 +584,18 @@ const EconomyPanel: React.FC<EconomyPanelProps> = ({
                     )}
                 </div>
             </div>
-            <div className="mt-2 text-center text-[10px] text-gray-600">
-                Pipeline: Pack Context & File &rarr; Create Cache &rarr; Trigger Prompt &rarr; Stream Response &rarr; Auto-Delete Cache
+            <div className="mt-2 flex justify-between items-center text-[10px] text-gray-600">
+                <span>Pipeline: Pack Context & File &rarr; Create Cache &rarr; Trigger Prompt &rarr; Stream Response &rarr; Auto-Delete Cache</span>
+                <ContextMeter
+                    apiKey={apiKey}
+                    model={config.model}
+                    systemInstruction={resolveText(systemInstruction, config.variables)}
+                    messages={contextMessages}
+                    draft={resolveText(inputText, config.variables)}
+                    attachments={attachments}
+                    paused={isProcessing}
+                    onTotalChange={(usage) => { contextTokensRef.current = usage; }}
+                />
             </div>
         </div>
     </div>
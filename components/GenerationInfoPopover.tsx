@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { Copy, ClipboardCheck } from 'lucide-react';
+import { GenerationInfo } from '../types';
+import { describeGeneration } from '../services/generationInfoService';
+
+interface GenerationInfoPopoverProps {
+  info: GenerationInfo;
+}
+
+// Model, config, usage and latency of one answer (opened from the message actions bar)
+const GenerationInfoPopover: React.FC<GenerationInfoPopoverProps> = ({ info }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopyConfig = () => {
+    navigator.clipboard.writeText(JSON.stringify(info.config, null, 2));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="absolute top-full mt-1 left-0 w-80 bg-[#2a2b2e] border border-studio-border rounded-lg shadow-xl z-20 p-3 text-xs">
+      <table className="w-full">
+        <tbody>
+          {describeGeneration(info).map(([label, value]) => (
+            <tr key={label} className="align-top">
+              <td className="pr-3 py-0.5 text-gray-500 whitespace-nowrap">{label}</td>
+              <td className="py-0.5 text-gray-200 font-mono break-all">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {info.usage?.estimated && <p className="mt-2 text-[10px] text-gray-500">No usage was reported; token counts are estimated.</p>}
+      <button onClick={handleCopyConfig} className="mt-2 flex items-center gap-1 text-[10px] text-studio-primary hover:underline">
+        {copied ? <ClipboardCheck size={10} /> : <Copy size={10} />} Copy full config as JSON
+      </button>
+    </div>
+  );
+};
+
+export default GenerationInfoPopover;
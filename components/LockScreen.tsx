@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, Loader2, ShieldAlert } from 'lucide-react';
+
+interface LockScreenProps {
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onWipeAll: () => void;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ onUnlock, onWipeAll }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const ok = await onUnlock(passphrase);
+      if (!ok) {
+        setError('Wrong passphrase.');
+        setPassphrase('');
+      }
+    } catch (e: any) {
+      setError('Unlock failed: ' + e.message);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen w-full bg-[#131314] text-[#e3e3e3] font-sans items-center justify-center">
+      <div className="w-80 bg-studio-panel border border-studio-border rounded-xl p-6 shadow-2xl flex flex-col gap-4">
+        <div className="flex flex-col items-center gap-2">
+          <div className="w-14 h-14 rounded-full bg-[#2a2b2e] flex items-center justify-center">
+            <Lock size={28} className="text-studio-primary" />
+          </div>
+          <h1 className="text-lg font-bold">Workspace Locked</h1>
+          <p className="text-xs text-gray-500 text-center">Your API key and chat history are encrypted. Enter your passphrase to continue.</p>
+        </div>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleUnlock(); }}
+          placeholder="Passphrase"
+          autoFocus
+          className="w-full bg-[#131314] border border-studio-border rounded px-3 py-2 text-sm focus:border-studio-primary outline-none placeholder-gray-600"
+        />
+
+        {error && <div className="text-xs text-red-400">{error}</div>}
+
+        <button
+          onClick={handleUnlock}
+          disabled={!passphrase || isUnlocking}
+          className="w-full py-2 bg-studio-primary text-studio-bg text-sm font-bold rounded flex items-center justify-center gap-2 hover:opacity-90 disabled:opacity-50"
+        >
+          {isUnlocking ? <Loader2 size={14} className="animate-spin" /> : <Unlock size={14} />}
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+
+        <button
+          onClick={onWipeAll}
+          className="text-[10px] text-red-400 hover:underline flex items-center justify-center gap-1"
+        >
+          <ShieldAlert size={10} /> Forgot passphrase? Forget everything
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
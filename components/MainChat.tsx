@@ -1,7 +1,16 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Paperclip, Mic, StopCircle, RefreshCw, X } from 'lucide-react';
-import { ChatMessage, Role, Attachment } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Paperclip, Mic, StopCircle, RefreshCw, UploadCloud, BookOpen, ChevronDown, ChevronUp } from 'lucide-react';
+import { ChatMessage, Role, Attachment, ContextPolicy, PromptVariables, ModelConfig } from '../types';
 import MessageItem from './MessageItem';
+import AttachmentPreview from './AttachmentPreview';
+import ContextMeter, { ContextUsage } from './ContextMeter';
+import ContextSummaryItem from './ContextSummaryItem';
+import PromptLibraryDialog from './PromptLibraryDialog';
+import { readFilesAsAttachments, getClipboardFiles, composeMessage, MAX_INLINE_BYTES } from '../services/attachmentInputService';
+import { formatBytes } from '../services/storageUsageService';
+import { getContextWindow, estimateDraftTokens } from '../services/tokenService';
+import { applyContextPolicy, describeContextView } from '../services/contextPolicyService';
+import { resolveTemplate, resolveText, formatMissingVariables } from '../services/templateService';
 
 interface MainChatProps {
   systemInstruction: string;
@@ -10,7 +19,18 @@ interface MainChatProps {
   onSendMessage: (text: string, attachments: Attachment[]) => void;
   isStreaming: boolean;
   onRegenerate: () => void;
+  onSelectAlternate: (id: string, index: number) => void;
   onEditMessage: (id: string, newText: string) => void;
+  onSelectBranch: (id: string, index: number) => void;
+  onStop: () => void;
+  retryStatus?: string | null; // Shown while a request waits: retry backoff or history summarization
+  apiKey: string;
+  model: string;
+  contextCacheTokens?: number; // Set while a context cache (which also holds the system instruction) is active
+  contextPolicy?: ContextPolicy;
+  variables?: PromptVariables; // Substituted into {{name}} placeholders when a message is sent
+  config: ModelConfig;
+  onConfigChange: (config: ModelConfig) => void; // Prompt library entries can carry a model config snapshot
 }
 
 const MainChat: React.FC<MainChatProps> = ({
@@ -20,12 +40,31 @@ const MainChat: React.FC<MainChatProps> = ({
   onSendMessage,
   isStreaming,
   onRegenerate,
-  onEditMessage
+  onSelectAlternate,
+  onEditMessage,
+  onSelectBranch,
+  onStop,
+  retryStatus,
+  apiKey,
+  model,
+  contextCacheTokens,
+  contextPolicy,
+  variables,
+  config,
+  onConfigChange
 }) => {
   const [inputText, setInputText] = useState('');
   const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [inlineTextFiles, setInlineTextFiles] = useState(true);
+  const [isDragging, setIsDragging] = useState(false);
+  const [showSystemInstruction, setShowSystemInstruction] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
   const bottomRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const contextTokensRef = useRef<ContextUsage>({ total: 0, withoutDraft: 0 });
+  // What the next request sends as history (and how many turns the policy leaves out)
+  const context = useMemo(() => applyContextPolicy(messages, contextPolicy), [messages, contextPolicy]);
+  const contextNote = describeContextView(context);
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -33,7 +72,24 @@ const MainChat: React.FC<MainChatProps> = ({
 
   const handleSend = () => {
     if (!inputText.trim() && attachments.length === 0) return;
-    onSendMessage(inputText, attachments);
+    // Text files read as text are merged into the prompt
+    const composed = composeMessage(inputText, attachments);
+    if (composed.skipped.length > 0) {
+      const note = `Empty files are left out: ${composed.skipped.join(', ')}`;
+      if (!composed.text.trim() && composed.attachments.length === 0) return alert(note);
+      if (!window.confirm(`${note}\n\nSend anyway?`)) return;
+    }
+    // Only what was typed is checked: attached text files may contain {{...}} of their own
+    const missing = resolveTemplate(`${systemInstruction}\n${inputText}`, variables).missing;
+    if (missing.length > 0 && !window.confirm(`${formatMissingVariables(missing)}\n\nSend anyway?`)) return;
+    const limit = getContextWindow(model);
+    // The meter counts the draft after a delay: estimate what was typed or pasted since
+    const { total, withoutDraft } = contextTokensRef.current;
+    const requestTokens = Math.max(total, withoutDraft + estimateDraftTokens(resolveText(inputText, variables), attachments));
+    if (requestTokens > limit && !window.confirm(
+      `This request is about ${requestTokens.toLocaleString()} tokens, over the ${limit.toLocaleString()} token context window of ${model}. It will most likely be rejected.\n\nSend anyway?`
+    )) return;
+    onSendMessage(composed.text, composed.attachments);
     setInputText('');
     setAttachments([]);
   };
@@ -45,20 +101,23 @@ const MainChat: React.FC<MainChatProps> = ({
     }
   };
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0];
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        setAttachments(prev => [...prev, {
-            name: file.name,
-            mimeType: file.type,
-            data: base64String
-        }]);
-      };
-      reader.readAsDataURL(file);
-    }
+  const addFiles = async (files: FileList | File[] | null) => {
+    const { attachments: added, failed } = await readFilesAsAttachments(files, inlineTextFiles);
+    if (added.length > 0) setAttachments(prev => [...prev, ...added]);
+    if (failed.length > 0) alert(`Could not read: ${failed.join(', ')}`);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(e.target.files);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  // Pasted images / files become attachments; plain text pastes normally
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = getClipboardFiles(e.clipboardData);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
   };
 
   const removeAttachment = (index: number) => {
@@ -66,30 +125,71 @@ const MainChat: React.FC<MainChatProps> = ({
   };
 
   // Drag and drop handlers
-  const handleDrop = async (e: React.DragEvent) => {
+  const handleDrop = (e: React.DragEvent) => {
       e.preventDefault();
-      const file = e.dataTransfer.files[0];
-      if (file) {
-           const reader = new FileReader();
-            reader.onloadend = () => {
-                const base64String = (reader.result as string).split(',')[1];
-                setAttachments(prev => [...prev, {
-                    name: file.name,
-                    mimeType: file.type,
-                    data: base64String
-                }]);
-            };
-            reader.readAsDataURL(file);
-      }
+      setIsDragging(false);
+      addFiles(e.dataTransfer.files);
   };
-  const handleDragOver = (e: React.DragEvent) => e.preventDefault();
+  const handleDragOver = (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(true);
+  };
+
+  const pendingBytes = attachments.reduce((sum, a) => sum + (a.size || 0), 0);
 
   return (
     <div 
         className="flex-1 flex flex-col h-full relative min-w-0"
         onDrop={handleDrop}
         onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
     >
+      {/* Drag Overlay */}
+      {isDragging && (
+          <div className="absolute inset-0 bg-[#004a77]/20 border-2 border-studio-primary border-dashed z-50 flex items-center justify-center backdrop-blur-sm pointer-events-none">
+              <div className="text-studio-primary font-bold text-xl flex flex-col items-center gap-2">
+                  <UploadCloud size={48} />
+                  <span>Drop files to attach</span>
+              </div>
+          </div>
+      )}
+
+      {showLibrary && (
+          <PromptLibraryDialog
+              onClose={() => setShowLibrary(false)}
+              systemInstruction={systemInstruction}
+              config={config}
+              draft={inputText}
+              onApplySystemInstruction={setSystemInstruction}
+              onApplyConfig={onConfigChange}
+              onInsertPrompt={(text) => setInputText(prev => prev ? `${prev}\n${text}` : text)}
+          />
+      )}
+
+      {/* System Instruction */}
+      <div className="flex-shrink-0 border-b border-studio-border px-6 lg:px-20 py-2">
+        <div className="flex items-center gap-2 text-xs text-studio-subtext">
+            <button onClick={() => setShowSystemInstruction(!showSystemInstruction)} className="flex items-center gap-1 hover:text-white">
+                System instructions
+                {showSystemInstruction ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+            </button>
+            {!showSystemInstruction && (
+                <span className="flex-1 truncate text-gray-500">{systemInstruction || 'None'}</span>
+            )}
+            <button onClick={() => setShowLibrary(true)} className="ml-auto flex items-center gap-1 hover:text-white" title="Saved system instructions and prompts">
+                <BookOpen size={12} /> Library
+            </button>
+        </div>
+        {showSystemInstruction && (
+            <textarea
+                value={systemInstruction}
+                onChange={(e) => setSystemInstruction(e.target.value)}
+                placeholder="Optional tone and style instructions for the model"
+                className="mt-2 w-full bg-studio-panel border border-studio-border rounded p-2 text-xs leading-relaxed outline-none focus:border-studio-primary resize-y min-h-[80px] max-h-64"
+            />
+        )}
+      </div>
+
       {/* Chat Area */}
       <div className="flex-1 overflow-y-auto p-6 lg:px-20">
         {messages.length === 0 ? (
@@ -100,11 +200,17 @@ const MainChat: React.FC<MainChatProps> = ({
             <p>Start a conversation with the model</p>
           </div>
         ) : (
-          messages.map((msg) => (
+          messages.map((msg, index) => msg.contextSummary ? (
+            <ContextSummaryItem key={msg.id} message={msg} onEdit={isStreaming ? undefined : onEditMessage} />
+          ) : (
             <MessageItem 
               key={msg.id} 
               message={msg} 
               onEdit={onEditMessage}
+              // Only the latest answer can be regenerated
+              onRegenerate={index === messages.length - 1 && msg.role === Role.MODEL && !isStreaming ? onRegenerate : undefined}
+              onSelectAlternate={isStreaming ? undefined : onSelectAlternate}
+              onSelectBranch={isStreaming ? undefined : onSelectBranch}
             />
           ))
         )}
@@ -113,24 +219,47 @@ const MainChat: React.FC<MainChatProps> = ({
 
       {/* Input Area */}
       <div className="flex-shrink-0 p-4 lg:px-20 pb-8 bg-studio-bg">
-        {/* Token Counter Stub */}
-        <div className="flex justify-end mb-2 text-xs text-studio-subtext">
-            <span>{inputText.length} chars</span>
+        {retryStatus && (
+            <div className="flex items-center gap-2 mb-2 px-3 py-1.5 rounded border border-yellow-800 bg-yellow-900/10 text-xs text-yellow-400">
+                <RefreshCw size={12} className="animate-spin" /> {retryStatus}
+            </div>
+        )}
+        {/* Context window meter */}
+        <div className="flex justify-between mb-2 text-xs text-studio-subtext">
+            <label className="flex items-center gap-1 cursor-pointer" title="Text / code files are added to the prompt as text instead of as file data">
+                <input type="checkbox" checked={inlineTextFiles} onChange={(e) => setInlineTextFiles(e.target.checked)} />
+                Inline text files
+            </label>
+            <div className="flex items-center gap-3">
+                {contextNote && <span title="Context policy (Run Settings)">{contextNote}</span>}
+                <ContextMeter
+                    apiKey={apiKey}
+                    model={model}
+                    systemInstruction={contextCacheTokens !== undefined ? '' : resolveText(systemInstruction, variables)}
+                    messages={context.messages}
+                    draft={resolveText(inputText, variables)}
+                    attachments={attachments}
+                    cachedTokens={contextCacheTokens}
+                    paused={isStreaming}
+                    onTotalChange={(usage) => { contextTokensRef.current = usage; }}
+                />
+            </div>
         </div>
 
         <div className="bg-studio-panel border border-studio-border rounded-xl p-2 focus-within:ring-1 focus-within:ring-studio-primary transition-all">
           
           {/* Attachment Preview */}
           {attachments.length > 0 && (
-              <div className="flex gap-2 p-2 flex-wrap">
-                  {attachments.map((att, idx) => (
-                      <div key={idx} className="bg-[#2a2b2e] px-2 py-1 rounded text-xs flex items-center gap-2 group">
-                          <span className="truncate max-w-[150px]">{att.name}</span>
-                          <button onClick={() => removeAttachment(idx)} className="text-gray-400 hover:text-red-400">
-                              <X size={12} />
-                          </button>
-                      </div>
-                  ))}
+              <div className="p-2">
+                  <div className="flex gap-2 flex-wrap">
+                      {attachments.map((att, idx) => (
+                          <AttachmentPreview key={idx} attachment={att} onRemove={() => removeAttachment(idx)} />
+                      ))}
+                  </div>
+                  <div className={`mt-1 text-[10px] ${pendingBytes > MAX_INLINE_BYTES ? 'text-red-400' : 'text-gray-500'}`}>
+                      {attachments.length} file(s) · {formatBytes(pendingBytes)}
+                      {pendingBytes > MAX_INLINE_BYTES && ` — over the ${formatBytes(MAX_INLINE_BYTES)} request limit, use a context cache instead`}
+                  </div>
               </div>
           )}
 
@@ -145,8 +274,8 @@ const MainChat: React.FC<MainChatProps> = ({
                  type="file" 
                  ref={fileInputRef} 
                  className="hidden" 
+                 multiple
                  onChange={handleFileSelect}
-                 accept="image/*,application/pdf,audio/*"
               />
             </button>
             
@@ -154,6 +283,7 @@ const MainChat: React.FC<MainChatProps> = ({
               value={inputText}
               onChange={(e) => setInputText(e.target.value)}
               onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
               placeholder="Type your message here..."
               rows={1}
               className="flex-1 bg-transparent border-none outline-none text-studio-text py-2 max-h-40 resize-none overflow-y-auto"
@@ -161,9 +291,13 @@ const MainChat: React.FC<MainChatProps> = ({
             />
 
             {isStreaming ? (
-                <div className="p-2">
-                    <div className="w-5 h-5 border-2 border-studio-primary border-t-transparent rounded-full animate-spin"></div>
-                </div>
+                <button
+                    onClick={onStop}
+                    className="p-2 text-studio-primary hover:bg-[#2a2b2e] rounded-full transition-colors"
+                    title="Stop generating"
+                >
+                    <StopCircle size={20} />
+                </button>
             ) : (
                  <button 
                     onClick={handleSend}
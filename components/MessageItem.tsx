@@ -1,19 +1,46 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Role, ChatMessage } from '../types';
-import { Bot, User, Copy, FileText, Image as ImageIcon, Pencil, X, Check, ClipboardCheck, MoreVertical, Download } from 'lucide-react';
+import { Bot, User, Copy, FileText, Pencil, Check, ClipboardCheck, MoreVertical, Download, RefreshCw, ChevronLeft, ChevronRight, ChevronUp, ChevronDown, StopCircle, BrainCircuit, Globe, Braces, Info } from 'lucide-react';
+import AttachmentPreview from './AttachmentPreview';
+import ToolRoundsView from './ToolRoundsView';
+import CodeExecutionView from './CodeExecutionView';
+import StructuredOutputView from './StructuredOutputView';
+import SafetyFeedbackView from './SafetyFeedbackView';
+import GenerationInfoPopover from './GenerationInfoPopover';
+import { describeSafetyFeedback } from '../services/safetyService';
+import { CITATION_MARKER, insertCitationMarkers, getSourceLabel } from '../services/groundingService';
+import { getAlternates, getActiveAlternate } from '../services/alternateService';
+import { getBranchCount, getActiveBranch } from '../services/branchService';
+import { formatGenerationInfo } from '../services/generationInfoService';
 
 interface MessageItemProps {
   message: ChatMessage;
   onEdit?: (id: string, newText: string) => void;
+  onRegenerate?: () => void;
+  onSelectAlternate?: (id: string, index: number) => void;
+  onSelectBranch?: (id: string, index: number) => void;
 }
 
-const MessageItem: React.FC<MessageItemProps> = ({ message, onEdit }) => {
+const MessageItem: React.FC<MessageItemProps> = ({ message, onEdit, onRegenerate, onSelectAlternate, onSelectBranch }) => {
   const isUser = message.role === Role.USER;
   const [isEditing, setIsEditing] = useState(false);
-  const [editedText, setEditedText] = useState(message.text);
+  // Messages written with {{variables}} are edited as typed, placeholders included
+  const sourceText = message.template?.text ?? message.text;
+  const [editedText, setEditedText] = useState(sourceText);
   const [copied, setCopied] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
+  // null: open while the model is still thinking, collapsed once the answer starts
+  const [thoughtsOpen, setThoughtsOpen] = useState<boolean | null>(null);
+  const [includeThoughtsInExport, setIncludeThoughtsInExport] = useState(false);
+  const [includeInfoInExport, setIncludeInfoInExport] = useState(false);
+  const [showInfo, setShowInfo] = useState(false);
+  const showThoughts = thoughtsOpen ?? !message.text;
   const menuRef = useRef<HTMLDivElement>(null);
+  const infoRef = useRef<HTMLDivElement>(null);
+  const alternateCount = isUser ? 0 : getAlternates(message).length;
+  const activeAlternate = getActiveAlternate(message);
+  const branchCount = isUser ? getBranchCount(message) : 0;
+  const activeBranch = getActiveBranch(message);
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -21,31 +48,68 @@ const MessageItem: React.FC<MessageItemProps> = ({ message, onEdit }) => {
       if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
         setShowMenu(false);
       }
+      if (infoRef.current && !infoRef.current.contains(event.target as Node)) {
+        setShowInfo(false);
+      }
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  const renderVariantNav = (active: number, count: number, label: string, onSelect?: (id: string, index: number) => void) => (
+    <div className="flex items-center gap-1 mt-1 text-xs text-gray-500 select-none">
+        <button
+            onClick={() => onSelect?.(message.id, active - 1)}
+            disabled={!onSelect || active === 0}
+            className="p-0.5 rounded hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+            title={`Previous ${label}`}
+        >
+            <ChevronLeft size={14} />
+        </button>
+        <span className="font-mono">{active + 1}/{count}</span>
+        <button
+            onClick={() => onSelect?.(message.id, active + 1)}
+            disabled={!onSelect || active === count - 1}
+            className="p-0.5 rounded hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+            title={`Next ${label}`}
+        >
+            <ChevronRight size={14} />
+        </button>
+    </div>
+  );
+
   const handleSave = () => {
-    if (onEdit && editedText.trim() !== '' && editedText !== message.text) {
+    if (onEdit && editedText.trim() !== '' && editedText !== sourceText) {
       onEdit(message.id, editedText);
     }
     setIsEditing(false);
   };
 
   const handleCancel = () => {
-    setEditedText(message.text);
+    setEditedText(sourceText);
     setIsEditing(false);
   };
 
+  // Thought summaries are left out of copies / downloads unless asked for
+  const getExportText = () => {
+    const text = message.safety ? [message.text, `[${describeSafetyFeedback(message.safety)}]`].filter(Boolean).join('\n\n') : message.text;
+    const answer = includeThoughtsInExport && message.thoughts
+      ? `## Thinking\n\n${message.thoughts}\n\n## Answer\n\n${text}`
+      : text;
+    const sources = message.grounding?.sources || [];
+    const withSources = sources.length === 0 ? answer
+      : `${answer}\n\nSources:\n${sources.map((s, i) => `${i + 1}. ${getSourceLabel(s)} - ${s.uri}`).join('\n')}`;
+    return includeInfoInExport && message.generation ? `${withSources}\n\n---\n${formatGenerationInfo(message.generation)}` : withSources;
+  };
+
   const handleCopyMarkdown = () => {
-    navigator.clipboard.writeText(message.text);
+    navigator.clipboard.writeText(getExportText());
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
   const handleDownload = (format: 'txt' | 'md') => {
-      const blob = new Blob([message.text], { type: 'text/plain' });
+      const blob = new Blob([getExportText()], { type: 'text/plain' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -62,9 +126,56 @@ const MessageItem: React.FC<MessageItemProps> = ({ message, onEdit }) => {
       const parts = text.split(/(\*\*.*?\*\*)/g);
       return parts.map((part, idx) => {
           if (part.startsWith('**') && part.endsWith('**')) {
-              return <strong key={idx} className="text-white font-bold">{part.slice(2, -2)}</strong>;
+              return <strong key={idx} className="text-white font-bold">{renderCitations(part.slice(2, -2))}</strong>;
           }
-          return part;
+          return <React.Fragment key={idx}>{renderCitations(part)}</React.Fragment>;
+      });
+  };
+
+  // Answer text with code execution blocks placed where they occurred
+  const renderAnswer = () => {
+      const blocks = message.codeBlocks;
+      if (!blocks || blocks.length === 0) {
+          return renderContent(insertCitationMarkers(message.text, message.grounding));
+      }
+      const encoder = new TextEncoder();
+      const nodes: React.ReactNode[] = [];
+      let last = 0;
+      const pushText = (end: number) => {
+          if (end <= last) return;
+          const slice = message.text.slice(last, end);
+          const byteOffset = encoder.encode(message.text.slice(0, last)).length;
+          nodes.push(<div key={`t${last}`}>{renderContent(insertCitationMarkers(slice, message.grounding, byteOffset))}</div>);
+          last = end;
+      };
+      blocks.forEach((block, idx) => {
+          pushText(Math.min(block.textOffset, message.text.length));
+          nodes.push(<CodeExecutionView key={`b${idx}`} block={block} />);
+      });
+      pushText(message.text.length);
+      return nodes;
+  };
+
+  // Grounding citation markers [n] become links to the numbered sources
+  const renderCitations = (text: string): React.ReactNode => {
+      const sources = message.grounding?.sources;
+      if (!sources || !text.includes('\u2063')) return text;
+      // split() with a capture group alternates text and source numbers
+      return text.split(CITATION_MARKER).map((piece, idx) => {
+          if (idx % 2 === 0) return piece;
+          const source = sources[Number(piece) - 1];
+          return (
+              <a
+                  key={idx}
+                  href={source?.uri}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={source ? getSourceLabel(source) : undefined}
+                  className="text-[10px] align-super text-studio-primary hover:underline ml-0.5"
+              >
+                  [{piece}]
+              </a>
+          );
       });
   };
 
@@ -118,7 +229,9 @@ const MessageItem: React.FC<MessageItemProps> = ({ message, onEdit }) => {
     return parts.map((part, partIndex) => {
       if (part.startsWith('```')) {
         // --- Code Block ---
-        const content = part.slice(3, -3).replace(/^[a-z]+\n/, ''); // remove lang identifier line if exists
+        const content = part.slice(3, -3)
+          .replace(/^[a-z]+\n/, '') // remove lang identifier line if exists
+          .replace(CITATION_MARKER, ''); // citations are not shown inside code
         const langMatch = part.match(/^```([a-z]+)/);
         const lang = langMatch ? langMatch[1] : 'Code';
 
@@ -252,7 +365,19 @@ const MessageItem: React.FC<MessageItemProps> = ({ message, onEdit }) => {
                 </button>
                 
                 {showMenu && (
-                    <div className="absolute top-full mt-1 right-0 w-32 bg-[#2a2b2e] border border-studio-border rounded-lg shadow-xl z-20 overflow-hidden flex flex-col">
+                    <div className="absolute top-full mt-1 right-0 w-40 bg-[#2a2b2e] border border-studio-border rounded-lg shadow-xl z-20 overflow-hidden flex flex-col">
+                        {message.thoughts && (
+                            <label className="px-3 py-2 text-xs text-gray-300 flex gap-2 items-center border-b border-studio-border cursor-pointer hover:bg-[#3a3b3e]">
+                                <input type="checkbox" checked={includeThoughtsInExport} onChange={(e) => setIncludeThoughtsInExport(e.target.checked)} />
+                                Include thinking
+                            </label>
+                        )}
+                        {message.generation && (
+                            <label className="px-3 py-2 text-xs text-gray-300 flex gap-2 items-center border-b border-studio-border cursor-pointer hover:bg-[#3a3b3e]">
+                                <input type="checkbox" checked={includeInfoInExport} onChange={(e) => setIncludeInfoInExport(e.target.checked)} />
+                                Include model info
+                            </label>
+                        )}
                         <button onClick={() => handleDownload('txt')} className="px-3 py-2 text-xs text-left hover:bg-[#3a3b3e] text-gray-200 flex gap-2 items-center">
                             <FileText size={12}/> Save as .txt
                         </button>
@@ -263,6 +388,31 @@ const MessageItem: React.FC<MessageItemProps> = ({ message, onEdit }) => {
                 )}
             </div>
 
+            {/* Generation info: model, config, usage, latency */}
+            {!isUser && message.generation && (
+                <div className="relative" ref={infoRef}>
+                    <button
+                        onClick={() => setShowInfo(!showInfo)}
+                        className="p-1 text-gray-400 hover:text-white rounded hover:bg-white/10"
+                        title="Model info"
+                    >
+                        <Info size={12} />
+                    </button>
+                    {showInfo && <GenerationInfoPopover info={message.generation} />}
+                </div>
+            )}
+
+            {/* Regenerate Button (Latest model answer only) */}
+            {!isUser && onRegenerate && (
+                <button 
+                    onClick={onRegenerate}
+                    className="p-1 text-gray-400 hover:text-white rounded hover:bg-white/10"
+                    title="Regenerate response"
+                >
+                    <RefreshCw size={12} />
+                </button>
+            )}
+
             {/* Edit Button (Only for User) */}
             {isUser && !isEditing && onEdit && (
                 <button 
@@ -279,49 +429,129 @@ const MessageItem: React.FC<MessageItemProps> = ({ message, onEdit }) => {
         {message.attachments && message.attachments.length > 0 && (
            <div className="flex flex-wrap gap-2 mb-2 justify-end">
               {message.attachments.map((att, idx) => (
-                  <div key={idx} className="bg-studio-panel border border-studio-border rounded-lg p-2 flex items-center gap-2">
-                     {att.mimeType.startsWith('image/') ? (
-                         <ImageIcon size={16} className="text-purple-400" />
-                     ) : (
-                         <FileText size={16} className="text-blue-400" />
-                     )}
-                     <div className="flex flex-col">
-                        <span className="text-xs truncate max-w-[150px] font-medium">{att.name}</span>
-                        <span className="text-[9px] text-gray-500 uppercase">{att.mimeType.split('/')[1] || 'FILE'}</span>
-                     </div>
-                  </div>
+                  <AttachmentPreview key={att.hash || idx} attachment={att} />
               ))}
            </div>
         )}
 
-        <div className={`text-studio-text w-full ${message.isError ? 'text-red-400 bg-red-900/10 p-3 rounded border border-red-800' : ''}`}>
-          {isEditing ? (
-            <div className="bg-[#1e1e1e] border border-studio-border rounded-lg p-3 w-full min-w-[300px] shadow-lg">
-              <textarea
-                value={editedText}
-                onChange={(e) => setEditedText(e.target.value)}
-                className="w-full bg-transparent border-none outline-none text-sm resize-none p-1 min-h-[100px] font-mono leading-relaxed"
-                autoFocus
-              />
-              <div className="flex justify-end gap-2 mt-3 pt-2 border-t border-gray-700">
-                <button 
-                  onClick={handleCancel}
-                  className="px-3 py-1.5 hover:bg-[#333] rounded text-xs text-gray-400 hover:text-white"
-                >
-                  Cancel
-                </button>
-                <button 
-                  onClick={handleSave}
-                  className="px-3 py-1.5 bg-studio-primary text-studio-bg rounded text-xs font-bold hover:opacity-90 flex items-center gap-1"
+        {/* Thought summary (collapsible, streams live) */}
+        {!isUser && message.thoughts && (
+            <div className="w-full mb-2 border-l-2 border-purple-500/40 pl-3">
+                <button
+                    onClick={() => setThoughtsOpen(!showThoughts)}
+                    className="text-xs text-purple-400 hover:text-purple-300 flex items-center gap-1 select-none"
                 >
-                  <Check size={12} /> Save
+                    <BrainCircuit size={12} />
+                    {message.text ? 'Thinking' : 'Thinking...'}
+                    {showThoughts ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
                 </button>
+                {showThoughts && (
+                    <div className="mt-1 text-xs text-gray-400 opacity-90">
+                        {renderContent(message.thoughts)}
+                    </div>
+                )}
+            </div>
+        )}
+
+        {/* Function call steps */}
+        {!isUser && message.toolRounds && message.toolRounds.length > 0 && (
+            <ToolRoundsView rounds={message.toolRounds} />
+        )}
+
+        {(isEditing || message.text || !message.safety) && (
+          <div className={`text-studio-text w-full ${message.isError ? 'text-red-400 bg-red-900/10 p-3 rounded border border-red-800' : ''}`}>
+            {isEditing ? (
+              <div className="bg-[#1e1e1e] border border-studio-border rounded-lg p-3 w-full min-w-[300px] shadow-lg">
+                <textarea
+                  value={editedText}
+                  onChange={(e) => setEditedText(e.target.value)}
+                  className="w-full bg-transparent border-none outline-none text-sm resize-none p-1 min-h-[100px] font-mono leading-relaxed"
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2 mt-3 pt-2 border-t border-gray-700">
+                  <button 
+                    onClick={handleCancel}
+                    className="px-3 py-1.5 hover:bg-[#333] rounded text-xs text-gray-400 hover:text-white"
+                  >
+                    Cancel
+                  </button>
+                  <button 
+                    onClick={handleSave}
+                    className="px-3 py-1.5 bg-studio-primary text-studio-bg rounded text-xs font-bold hover:opacity-90 flex items-center gap-1"
+                  >
+                    <Check size={12} /> Save
+                  </button>
+                </div>
               </div>
+            ) : !isUser && message.schemaValidation && !message.isError ? (
+              <StructuredOutputView text={message.text} validation={message.schemaValidation} />
+            ) : (
+              renderAnswer()
+            )}
+          </div>
+        )}
+
+        {/* Blocked prompt / answer: reason and safety ratings instead of an empty answer */}
+        {!isUser && message.safety && <SafetyFeedbackView feedback={message.safety} partial={!!message.text} />}
+
+        {/* Google Search grounding: sources, queries and the required search entry point */}
+        {!isUser && message.grounding && (
+            <div className="w-full mt-3 space-y-2">
+                {message.grounding.sources.length > 0 && (
+                    <div>
+                        <div className="text-[10px] font-semibold text-gray-500 mb-1 flex items-center gap-1"><Globe size={10} /> SOURCES</div>
+                        <ol className="flex flex-wrap gap-1">
+                            {message.grounding.sources.map((source, idx) => (
+                                <li key={idx}>
+                                    <a
+                                        href={source.uri}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="block max-w-[220px] truncate text-[11px] bg-studio-panel border border-studio-border rounded px-2 py-0.5 text-gray-300 hover:text-white hover:border-studio-primary"
+                                        title={source.uri}
+                                    >
+                                        <span className="text-studio-primary font-mono mr-1">{idx + 1}</span>{getSourceLabel(source)}
+                                    </a>
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+                )}
+                {message.grounding.queries.length > 0 && (
+                    <div className="text-[10px] text-gray-500">
+                        Searched: {message.grounding.queries.map(q => `"${q}"`).join(', ')}
+                    </div>
+                )}
+                {message.grounding.searchEntryPoint && (
+                    // Google-provided markup; isolated in a sandbox, links open in a new tab
+                    <iframe
+                        srcDoc={message.grounding.searchEntryPoint}
+                        sandbox="allow-popups allow-popups-to-escape-sandbox"
+                        className="w-full h-16 border-0 rounded"
+                        title="Google Search suggestions"
+                    />
+                )}
             </div>
-          ) : (
-            renderContent(message.text)
-          )}
-        </div>
+        )}
+
+        {message.stopped && (
+            <div className="flex items-center gap-1 mt-1 text-[10px] text-yellow-500/80 select-none">
+                <StopCircle size={10} /> Stopped — response is incomplete
+            </div>
+        )}
+
+        {/* Variables substituted when this message was sent */}
+        {message.template && !isEditing && (
+            <div
+                className="flex items-center gap-1 mt-1 text-xs text-gray-500 select-none cursor-help"
+                title={`${message.template.text}\n\n${Object.entries(message.template.values).map(([name, value]) => `{{${name}}} = ${value}`).join('\n')}`}
+            >
+                <Braces size={12} /> {Object.keys(message.template.values).length} variable{Object.keys(message.template.values).length === 1 ? '' : 's'}
+            </div>
+        )}
+        {/* Alternate answers / edited versions navigation: < 2/3 > */}
+        {alternateCount > 1 && renderVariantNav(activeAlternate, alternateCount, 'answer', onSelectAlternate)}
+        {branchCount > 1 && renderVariantNav(activeBranch, branchCount, 'version', onSelectBranch)}
       </div>
     </div>
   );
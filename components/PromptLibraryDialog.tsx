@@ -0,0 +1,370 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, BookOpen, Plus, Trash2, Upload, Download, Search, GitCompare, Check, MessageSquarePlus, ScrollText } from 'lucide-react';
+import { ModelConfig, PromptKind, PromptLibraryEntry } from '../types';
+import { loadPrompts, savePrompts, removePrompt } from '../services/storageService';
+import { subscribe } from '../services/syncService';
+import { formatReport } from '../services/schemaService';
+import {
+  createPromptEntry, addPromptVersion, getCurrentVersion, parseTags, getAllTags, filterPrompts,
+  diffLines, describeConfigChanges, exportPromptLibrary, parsePromptLibrary, mergePromptLibrary,
+  getImportedHandlers, applyConfigSnapshot
+} from '../services/promptLibraryService';
+
+interface PromptLibraryDialogProps {
+  onClose: () => void;
+  systemInstruction: string;
+  config: ModelConfig;
+  draft: string; // Message being typed, offered when saving a prompt preset
+  onApplySystemInstruction: (text: string) => void;
+  onApplyConfig: (config: ModelConfig) => void;
+  onInsertPrompt: (text: string) => void;
+}
+
+const KIND_LABELS: Record<PromptKind, string> = { system: 'System instruction', prompt: 'Prompt' };
+
+const PromptLibraryDialog: React.FC<PromptLibraryDialogProps> = ({
+  onClose, systemInstruction, config, draft, onApplySystemInstruction, onApplyConfig, onInsertPrompt
+}) => {
+  const [entries, setEntries] = useState<PromptLibraryEntry[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [kindFilter, setKindFilter] = useState<PromptKind | undefined>(undefined);
+  const [tagFilter, setTagFilter] = useState<string | undefined>(undefined);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [versionIndex, setVersionIndex] = useState(0);
+  const [compareIndex, setCompareIndex] = useState<number | null>(null);
+  const [editedText, setEditedText] = useState('');
+  const [note, setNote] = useState('');
+  const [snapshotConfig, setSnapshotConfig] = useState(true);
+  const [applyConfig, setApplyConfig] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await loadPrompts());
+    } catch (e: any) {
+      setError('Failed to load the library: ' + e.message);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    return subscribe(msg => {
+      if (msg.type === 'prompts' || msg.type === 'reset') refresh();
+    });
+  }, []);
+
+  const selected = entries?.find(e => e.id === selectedId) || null;
+  const version = selected ? selected.versions[Math.min(versionIndex, selected.versions.length - 1)] : null;
+
+  // Selecting an entry or version shows that version's text for editing
+  useEffect(() => {
+    setEditedText(version?.text || '');
+    setNote('');
+  }, [selectedId, version?.version]);
+
+  const select = (entry: PromptLibraryEntry) => {
+    setSelectedId(entry.id);
+    setVersionIndex(entry.versions.length - 1);
+    setCompareIndex(null);
+  };
+
+  const persist = async (changed: PromptLibraryEntry[]) => {
+    try {
+      await savePrompts(changed);
+      await refresh();
+    } catch (e: any) {
+      setError('Failed to save: ' + e.message);
+    }
+  };
+
+  const handleCreate = async (kind: PromptKind) => {
+    const text = kind === 'system' ? systemInstruction : draft;
+    const name = prompt(`Name for the new ${KIND_LABELS[kind].toLowerCase()}:`, text.split('\n')[0].slice(0, 40) || 'Untitled');
+    if (!name) return;
+    const entry = createPromptEntry(name.trim(), kind, text, snapshotConfig ? config : undefined);
+    await persist([entry]);
+    select(entry);
+  };
+
+  const handleSaveVersion = async () => {
+    if (!selected) return;
+    const updated = addPromptVersion(selected, editedText, snapshotConfig ? config : version?.config, note.trim());
+    if (updated === selected) {
+      setError('Nothing changed since the current version.');
+      return;
+    }
+    await persist([updated]);
+    setVersionIndex(updated.versions.length - 1);
+  };
+
+  const handleRename = async (name: string) => {
+    if (!selected || !name.trim() || name === selected.name) return;
+    await persist([{ ...selected, name: name.trim(), updatedAt: Date.now() }]);
+  };
+
+  const handleTags = async (input: string) => {
+    if (!selected) return;
+    const tags = parseTags(input);
+    if (tags.join() === selected.tags.join()) return;
+    await persist([{ ...selected, tags, updatedAt: Date.now() }]);
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete "${selected.name}" and all ${selected.versions.length} version(s)?`)) return;
+    try {
+      await removePrompt(selected.id);
+      setSelectedId(null);
+      await refresh();
+    } catch (e: any) {
+      setError('Failed to delete: ' + e.message);
+    }
+  };
+
+  const handleApply = () => {
+    if (!selected || !version) return;
+    if (selected.kind === 'system') onApplySystemInstruction(editedText);
+    else onInsertPrompt(editedText);
+    if (applyConfig && version.config) {
+      const handlers = getImportedHandlers(version.config);
+      const includeHandlers = handlers.length === 0 || window.confirm(
+        `This config includes JavaScript handlers from an imported file: ${handlers.map(t => t.name).join(', ')}.\n\n` +
+        'OK applies them too (they still ask before their first run). Cancel applies the config without these functions.'
+      );
+      onApplyConfig(applyConfigSnapshot(config, version.config, includeHandlers));
+    }
+    onClose();
+  };
+
+  const handleExport = () => {
+    if (!entries || entries.length === 0) return;
+    const blob = new Blob([exportPromptLibrary(entries)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `prompt-library-${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !entries) return;
+    try {
+      const { entries: incoming, report } = parsePromptLibrary(await file.text());
+      const { toWrite, result } = mergePromptLibrary(entries, incoming);
+      if (toWrite.length > 0) await persist(toWrite);
+      const details = formatReport(report);
+      alert(`Imported ${file.name}: ${result.added} added, ${result.updated} updated with new versions, ${result.unchanged} unchanged.${details ? `\n\n${details}` : ''}`);
+    } catch (err: any) {
+      setError(`Import failed: ${err.message}`);
+    }
+  };
+
+  const visible = entries ? filterPrompts(entries, query, kindFilter, tagFilter) : [];
+  const tags = entries ? getAllTags(entries) : [];
+  const compared = selected && compareIndex !== null ? selected.versions[compareIndex] : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-10 animate-in fade-in">
+      <div className="bg-studio-panel border border-studio-border rounded-lg w-full max-w-5xl h-[85vh] flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-studio-border flex justify-between items-center bg-[#1e1e1e]">
+          <h3 className="font-bold text-white text-sm flex items-center gap-2"><BookOpen size={16} /> Prompt Library</h3>
+          <div className="flex items-center gap-3 text-xs">
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-gray-400 hover:text-white" title="Import a library JSON (merges with this one)">
+              <Upload size={14} /> Import
+            </button>
+            <input type="file" ref={fileInputRef} accept=".json,application/json" className="hidden" onChange={handleImport} />
+            <button onClick={handleExport} disabled={!entries || entries.length === 0} className="flex items-center gap-1 text-gray-400 hover:text-white disabled:opacity-40" title="Export the whole library as JSON">
+              <Download size={14} /> Export
+            </button>
+            <button onClick={onClose}><X className="text-gray-400 hover:text-white" /></button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 text-xs text-red-400 border-b border-studio-border flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><X size={12} /></button>
+          </div>
+        )}
+
+        <div className="flex-1 flex min-h-0">
+          {/* List */}
+          <div className="w-72 border-r border-studio-border flex flex-col min-h-0">
+            <div className="p-3 space-y-2 border-b border-studio-border">
+              <div className="flex items-center gap-2 bg-[#131314] border border-studio-border rounded px-2">
+                <Search size={12} className="text-gray-500" />
+                <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search name, tag or text" className="flex-1 bg-transparent py-1.5 text-xs outline-none" />
+              </div>
+              <div className="flex bg-[#131314] p-0.5 rounded">
+                {([['All', undefined], ['System', 'system'], ['Prompts', 'prompt']] as [string, PromptKind | undefined][]).map(([label, kind]) => (
+                  <button
+                    key={label}
+                    onClick={() => setKindFilter(kind)}
+                    className={`flex-1 py-1 text-[10px] rounded ${kindFilter === kind ? 'bg-[#333] text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {tags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => setTagFilter(tagFilter === tag ? undefined : tag)}
+                      className={`px-1.5 py-0.5 rounded text-[10px] border ${tagFilter === tag ? 'border-studio-primary text-studio-primary' : 'border-studio-border text-gray-400 hover:text-gray-200'}`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <button onClick={() => handleCreate('system')} className="flex-1 py-1 text-[10px] rounded border border-studio-border hover:bg-[#2a2b2e] flex items-center justify-center gap-1" title="Save the current system instruction as a new entry">
+                  <Plus size={10} /> System instruction
+                </button>
+                <button onClick={() => handleCreate('prompt')} className="flex-1 py-1 text-[10px] rounded border border-studio-border hover:bg-[#2a2b2e] flex items-center justify-center gap-1" title="Save the message being typed as a new prompt preset">
+                  <Plus size={10} /> Prompt
+                </button>
+              </div>
+              <label className="flex items-center gap-1 text-[10px] text-gray-500 cursor-pointer" title="Saved versions remember the model, sampling, tools, safety and variables in use">
+                <input type="checkbox" checked={snapshotConfig} onChange={(e) => setSnapshotConfig(e.target.checked)} />
+                Save the current model config with new versions
+              </label>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {entries === null ? (
+                <p className="p-4 text-xs text-gray-500">Loading...</p>
+              ) : visible.length === 0 ? (
+                <p className="p-4 text-xs text-gray-500">{entries.length === 0 ? 'The library is empty. Save the current system instruction or message to start.' : 'No matches.'}</p>
+              ) : visible.map(entry => (
+                <button
+                  key={entry.id}
+                  onClick={() => select(entry)}
+                  className={`w-full text-left px-3 py-2 border-b border-studio-border/50 hover:bg-[#2a2b2e] ${entry.id === selectedId ? 'bg-[#2a2b2e]' : ''}`}
+                >
+                  <div className="flex items-center gap-1.5 text-xs text-gray-200">
+                    {entry.kind === 'system' ? <ScrollText size={12} className="text-studio-primary shrink-0" /> : <MessageSquarePlus size={12} className="text-green-400 shrink-0" />}
+                    <span className="truncate">{entry.name}</span>
+                    <span className="ml-auto text-[10px] text-gray-500 font-mono">v{getCurrentVersion(entry).version}</span>
+                  </div>
+                  <div className="text-[10px] text-gray-500 truncate mt-0.5">{getCurrentVersion(entry).text.slice(0, 80) || '(empty)'}</div>
+                  {entry.tags.length > 0 && <div className="text-[10px] text-gray-600 truncate">{entry.tags.map(t => `#${t}`).join(' ')}</div>}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Detail */}
+          {!selected || !version ? (
+            <div className="flex-1 flex items-center justify-center text-xs text-gray-500">Select an entry to view, edit or apply it.</div>
+          ) : (
+            <div className="flex-1 flex flex-col min-h-0 p-4 gap-3">
+              <div className="flex items-center gap-2">
+                <input
+                  key={`name-${selected.id}`}
+                  defaultValue={selected.name}
+                  onBlur={(e) => handleRename(e.target.value)}
+                  className="flex-1 bg-transparent text-sm font-semibold text-white outline-none border-b border-transparent focus:border-studio-primary"
+                />
+                <span className="text-[10px] text-gray-500 uppercase">{KIND_LABELS[selected.kind]}</span>
+                <button onClick={handleDelete} className="text-gray-500 hover:text-red-400" title="Delete entry"><Trash2 size={14} /></button>
+              </div>
+              <input
+                key={`tags-${selected.id}`}
+                defaultValue={selected.tags.join(', ')}
+                onBlur={(e) => handleTags(e.target.value)}
+                placeholder="Tags, comma separated"
+                className="bg-[#131314] border border-studio-border rounded px-2 py-1 text-xs outline-none focus:border-studio-primary"
+              />
+
+              <div className="flex items-center gap-2 text-xs">
+                <select
+                  value={versionIndex}
+                  onChange={(e) => { setVersionIndex(Number(e.target.value)); setCompareIndex(null); }}
+                  className="bg-[#131314] border border-studio-border rounded px-2 py-1 outline-none"
+                >
+                  {selected.versions.map((v, i) => (
+                    <option key={v.version} value={i}>
+                      v{v.version}{i === selected.versions.length - 1 ? ' (current)' : ''} · {new Date(v.createdAt).toLocaleString()}{v.note ? ` · ${v.note}` : ''}
+                    </option>
+                  ))}
+                </select>
+                <GitCompare size={14} className="text-gray-500" />
+                <select
+                  value={compareIndex ?? ''}
+                  onChange={(e) => setCompareIndex(e.target.value === '' ? null : Number(e.target.value))}
+                  className="bg-[#131314] border border-studio-border rounded px-2 py-1 outline-none"
+                  disabled={selected.versions.length < 2}
+                >
+                  <option value="">Compare with...</option>
+                  {selected.versions.map((v, i) => i !== versionIndex && <option key={v.version} value={i}>v{v.version}</option>)}
+                </select>
+              </div>
+
+              {compared ? (
+                <div className="flex-1 overflow-y-auto bg-[#131314] border border-studio-border rounded p-2 font-mono text-xs">
+                  <div className="text-[10px] text-gray-500 mb-2">Changes from v{compared.version} to v{version.version}</div>
+                  {diffLines(compared.text, version.text).map((line, i) => (
+                    <div
+                      key={i}
+                      className={`whitespace-pre-wrap ${line.type === 'added' ? 'bg-green-900/30 text-green-300' : line.type === 'removed' ? 'bg-red-900/30 text-red-300 line-through' : 'text-gray-400'}`}
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+                    </div>
+                  ))}
+                  {describeConfigChanges(compared.config, version.config).map(change => (
+                    <div key={change} className="mt-1 text-yellow-500">⚙ {change}</div>
+                  ))}
+                </div>
+              ) : (
+                <>
+                  <textarea
+                    value={editedText}
+                    onChange={(e) => setEditedText(e.target.value)}
+                    className="flex-1 bg-[#131314] border border-studio-border rounded p-2 text-xs font-mono leading-relaxed outline-none focus:border-studio-primary resize-none"
+                  />
+                  {version.config && (
+                    <p className="text-[10px] text-gray-500 font-mono truncate" title={JSON.stringify(version.config, null, 2)}>
+                      Config: {version.config.model} · temperature {version.config.temperature} · top P {version.config.topP}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="What changed (optional)"
+                      className="flex-1 bg-[#131314] border border-studio-border rounded px-2 py-1 text-xs outline-none focus:border-studio-primary"
+                    />
+                    <button onClick={handleSaveVersion} className="px-3 py-1.5 rounded border border-studio-border hover:bg-[#2a2b2e] text-xs flex items-center gap-1">
+                      <Plus size={12} /> Save as v{getCurrentVersion(selected).version + 1}
+                    </button>
+                  </div>
+                </>
+              )}
+
+              <div className="flex items-center justify-end gap-3 pt-2 border-t border-studio-border">
+                {version.config && (
+                  <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer">
+                    <input type="checkbox" checked={applyConfig} onChange={(e) => setApplyConfig(e.target.checked)} />
+                    Also apply its model config
+                  </label>
+                )}
+                <button onClick={handleApply} className="px-4 py-1.5 bg-studio-primary text-studio-bg rounded text-xs font-bold hover:opacity-90 flex items-center gap-1">
+                  <Check size={12} /> {selected.kind === 'system' ? 'Use as system instruction' : 'Insert into message'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptLibraryDialog;
@@ -1,12 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, Info, Layers, DollarSign, Database, Upload, Key, RefreshCw, Trash, CheckCircle, AlertCircle, Clock, BrainCircuit, Server, ShieldAlert } from 'lucide-react';
-import { ModelConfig, ContextCacheConfig } from '../types';
+import { Settings, Info, Layers, DollarSign, Database, Upload, Key, RefreshCw, Trash, CheckCircle, AlertCircle, Clock, BrainCircuit, Server, ShieldAlert, Lock } from 'lucide-react';
+import { ModelConfig, ContextCacheConfig, ResponseModality, HarmThreshold, ContextPolicyMode } from '../types';
 import { AVAILABLE_MODELS } from '../constants';
+import ToolsEditor from './ToolsEditor';
+import VariablesEditor from './VariablesEditor';
+import StructuredOutputEditor from './StructuredOutputEditor';
+import { SAFETY_CATEGORIES, SAFETY_THRESHOLDS } from '../services/safetyService';
+import { DEFAULT_CONTEXT_POLICY } from '../services/contextPolicyService';
 
 import { createBatchJob, listActiveCaches, deleteCache } from '../services/geminiService';
 
 interface RightPanelProps {
   config: ModelConfig;
+  systemInstruction: string; // Scanned for {{variables}}
   contextCache: ContextCacheConfig;
   onConfigChange: (newConfig: ModelConfig) => void;
   onCacheChange: (newCache: ContextCacheConfig) => void;
@@ -18,10 +24,18 @@ interface RightPanelProps {
   todayCost: number;
   monthCost: number;
   onBatchCreated: (jobName: string, prompt: string) => void;
+  vaultEnabled: boolean;
+  autoLockMinutes: number;
+  onEnableVault: (passphrase: string) => void;
+  onDisableVault: () => void;
+  onLockNow: () => void;
+  onAutoLockChange: (minutes: number) => void;
+  onWipeAll: () => void;
 }
 
 const RightPanel: React.FC<RightPanelProps> = ({ 
   config, 
+  systemInstruction,
   contextCache,
   onConfigChange, 
   onCacheChange,
@@ -32,7 +46,14 @@ const RightPanel: React.FC<RightPanelProps> = ({
   totalCost,
   todayCost,
   monthCost,
-  onBatchCreated
+  onBatchCreated,
+  vaultEnabled,
+  autoLockMinutes,
+  onEnableVault,
+  onDisableVault,
+  onLockNow,
+  onAutoLockChange,
+  onWipeAll
 }) => {
   const [isOpen, setIsOpen] = useState(true);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -42,6 +63,10 @@ const RightPanel: React.FC<RightPanelProps> = ({
   const [activeCloudCaches, setActiveCloudCaches] = useState<{ name: string, model: string, expireTime: string }[]>([]);
   const [isCheckingCloud, setIsCheckingCloud] = useState(false);
 
+  // Vault Setup State
+  const [vaultPass, setVaultPass] = useState('');
+  const [vaultPassConfirm, setVaultPassConfirm] = useState('');
+
   const isGemini3 = config.model.includes('gemini-3');
 
   useEffect(() => {
@@ -81,6 +106,8 @@ const RightPanel: React.FC<RightPanelProps> = ({
     onConfigChange({ ...config, [key]: value });
   };
 
+  const contextPolicy = config.contextPolicy || DEFAULT_CONTEXT_POLICY;
+
   const handleCacheFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files.length > 0) {
           setSelectedFile(e.target.files[0]);
@@ -111,6 +138,14 @@ const RightPanel: React.FC<RightPanelProps> = ({
     }
   };
 
+  const handleEnableVaultClick = () => {
+      if (vaultPass.length < 8) return alert("Passphrase must be at least 8 characters.");
+      if (vaultPass !== vaultPassConfirm) return alert("Passphrases do not match.");
+      onEnableVault(vaultPass);
+      setVaultPass('');
+      setVaultPassConfirm('');
+  };
+
   const calculateCacheCost = () => {
       if (!contextCache.tokenCount) return 0;
       // Approx: Storage is $1.00 - $4.50 per million tokens per hour depending on model
@@ -194,7 +229,70 @@ const RightPanel: React.FC<RightPanelProps> = ({
                     className="w-full bg-studio-panel border border-studio-border rounded px-3 py-2 pl-9 text-sm focus:border-studio-primary outline-none placeholder-gray-600"
                 />
             </div>
-            <p className="text-[10px] text-gray-500">Key is not saved to server.</p>
+            <p className="text-[10px] text-gray-500">
+                Key is not saved to server.{vaultEnabled && ' Encrypted at rest.'}
+            </p>
+        </div>
+
+        {/* Vault / Lock Screen */}
+        <div className="space-y-2">
+            <label className="text-xs font-semibold text-studio-subtext flex items-center gap-1">
+                <Lock size={12} /> PASSPHRASE LOCK
+            </label>
+            {vaultEnabled ? (
+                <div className="p-3 bg-studio-panel border border-green-900/40 rounded space-y-2">
+                    <div className="flex items-center justify-between">
+                        <span className="text-xs text-green-400 flex items-center gap-1"><CheckCircle size={12} /> Encrypted</span>
+                        <button onClick={onLockNow} className="text-xs text-studio-primary hover:underline flex items-center gap-1">
+                            <Lock size={10} /> Lock now
+                        </button>
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-gray-400">
+                        <span>Auto-lock after (min)</span>
+                        <input 
+                            type="number"
+                            min="1"
+                            value={autoLockMinutes}
+                            onChange={(e) => onAutoLockChange(Math.max(1, parseInt(e.target.value) || 1))}
+                            className="w-16 bg-[#131314] border border-studio-border rounded px-2 py-1 text-xs text-right"
+                        />
+                    </div>
+                    <button onClick={onDisableVault} className="text-[10px] text-gray-500 hover:text-white">
+                        Disable lock
+                    </button>
+                </div>
+            ) : (
+                <div className="p-3 bg-studio-panel border border-studio-border rounded space-y-2">
+                    <p className="text-[10px] text-gray-500">Encrypt the API key and all history with a passphrase (AES-GCM). It cannot be recovered if forgotten.</p>
+                    <input 
+                        type="password"
+                        value={vaultPass}
+                        onChange={(e) => setVaultPass(e.target.value)}
+                        placeholder="New passphrase"
+                        className="w-full bg-[#131314] border border-studio-border rounded px-2 py-1 text-xs outline-none focus:border-studio-primary placeholder-gray-600"
+                    />
+                    <input 
+                        type="password"
+                        value={vaultPassConfirm}
+                        onChange={(e) => setVaultPassConfirm(e.target.value)}
+                        placeholder="Confirm passphrase"
+                        className="w-full bg-[#131314] border border-studio-border rounded px-2 py-1 text-xs outline-none focus:border-studio-primary placeholder-gray-600"
+                    />
+                    <button 
+                        onClick={handleEnableVaultClick}
+                        disabled={!vaultPass}
+                        className="w-full py-1.5 bg-studio-primary text-studio-bg text-xs font-bold rounded disabled:opacity-50 hover:opacity-90"
+                    >
+                        Enable Lock
+                    </button>
+                </div>
+            )}
+            <button 
+                onClick={onWipeAll}
+                className="w-full py-1.5 border border-red-900/50 text-red-400 hover:bg-red-900/20 rounded text-xs flex items-center justify-center gap-1 transition-colors"
+            >
+                <ShieldAlert size={12} /> Forget Everything
+            </button>
         </div>
 
         <hr className="border-studio-border" />
@@ -241,6 +339,23 @@ const RightPanel: React.FC<RightPanelProps> = ({
             </div>
         )}
 
+        {/* Thought Summaries Toggle */}
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold text-studio-subtext flex items-center gap-1">
+                    <BrainCircuit size={12} />
+                    THOUGHT SUMMARIES
+                </label>
+                <input 
+                    type="checkbox" 
+                    checked={!!config.includeThoughts} 
+                    onChange={(e) => handleChange('includeThoughts', e.target.checked)}
+                    className="accent-studio-primary w-4 h-4 cursor-pointer"
+                />
+            </div>
+            <p className="text-[10px] text-gray-500">Show the model's reasoning in a collapsible Thinking section.</p>
+        </div>
+
         {/* Google Search Toggle */}
         <div className="space-y-2">
             <div className="flex items-center justify-between">
@@ -257,6 +372,22 @@ const RightPanel: React.FC<RightPanelProps> = ({
             <p className="text-[10px] text-gray-500">Enable grounding with Google Search.</p>
         </div>
 
+        {/* Code Execution Toggle */}
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold text-studio-subtext flex items-center gap-1">
+                    CODE EXECUTION
+                </label>
+                <input 
+                    type="checkbox" 
+                    checked={!!config.enableCodeExecution} 
+                    onChange={(e) => handleChange('enableCodeExecution', e.target.checked)}
+                    className="accent-studio-primary w-4 h-4 cursor-pointer"
+                />
+            </div>
+            <p className="text-[10px] text-gray-500">Let the model write and run Python to compute answers.</p>
+        </div>
+
         {/* Temperature */}
         <div className="space-y-3">
           <div className="flex justify-between">
@@ -329,6 +460,188 @@ const RightPanel: React.FC<RightPanelProps> = ({
           </div>
         </div>
 
+        {/* Candidate Count */}
+        <div className="space-y-3">
+           <div className="flex justify-between">
+            <label className="text-xs font-semibold text-studio-subtext">CANDIDATES PER REQUEST</label>
+            <span className="text-xs font-mono">{config.candidateCount || 1}</span>
+          </div>
+          <input 
+            type="number" 
+            min="1"
+            max="8"
+            value={config.candidateCount || 1}
+            onChange={(e) => handleChange('candidateCount', Math.min(8, Math.max(1, parseInt(e.target.value) || 1)))}
+            className="w-full bg-studio-panel border border-studio-border rounded px-3 py-2 text-sm text-right outline-none focus:border-studio-primary"
+          />
+          <p className="text-[10px] text-gray-500">Extra answers are kept as alternates (&lt; 1/N &gt;). Output tokens are billed for every candidate. Bulk runs always request one.</p>
+        </div>
+
+        {/* Stop Sequences */}
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-studio-subtext">STOP SEQUENCES</label>
+          <textarea
+            value={(config.stopSequences || []).join('\n')}
+            onChange={(e) => handleChange('stopSequences', e.target.value ? e.target.value.split('\n').slice(0, 5) : undefined)}
+            rows={2}
+            spellCheck={false}
+            placeholder="One per line (max 5)"
+            className="w-full bg-studio-panel border border-studio-border rounded px-3 py-2 text-xs font-mono outline-none focus:border-studio-primary resize-y"
+          />
+        </div>
+
+        {/* Presence / Frequency Penalty */}
+        {([
+          ['presencePenalty', 'PRESENCE PENALTY'],
+          ['frequencyPenalty', 'FREQUENCY PENALTY']
+        ] as const).map(([key, label]) => (
+          <div key={key} className="space-y-3">
+            <div className="flex justify-between">
+              <label className="text-xs font-semibold text-studio-subtext">{label}</label>
+              <span className="text-xs font-mono">{config[key] || 0}</span>
+            </div>
+            <input 
+              type="range" 
+              min="-2" 
+              max="2" 
+              step="0.1"
+              value={config[key] || 0}
+              onChange={(e) => handleChange(key, parseFloat(e.target.value) || undefined)}
+              className="w-full h-1 bg-studio-border rounded-lg appearance-none cursor-pointer accent-studio-primary"
+            />
+          </div>
+        ))}
+
+        {/* Seed */}
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <label className="text-xs font-semibold text-studio-subtext">SEED</label>
+            <button
+              onClick={() => handleChange('seed', Math.floor(Math.random() * 2147483647))}
+              className="text-[10px] text-studio-primary hover:underline"
+            >
+              Randomize
+            </button>
+          </div>
+          <input 
+            type="number" 
+            value={config.seed ?? ''}
+            placeholder="Random each request"
+            onChange={(e) => { const seed = parseInt(e.target.value); handleChange('seed', Number.isNaN(seed) ? undefined : seed); }}
+            className="w-full bg-studio-panel border border-studio-border rounded px-3 py-2 text-sm text-right outline-none focus:border-studio-primary"
+          />
+          <p className="text-[10px] text-gray-500">A fixed seed makes sampling repeatable (best effort).</p>
+        </div>
+
+        {/* Response Modalities */}
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-studio-subtext">RESPONSE MODALITIES</label>
+          <div className="flex bg-studio-panel border border-studio-border rounded p-0.5">
+            {([
+              ['Default', undefined],
+              ['Text', ['TEXT']],
+              ['Text + Image', ['TEXT', 'IMAGE']]
+            ] as [string, ResponseModality[] | undefined][]).map(([label, modalities]) => (
+              <button
+                key={label}
+                onClick={() => handleChange('responseModalities', modalities)}
+                className={`flex-1 py-1 text-[10px] rounded transition-colors ${(config.responseModalities || []).join() === (modalities || []).join() ? 'bg-studio-border text-white' : 'text-gray-500 hover:text-gray-300'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {config.responseModalities?.includes('IMAGE') && (
+            <p className="text-[10px] text-yellow-500">Only image-capable models accept IMAGE output. Bulk runs keep the text only.</p>
+          )}
+        </div>
+
+        {/* Context Policy */}
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-studio-subtext">CONTEXT POLICY</label>
+          <div className="flex bg-studio-panel border border-studio-border rounded p-0.5">
+            {([
+              ['Keep all', 'all'],
+              ['Sliding window', 'window'],
+              ['Summarize', 'summarize']
+            ] as [string, ContextPolicyMode][]).map(([label, mode]) => (
+              <button
+                key={mode}
+                onClick={() => handleChange('contextPolicy', { ...contextPolicy, mode })}
+                className={`flex-1 py-1 text-[10px] rounded transition-colors ${contextPolicy.mode === mode ? 'bg-studio-border text-white' : 'text-gray-500 hover:text-gray-300'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {contextPolicy.mode !== 'all' && (
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-400">Latest turns sent verbatim</span>
+              <input
+                type="number"
+                min="1"
+                max="100"
+                value={contextPolicy.keepTurns}
+                onChange={(e) => handleChange('contextPolicy', { ...contextPolicy, keepTurns: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)) })}
+                className="w-20 bg-studio-panel border border-studio-border rounded px-2 py-1 text-sm text-right outline-none focus:border-studio-primary"
+              />
+            </div>
+          )}
+          <p className="text-[10px] text-gray-500">
+            {contextPolicy.mode === 'all' && 'The whole conversation is sent with every message.'}
+            {contextPolicy.mode === 'window' && 'Older turns are left out of the request; they stay in the chat.'}
+            {contextPolicy.mode === 'summarize' && `Once more than ${contextPolicy.keepTurns * 2} turns follow the last summary, all but the latest ${contextPolicy.keepTurns} are summarized by the model. The summary is shown in the chat and can be edited.`}
+          </p>
+        </div>
+
+        {/* Safety Settings */}
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-studio-subtext flex items-center gap-1">
+            <ShieldAlert size={12} /> SAFETY SETTINGS
+          </label>
+          {SAFETY_CATEGORIES.map(category => (
+            <div key={category.id} className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-400">{category.label}</span>
+              <select
+                value={config.safetySettings?.[category.id] || ''}
+                onChange={(e) => {
+                  const next = { ...config.safetySettings };
+                  if (e.target.value) next[category.id] = e.target.value as HarmThreshold;
+                  else delete next[category.id];
+                  handleChange('safetySettings', next);
+                }}
+                className="bg-studio-panel border border-studio-border rounded px-2 py-1 text-xs outline-none focus:border-studio-primary"
+              >
+                <option value="">Model default</option>
+                {SAFETY_THRESHOLDS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+              </select>
+            </div>
+          ))}
+          <p className="text-[10px] text-gray-500">Applied to chat, bulk and economy requests. Blocked prompts and answers show the reason and ratings.</p>
+        </div>
+
+        {/* Prompt Variables */}
+        <VariablesEditor
+          variables={config.variables || {}}
+          onChange={(variables) => handleChange('variables', variables)}
+          systemInstruction={systemInstruction}
+        />
+
+        {/* Function Calling */}
+        <ToolsEditor
+          tools={config.tools || []}
+          onChange={(tools) => handleChange('tools', tools)}
+          cacheActive={contextCache.enabled && contextCache.status === 'active'}
+          searchEnabled={config.enableGoogleSearch}
+        />
+
+        {/* Structured Output */}
+        <StructuredOutputEditor
+          value={config.structuredOutput}
+          onChange={(structuredOutput) => handleChange('structuredOutput', structuredOutput)}
+          toolsEnabled={config.enableGoogleSearch || !!config.enableCodeExecution || (config.tools || []).some(t => t.enabled)}
+        />
+
         <hr className="border-studio-border" />
 
         {/* --- NEW: Cloud Cache Audit Section --- */}
@@ -569,7 +882,7 @@ const RightPanel: React.FC<RightPanelProps> = ({
              </div>
 
              <button 
-                onClick={() => alert("Cost History feature coming soon! (Check localStorage 'gemini_cost_history')")} 
+                onClick={() => alert("Cost History feature coming soon! (Records are stored in IndexedDB 'costRecords')")} 
                 className="mt-1 w-full text-[10px] text-studio-primary hover:underline text-center"
             >
                 View Cost Calendar
@@ -0,0 +1,38 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { SafetyFeedback } from '../types';
+import { getCategoryLabel } from '../services/safetyService';
+
+const PROBABILITY_COLORS: Record<string, string> = {
+  HIGH: 'text-red-400',
+  MEDIUM: 'text-orange-400',
+  LOW: 'text-yellow-500',
+  NEGLIGIBLE: 'text-gray-500'
+};
+
+// Block reason plus the per-category ratings the API reported with it
+const SafetyFeedbackView: React.FC<{ feedback: SafetyFeedback; partial?: boolean }> = ({ feedback, partial }) => (
+  <div className="w-full mt-2 rounded-lg border border-red-800 bg-red-900/10 p-3 text-xs">
+    <div className="flex items-center gap-2 text-red-300 font-semibold">
+      <ShieldAlert size={14} />
+      {feedback.scope === 'prompt' ? 'Prompt blocked' : partial ? 'Response cut off' : 'Response blocked'}
+      <span className="font-mono font-normal text-red-400/80">{feedback.reason}</span>
+    </div>
+    {feedback.message && <p className="mt-1 text-gray-400">{feedback.message}</p>}
+    {feedback.ratings.length > 0 && (
+      <ul className="mt-2 grid grid-cols-2 gap-x-4 gap-y-0.5">
+        {feedback.ratings.map(r => (
+          <li key={r.category} className="flex justify-between gap-2">
+            <span className={r.blocked ? 'text-red-300 font-semibold' : 'text-gray-400'}>{getCategoryLabel(r.category)}</span>
+            <span className={`font-mono ${PROBABILITY_COLORS[r.probability] || 'text-gray-500'}`}>{r.probability.toLowerCase()}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+    {feedback.scope === 'prompt' && (
+      <p className="mt-2 text-[10px] text-gray-500">Rephrase the message or relax the thresholds under Safety Settings.</p>
+    )}
+  </div>
+);
+
+export default SafetyFeedbackView;
@@ -1,5 +1,5 @@
 import React, { useRef, useState } from 'react';
-import { Plus, MessageSquare, Save, Trash2, Download, Upload, Layers, RefreshCw, CheckCircle, Clock, AlertCircle, PiggyBank } from 'lucide-react'; // Added PiggyBank
+import { Plus, MessageSquare, Save, Trash2, Download, Upload, Layers, RefreshCw, CheckCircle, Clock, AlertCircle, PiggyBank, Archive, HardDrive, Columns3 } from 'lucide-react'; // Added PiggyBank
 import { SessionData, BatchJobRecord, ActiveViewType } from '../types'; // Updated import
 import { APP_VERSION } from '../constants';
 
@@ -16,6 +16,8 @@ interface SidebarProps {
   onDeleteBatchJob: (id: string, e: React.MouseEvent) => void;
   activeView: ActiveViewType;
   onViewChange: (view: ActiveViewType) => void;
+  onOpenBackup: () => void;
+  onOpenStorage: () => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ 
@@ -30,7 +32,9 @@ const Sidebar: React.FC<SidebarProps> = ({
   onCheckBatchStatus,
   onDeleteBatchJob,
   activeView,
-  onViewChange
+  onViewChange,
+  onOpenBackup,
+  onOpenStorage
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [activeTab, setActiveTab] = useState<'chats' | 'batch'>('chats');
@@ -49,7 +53,8 @@ const Sidebar: React.FC<SidebarProps> = ({
   };
 
   // Helper to determine if we should show chat-like features (Sessions list)
-  const isChatLikeInterface = activeView === 'chat' || activeView === 'economy';
+  // Compare mode also works against the selected chat's history
+  const isChatLikeInterface = activeView === 'chat' || activeView === 'economy' || activeView === 'compare';
 
   return (
     <div className="w-64 flex-shrink-0 bg-studio-bg border-r border-studio-border h-full flex flex-col">
@@ -83,6 +88,15 @@ const Sidebar: React.FC<SidebarProps> = ({
             >
                 <PiggyBank size={14} />
             </button>
+            <button 
+                 onClick={() => onViewChange('compare')}
+                 className={`flex-1 py-2 text-xs font-bold rounded flex items-center justify-center gap-1 transition-all ${
+                    activeView === 'compare' ? 'bg-orange-900/30 text-orange-200 border border-orange-800' : 'text-gray-500 hover:text-gray-300'
+                }`}
+                title="Compare Models"
+            >
+                <Columns3 size={14} />
+            </button>
         </div>
 
         {/* Create New Chat Button (Visible for Chat and Economy) */}
@@ -231,6 +245,24 @@ const Sidebar: React.FC<SidebarProps> = ({
             accept=".json"
             onChange={handleFileChange} 
          />
+
+         {/* Workspace Backup Button */}
+         <button 
+            onClick={onOpenBackup}
+            className="w-full flex items-center gap-2 px-2 py-1.5 text-studio-subtext text-sm hover:text-white hover:bg-studio-panel rounded transition-colors"
+         >
+            <Archive size={16} />
+            <span>Backup / Restore</span>
+         </button>
+
+         {/* Storage Usage Button */}
+         <button 
+            onClick={onOpenStorage}
+            className="w-full flex items-center gap-2 px-2 py-1.5 text-studio-subtext text-sm hover:text-white hover:bg-studio-panel rounded transition-colors"
+         >
+            <HardDrive size={16} />
+            <span>Storage</span>
+         </button>
          
          <div className="pt-2 text-center">
             <span className="text-xs text-gray-600">Version {APP_VERSION}</span>
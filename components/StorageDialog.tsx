@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { X, HardDrive, Loader2, Trash2, Archive, Paperclip, MessageSquare, Layers, RefreshCw } from 'lucide-react';
+import { getStorageUsage, formatBytes, StorageUsage } from '../services/storageUsageService';
+import { createArchive } from '../services/backupService';
+import { deleteLocalBatchSession } from '../services/batchRunService';
+import { notifyThisTab, getLocksHeldElsewhere, ownsLock, LOCK_PREFIX_BATCH_SESSION } from '../services/syncService';
+
+interface StorageDialogProps {
+  onClose: () => void;
+  onStripAttachments: (sessionIds: string[], hashes?: string[]) => Promise<void>;
+  onDeleteSessions: (ids: string[]) => Promise<void>;
+}
+
+type StorageTab = 'chats' | 'bulk' | 'attachments';
+
+const StorageDialog: React.FC<StorageDialogProps> = ({ onClose, onStripAttachments, onDeleteSessions }) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [tab, setTab] = useState<StorageTab>('chats');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setUsage(await getStorageUsage());
+    } catch (e: any) {
+      setError('Failed to measure storage: ' + e.message);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  useEffect(() => {
+    setSelected(new Set());
+  }, [tab]);
+
+  const rows: { id: string; label: string; detail: string; bytes: number }[] = !usage ? [] :
+    tab === 'chats' ? usage.sessions.map(s => ({
+      id: s.id,
+      label: s.title,
+      detail: `${new Date(s.updatedAt).toLocaleDateString()} · ${s.attachmentCount} attachment(s)`,
+      bytes: s.bytes + s.attachmentBytes
+    })) :
+    tab === 'bulk' ? usage.bulkSessions.map(s => ({
+      id: s.id,
+      label: s.name,
+      detail: `${new Date(s.createdAt).toLocaleDateString()} · ${s.itemCount} item(s)`,
+      bytes: s.bytes
+    })) :
+    usage.attachments.map(a => ({
+      id: a.hash,
+      label: a.name,
+      detail: `${a.mimeType} · used by ${a.sessionIds.length} chat(s)`,
+      bytes: a.size
+    }));
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = rows.length > 0 && rows.every(r => selected.has(r.id));
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(rows.map(r => r.id)));
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+      setSelected(new Set());
+      await refresh();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Bulk sessions being run (here or in another tab) are left alone
+  const deletableBulkIds = async (ids: string[]) => {
+    const heldElsewhere = await getLocksHeldElsewhere();
+    const running = ids.filter(id => ownsLock(LOCK_PREFIX_BATCH_SESSION + id) || heldElsewhere.has(LOCK_PREFIX_BATCH_SESSION + id));
+    if (running.length > 0) alert(`${running.length} bulk session(s) are running and were skipped.`);
+    return ids.filter(id => !running.includes(id));
+  };
+
+  const deleteBulkSessions = async (ids: string[]) => {
+    for (const id of await deletableBulkIds(ids)) {
+      await deleteLocalBatchSession(id);
+    }
+    // deleteLocalBatchSession only notifies other tabs; the bulk panel of this tab must reload too
+    notifyThisTab({ type: 'bulkSessions' });
+  };
+
+  const handleDelete = () => {
+    const ids = [...selected];
+    if (!confirm(`Permanently delete ${ids.length} item(s)? Consider archiving them first.`)) return;
+    run(() => tab === 'chats' ? onDeleteSessions(ids) : deleteBulkSessions(ids));
+  };
+
+  const handleStrip = () => {
+    const ids = [...selected];
+    if (tab === 'chats') {
+      if (!confirm(`Remove all attachments from ${ids.length} chat(s)? The messages are kept.`)) return;
+      run(() => onStripAttachments(ids));
+    } else if (tab === 'attachments' && usage) {
+      if (!confirm(`Remove ${ids.length} attachment(s) from every chat that uses them?`)) return;
+      const sessionIds = [...new Set(usage.attachments.filter(a => selected.has(a.hash)).flatMap(a => a.sessionIds))];
+      run(() => onStripAttachments(sessionIds, ids));
+    }
+  };
+
+  const handleArchive = () => {
+    const ids = [...selected];
+    run(async () => {
+      const blob = await createArchive(tab === 'chats' ? ids : [], tab === 'bulk' ? ids : []);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `gemini-studio-archive-${new Date().toISOString().slice(0, 10)}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      if (confirm(`Archive saved (restore it via Backup / Restore → Merge).\nDelete the ${ids.length} archived item(s) from this browser now?`)) {
+        if (tab === 'chats') await onDeleteSessions(ids);
+        else await deleteBulkSessions(ids);
+      }
+    });
+  };
+
+  const estimate = usage?.estimate;
+  const usedPercent = estimate && estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+
+  const tabButton = (id: StorageTab, icon: React.ReactNode, label: string, count: number) => (
+    <button
+      onClick={() => setTab(id)}
+      className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all flex items-center justify-center gap-2 ${
+        tab === id ? 'bg-[#333] text-white shadow' : 'text-gray-400 hover:text-gray-200'
+      }`}
+    >
+      {icon} {label} ({count})
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-10 animate-in fade-in">
+      <div className="bg-studio-panel border border-studio-border rounded-lg w-full max-w-2xl h-[80vh] flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-studio-border flex justify-between items-center bg-[#1e1e1e]">
+          <h3 className="font-bold text-white text-sm flex items-center gap-2"><HardDrive size={16} /> Storage</h3>
+          <div className="flex items-center gap-3">
+            <button onClick={() => run(async () => {})} disabled={isWorking} title="Refresh"><RefreshCw size={14} className="text-gray-400 hover:text-white" /></button>
+            <button onClick={onClose} disabled={isWorking}><X className="text-gray-400 hover:text-white" /></button>
+          </div>
+        </div>
+
+        {!usage ? (
+          <div className="flex-1 flex items-center justify-center text-xs text-gray-500 gap-2">
+            {error ? <span className="text-red-400">{error}</span> : <><Loader2 size={14} className="animate-spin" /> Measuring...</>}
+          </div>
+        ) : (
+          <>
+            {/* Quota Overview */}
+            <div className="p-4 border-b border-studio-border space-y-2">
+              {estimate ? (
+                <>
+                  <div className="flex justify-between text-xs">
+                    <span className="text-gray-400">Browser storage used</span>
+                    <span className="font-mono text-gray-200">{formatBytes(estimate.usage)} / {formatBytes(estimate.quota)}</span>
+                  </div>
+                  <div className="h-2 bg-[#131314] rounded overflow-hidden">
+                    <div
+                      className={`h-full ${usedPercent > 90 ? 'bg-red-500' : usedPercent > 70 ? 'bg-yellow-500' : 'bg-studio-primary'}`}
+                      style={{ width: `${usedPercent}%` }}
+                    />
+                  </div>
+                </>
+              ) : (
+                <div className="text-xs text-gray-500">This browser does not report its storage quota.</div>
+              )}
+              <div className="flex gap-4 text-[10px] text-gray-500 font-mono">
+                <span>Chats {formatBytes(usage.totals.sessions)}</span>
+                <span>Bulk {formatBytes(usage.totals.bulkSessions)}</span>
+                <span>Attachments {formatBytes(usage.totals.attachments)}</span>
+                {usage.orphanedBlobs > 0 && <span>{usage.orphanedBlobs} unreferenced blob(s) pending cleanup</span>}
+              </div>
+            </div>
+
+            {/* Tabs */}
+            <div className="px-4 pt-3">
+              <div className="flex bg-[#131314] p-1 rounded-lg">
+                {tabButton('chats', <MessageSquare size={14} />, 'Chats', usage.sessions.length)}
+                {tabButton('bulk', <Layers size={14} />, 'Bulk', usage.bulkSessions.length)}
+                {tabButton('attachments', <Paperclip size={14} />, 'Attachments', usage.attachments.length)}
+              </div>
+            </div>
+
+            {/* List */}
+            <div className="flex-1 overflow-y-auto px-4 py-2">
+              {rows.length > 0 && (
+                <label className="flex items-center gap-2 px-2 py-1 text-[10px] text-gray-500 cursor-pointer">
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} /> Select all
+                </label>
+              )}
+              <ul className="space-y-1">
+                {rows.map(r => (
+                  <li key={r.id}>
+                    <label className={`flex items-center gap-3 px-2 py-2 rounded cursor-pointer hover:bg-[#2a2b2e] ${selected.has(r.id) ? 'bg-[#004a77]/30' : ''}`}>
+                      <input type="checkbox" checked={selected.has(r.id)} onChange={() => toggle(r.id)} />
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm truncate">{r.label}</div>
+                        <div className="text-[10px] text-gray-500 truncate">{r.detail}</div>
+                      </div>
+                      <span className="text-xs font-mono text-gray-300">{formatBytes(r.bytes)}</span>
+                    </label>
+                  </li>
+                ))}
+                {rows.length === 0 && <li className="px-3 py-4 text-center text-sm text-gray-500 italic">Nothing stored</li>}
+              </ul>
+            </div>
+
+            {/* Actions */}
+            <div className="p-4 border-t border-studio-border flex items-center gap-2">
+              <span className="text-xs text-gray-500 flex-1">
+                {selected.size > 0 ? `${selected.size} selected` : 'Select items to manage'}
+                {error && <span className="text-red-400 ml-2">{error}</span>}
+              </span>
+              {isWorking && <Loader2 size={14} className="animate-spin text-gray-400" />}
+              {tab !== 'bulk' && (
+                <button
+                  onClick={handleStrip}
+                  disabled={isWorking || selected.size === 0}
+                  className="px-3 py-1.5 bg-[#2a2b2e] hover:bg-[#3a3b3e] text-xs rounded text-gray-200 flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Paperclip size={12} /> Strip Attachments
+                </button>
+              )}
+              {tab !== 'attachments' && (
+                <>
+                  <button
+                    onClick={handleArchive}
+                    disabled={isWorking || selected.size === 0}
+                    className="px-3 py-1.5 bg-[#2a2b2e] hover:bg-[#3a3b3e] text-xs rounded text-gray-200 flex items-center gap-1 disabled:opacity-50"
+                  >
+                    <Archive size={12} /> Archive to File
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    disabled={isWorking || selected.size === 0}
+                    className="px-3 py-1.5 bg-red-900/30 hover:bg-red-900/50 border border-red-800 text-xs rounded text-red-300 flex items-center gap-1 disabled:opacity-50"
+                  >
+                    <Trash2 size={12} /> Delete
+                  </button>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StorageDialog;
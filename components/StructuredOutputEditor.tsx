@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { Braces, Upload, ChevronDown, ChevronRight } from 'lucide-react';
+import { StructuredOutputConfig } from '../types';
+import { DEFAULT_RESPONSE_SCHEMA, validateSchemaText, importSchema } from '../services/structuredOutputService';
+
+interface StructuredOutputEditorProps {
+  value?: StructuredOutputConfig;
+  onChange: (value: StructuredOutputConfig) => void;
+  toolsEnabled: boolean;
+}
+
+const SHORTHAND_PLACEHOLDER = `{
+  name: string        // becomes the description
+  age?: integer
+  tags: string[]
+  status: "open" | "closed"
+  owner: { id: number } | null
+}`;
+
+const StructuredOutputEditor: React.FC<StructuredOutputEditorProps> = ({ value, onChange, toolsEnabled }) => {
+  const current: StructuredOutputConfig = value || { enabled: false, schema: DEFAULT_RESPONSE_SCHEMA };
+  const [importOpen, setImportOpen] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const errors = current.schema.trim() ? validateSchemaText(current.schema) : [];
+
+  const handleImport = (src: string) => {
+    try {
+      onChange({ ...current, schema: importSchema(src) });
+      setImportText('');
+      setImportError(null);
+      setImportOpen(false);
+    } catch (e: any) {
+      setImportError(e.message);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setImportText(text);
+    handleImport(text);
+  };
+
+  const inputClass = "w-full bg-studio-panel border border-studio-border rounded px-2 py-1 text-xs outline-none focus:border-studio-primary font-mono resize-y";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-semibold text-studio-subtext flex items-center gap-1">
+          <Braces size={12} /> STRUCTURED OUTPUT
+        </label>
+        <input
+          type="checkbox"
+          checked={current.enabled}
+          onChange={(e) => onChange({ ...current, enabled: e.target.checked })}
+          className="accent-studio-primary w-4 h-4 cursor-pointer"
+        />
+      </div>
+      <p className="text-[10px] text-gray-500">Answer in JSON that follows the response schema. Chat, bulk and economy requests all use it.</p>
+
+      {current.enabled && (
+        <>
+          {toolsEnabled && (
+            <p className="text-[10px] text-yellow-500">Most models reject JSON mode combined with search, code execution or function tools.</p>
+          )}
+          <textarea
+            value={current.schema}
+            onChange={(e) => onChange({ ...current, schema: e.target.value })}
+            rows={8}
+            spellCheck={false}
+            placeholder='{ "type": "object", "properties": { ... } }'
+            className={inputClass}
+          />
+          {errors.map(err => <p key={err} className="text-[10px] text-red-400">{err}</p>)}
+
+          <div className="border border-studio-border rounded bg-[#1a1a1a]">
+            <button
+              onClick={() => setImportOpen(!importOpen)}
+              className="w-full flex items-center gap-1 px-2 py-1.5 text-[10px] text-gray-400 hover:text-white"
+            >
+              {importOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              Import from JSON Schema or TypeScript-like shorthand
+            </button>
+            {importOpen && (
+              <div className="border-t border-studio-border p-2 space-y-2">
+                <textarea
+                  value={importText}
+                  onChange={(e) => setImportText(e.target.value)}
+                  rows={6}
+                  spellCheck={false}
+                  placeholder={SHORTHAND_PLACEHOLDER}
+                  className={inputClass}
+                />
+                {importError && <p className="text-[10px] text-red-400">{importError}</p>}
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleImport(importText)}
+                    disabled={!importText.trim()}
+                    className="flex-1 bg-studio-border hover:bg-gray-600 text-white text-xs py-1 rounded disabled:opacity-50"
+                  >
+                    Convert &amp; Replace
+                  </button>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center gap-1 px-2 text-xs text-gray-400 hover:text-white border border-studio-border rounded"
+                  >
+                    <Upload size={12} /> File
+                  </button>
+                  <input ref={fileInputRef} type="file" accept=".json,.ts,.txt" className="hidden" onChange={handleFile} />
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StructuredOutputEditor;
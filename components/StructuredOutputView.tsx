@@ -0,0 +1,97 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Braces, CheckCircle, AlertTriangle, Copy } from 'lucide-react';
+import { SchemaValidation } from '../types';
+import { parseJsonResponse } from '../services/structuredOutputService';
+
+// Collapsible tree of a JSON value; the first two levels start expanded
+const JsonNode: React.FC<{ name?: string; value: unknown; depth: number }> = ({ name, value, depth }) => {
+  const [open, setOpen] = useState(depth < 2);
+  const isArray = Array.isArray(value);
+  const isObject = value !== null && typeof value === 'object';
+  const label = name !== undefined && <span className="text-purple-300">{name}<span className="text-gray-500">: </span></span>;
+
+  if (!isObject) {
+    const color = typeof value === 'string' ? 'text-green-300'
+      : typeof value === 'number' ? 'text-orange-300'
+      : typeof value === 'boolean' ? 'text-blue-300' : 'text-gray-500';
+    return (
+      <div className="pl-4 break-all">
+        {label}<span className={color}>{JSON.stringify(value)}</span>
+      </div>
+    );
+  }
+
+  const entries: [string, unknown][] = isArray
+    ? (value as unknown[]).map((v, i) => [String(i), v])
+    : Object.entries(value as Record<string, unknown>);
+  const summary = isArray ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <div className={depth > 0 ? 'pl-4' : ''}>
+      <button onClick={() => setOpen(!open)} className="flex items-center gap-0.5 hover:bg-white/5 rounded -ml-3.5">
+        {open ? <ChevronDown size={10} className="text-gray-500" /> : <ChevronRight size={10} className="text-gray-500" />}
+        {label}<span className="text-gray-500">{summary}</span>
+      </button>
+      {open && entries.map(([key, child]) => (
+        <JsonNode key={key} name={isArray ? undefined : key} value={child} depth={depth + 1} />
+      ))}
+    </div>
+  );
+};
+
+interface StructuredOutputViewProps {
+  text: string;
+  validation: SchemaValidation;
+}
+
+// JSON mode answer: tree or raw view plus the result of the schema check
+const StructuredOutputView: React.FC<StructuredOutputViewProps> = ({ text, validation }) => {
+  const [mode, setMode] = useState<'tree' | 'raw'>('tree');
+  const parsed = useMemo(() => {
+    try {
+      return { ok: true as const, value: parseJsonResponse(text) };
+    } catch {
+      return { ok: false as const };
+    }
+  }, [text]);
+  const valid = validation.errors.length === 0;
+  const showTree = mode === 'tree' && parsed.ok;
+
+  return (
+    <div className={`rounded-lg border overflow-hidden text-xs ${valid ? 'border-studio-border' : 'border-orange-800'}`}>
+      <div className="flex items-center justify-between px-3 py-1.5 bg-[#2d2d2d]">
+        <span className="flex items-center gap-2 font-mono font-bold uppercase text-gray-400">
+          <Braces size={12} className="text-studio-primary" /> JSON
+          {valid
+            ? <span className="flex items-center gap-1 normal-case font-normal text-green-400"><CheckCircle size={10} /> matches schema</span>
+            : <span className="flex items-center gap-1 normal-case font-normal text-orange-400"><AlertTriangle size={10} /> {validation.errors.length} schema {validation.errors.length === 1 ? 'error' : 'errors'}</span>}
+        </span>
+        <div className="flex items-center gap-3">
+          {parsed.ok && (
+            <button onClick={() => setMode(mode === 'tree' ? 'raw' : 'tree')} className="text-gray-400 hover:text-white">
+              {mode === 'tree' ? 'Raw' : 'Tree'}
+            </button>
+          )}
+          <button
+            onClick={() => navigator.clipboard.writeText(parsed.ok ? JSON.stringify(parsed.value, null, 2) : text)}
+            className="flex items-center gap-1 text-gray-400 hover:text-white transition-colors"
+          >
+            <Copy size={12} /> Copy
+          </button>
+        </div>
+      </div>
+      {!valid && (
+        <ul className="px-3 py-2 space-y-0.5 bg-orange-900/10 border-b border-orange-900/40 text-orange-300 font-mono">
+          {validation.errors.map((err, idx) => <li key={idx}>{err}</li>)}
+        </ul>
+      )}
+      <div className="p-3 bg-[#1e1e1e] font-mono leading-relaxed overflow-x-auto">
+        {showTree
+          ? <JsonNode value={parsed.value} depth={0} />
+          : <pre className="whitespace-pre-wrap text-gray-300">{text}</pre>}
+      </div>
+    </div>
+  );
+};
+
+export default StructuredOutputView;
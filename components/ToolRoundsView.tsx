@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Wrench, ChevronDown, ChevronRight, Loader2, AlertTriangle } from 'lucide-react';
+import { ToolRound, FunctionCallRecord } from '../types';
+
+// Function call / response steps of one model turn, shown above its final answer
+const CallCard: React.FC<{ call: FunctionCallRecord }> = ({ call }) => {
+  const [open, setOpen] = useState(false);
+  const pending = call.response === undefined;
+
+  return (
+    <div className={`border rounded-lg text-xs overflow-hidden ${call.isError ? 'border-red-800 bg-red-900/10' : 'border-studio-border bg-[#1e1e1e]'}`}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-white/5"
+      >
+        {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <Wrench size={12} className="text-orange-400" />
+        <span className="font-mono text-gray-200 truncate">
+          {call.name}({Object.keys(call.args).join(', ')})
+        </span>
+        <span className="ml-auto flex items-center gap-1 text-gray-500">
+          {pending ? <><Loader2 size={10} className="animate-spin" /> running</> :
+           call.isError ? <><AlertTriangle size={10} className="text-red-400" /> error</> : 'done'}
+        </span>
+      </button>
+      {open && (
+        <div className="border-t border-studio-border divide-y divide-studio-border font-mono">
+          <div className="p-2">
+            <div className="text-[10px] text-gray-500 mb-1">functionCall</div>
+            <pre className="whitespace-pre-wrap text-[#a5d6ff]">{JSON.stringify(call.args, null, 2)}</pre>
+          </div>
+          {!pending && (
+            <div className="p-2">
+              <div className="text-[10px] text-gray-500 mb-1">functionResponse</div>
+              <pre className={`whitespace-pre-wrap ${call.isError ? 'text-red-300' : 'text-green-300'}`}>{JSON.stringify(call.response, null, 2)}</pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ToolRoundsView: React.FC<{ rounds: ToolRound[] }> = ({ rounds }) => (
+  <div className="w-full mb-2 space-y-2">
+    {rounds.map((round, idx) => (
+      <div key={idx} className="space-y-1">
+        {round.text && <div className="text-sm text-gray-400 whitespace-pre-wrap">{round.text}</div>}
+        {round.calls.map((call, i) => <CallCard key={call.id || i} call={call} />)}
+      </div>
+    ))}
+  </div>
+);
+
+export default ToolRoundsView;
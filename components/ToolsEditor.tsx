@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Wrench, Plus, Trash, ChevronDown, ChevronRight, AlertCircle } from 'lucide-react';
+import { FunctionTool } from '../types';
+import { createFunctionTool, validateTool } from '../services/toolService';
+
+interface ToolsEditorProps {
+  tools: FunctionTool[];
+  onChange: (tools: FunctionTool[]) => void;
+  cacheActive: boolean;
+  searchEnabled: boolean;
+}
+
+const JS_PLACEHOLDER = `// args holds the arguments the model passed; return any JSON value
+return { temperature: 22, city: args.city };`;
+
+const ToolsEditor: React.FC<ToolsEditorProps> = ({ tools, onChange, cacheActive, searchEnabled }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const update = (id: string, patch: Partial<FunctionTool>) => {
+    onChange(tools.map(t => t.id === id ? { ...t, ...patch } : t));
+  };
+
+  const handleAdd = () => {
+    const tool = createFunctionTool();
+    onChange([...tools, tool]);
+    setOpenId(tool.id);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(tools.filter(t => t.id !== id));
+  };
+
+  const inputClass = "w-full bg-studio-panel border border-studio-border rounded px-2 py-1 text-xs outline-none focus:border-studio-primary";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-semibold text-studio-subtext flex items-center gap-1">
+          <Wrench size={12} /> FUNCTION CALLING
+        </label>
+        <button onClick={handleAdd} className="text-xs text-studio-primary hover:underline flex items-center gap-1">
+          <Plus size={12} /> Add
+        </button>
+      </div>
+
+      {tools.length === 0 && (
+        <p className="text-[10px] text-gray-500">Declare functions the model can call. Calls are answered by a mock response or a local JavaScript handler.</p>
+      )}
+      {cacheActive && tools.some(t => t.enabled) && (
+        <p className="text-[10px] text-yellow-500">Tools are not sent while a context cache is active.</p>
+      )}
+      {searchEnabled && tools.some(t => t.enabled) && (
+        <p className="text-[10px] text-yellow-500">Some models reject Google Search combined with function calling.</p>
+      )}
+
+      {tools.map(tool => {
+        const errors = validateTool(tool, tools);
+        const isOpen = openId === tool.id;
+        return (
+          <div key={tool.id} className="border border-studio-border rounded bg-[#1a1a1a]">
+            <div className="flex items-center gap-2 px-2 py-1.5">
+              <button onClick={() => setOpenId(isOpen ? null : tool.id)} className="text-gray-400 hover:text-white">
+                {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              </button>
+              <input
+                type="checkbox"
+                checked={tool.enabled}
+                onChange={(e) => update(tool.id, { enabled: e.target.checked })}
+                className="accent-studio-primary cursor-pointer"
+                title="Send this function with requests"
+              />
+              <span className={`flex-1 text-xs font-mono truncate ${tool.enabled ? 'text-gray-200' : 'text-gray-500'}`}>{tool.name || '(unnamed)'}</span>
+              {tool.imported && (
+                <span className="text-[9px] px-1 rounded bg-yellow-900/40 text-yellow-400" title="This handler came from an imported file and asks before it runs. Editing it removes the mark.">
+                  imported
+                </span>
+              )}
+              {errors.length > 0 && <span title={errors.join('\n')}><AlertCircle size={12} className="text-red-400" /></span>}
+              <button onClick={() => handleRemove(tool.id)} className="text-gray-500 hover:text-red-400" title="Delete">
+                <Trash size={12} />
+              </button>
+            </div>
+
+            {isOpen && (
+              <div className="border-t border-studio-border p-2 space-y-2">
+                <input
+                  value={tool.name}
+                  onChange={(e) => update(tool.id, { name: e.target.value })}
+                  placeholder="function_name"
+                  className={`${inputClass} font-mono`}
+                />
+                <textarea
+                  value={tool.description}
+                  onChange={(e) => update(tool.id, { description: e.target.value })}
+                  placeholder="What the function does and when to call it"
+                  rows={2}
+                  className={`${inputClass} resize-y`}
+                />
+                <div>
+                  <div className="text-[10px] text-gray-500 mb-1">Parameters (JSON Schema)</div>
+                  <textarea
+                    value={tool.parameters}
+                    onChange={(e) => update(tool.id, { parameters: e.target.value })}
+                    rows={6}
+                    spellCheck={false}
+                    className={`${inputClass} font-mono resize-y`}
+                  />
+                </div>
+                <div>
+                  <div className="flex bg-studio-panel border border-studio-border rounded p-0.5 mb-1">
+                    {(['mock', 'javascript'] as const).map(type => (
+                      <button
+                        key={type}
+                        onClick={() => update(tool.id, { handlerType: type })}
+                        className={`flex-1 py-0.5 text-[10px] rounded transition-colors ${tool.handlerType === type ? 'bg-studio-border text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                      >
+                        {type === 'mock' ? 'Mock Response' : 'JavaScript'}
+                      </button>
+                    ))}
+                  </div>
+                  <textarea
+                    value={tool.handler}
+                    onChange={(e) => update(tool.id, { handler: e.target.value, imported: undefined })}
+                    placeholder={tool.handlerType === 'javascript' ? JS_PLACEHOLDER : '{ "result": "..." }'}
+                    rows={5}
+                    spellCheck={false}
+                    className={`${inputClass} font-mono resize-y`}
+                  />
+                  <p className="text-[10px] text-gray-500 mt-1">
+                    {tool.handlerType === 'javascript'
+                      ? 'Runs in a sandboxed frame without network or app storage access; 5s limit.'
+                      : 'Returned as-is for every call (plain text becomes { "result": ... }).'}
+                  </p>
+                </div>
+                {errors.map(err => <p key={err} className="text-[10px] text-red-400">{err}</p>)}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ToolsEditor;
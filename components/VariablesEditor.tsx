@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Braces, Plus, Trash } from 'lucide-react';
+import { PromptVariables } from '../types';
+import { extractVariables, isValidVariableName } from '../services/templateService';
+
+interface VariablesEditorProps {
+  variables: PromptVariables;
+  onChange: (variables: PromptVariables) => void;
+  systemInstruction: string;
+}
+
+// Values for {{name}} placeholders; names found in the system instruction are listed automatically
+const VariablesEditor: React.FC<VariablesEditorProps> = ({ variables, onChange, systemInstruction }) => {
+  const [newName, setNewName] = useState('');
+  const detected = extractVariables(systemInstruction);
+  const names = [...detected, ...Object.keys(variables).filter(name => !detected.includes(name))];
+  const nameError = newName && !isValidVariableName(newName)
+    ? 'Letters, digits, _ . and - only; must not start with a digit.'
+    : names.includes(newName) ? 'Already defined.' : '';
+
+  const handleAdd = () => {
+    if (!newName || nameError) return;
+    onChange({ ...variables, [newName]: '' });
+    setNewName('');
+  };
+
+  const handleRemove = (name: string) => {
+    const next = { ...variables };
+    delete next[name];
+    onChange(next);
+  };
+
+  const inputClass = "bg-studio-panel border border-studio-border rounded px-2 py-1 text-xs outline-none focus:border-studio-primary";
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-semibold text-studio-subtext flex items-center gap-1">
+        <Braces size={12} /> VARIABLES
+      </label>
+
+      {names.length === 0 && (
+        <p className="text-[10px] text-gray-500">Write {'{{name}}'} in the system instruction or a message, then set its value here.</p>
+      )}
+
+      {names.map(name => {
+        const inSystem = detected.includes(name);
+        const empty = !variables[name];
+        return (
+          <div key={name} className="flex items-center gap-2">
+            <span
+              className={`w-28 text-xs font-mono truncate ${inSystem && empty ? 'text-yellow-500' : 'text-gray-400'}`}
+              title={inSystem ? `{{${name}}} (used in the system instruction)` : `{{${name}}}`}
+            >
+              {name}
+            </span>
+            <input
+              value={variables[name] || ''}
+              onChange={(e) => onChange({ ...variables, [name]: e.target.value })}
+              placeholder={inSystem ? 'Required' : 'Value'}
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            {inSystem && empty ? (
+              <span className="w-3" />
+            ) : (
+              <button onClick={() => handleRemove(name)} className="text-gray-500 hover:text-red-400" title="Remove value">
+                <Trash size={12} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value.trim())}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          placeholder="New variable name"
+          className={`${inputClass} flex-1 min-w-0 font-mono`}
+        />
+        <button onClick={handleAdd} disabled={!newName || !!nameError} className="text-xs text-studio-primary hover:underline flex items-center gap-1 disabled:opacity-40 disabled:no-underline">
+          <Plus size={12} /> Add
+        </button>
+      </div>
+      {nameError && <p className="text-[10px] text-red-400">{nameError}</p>}
+      <p className="text-[10px] text-gray-500">Saved with this chat. Substituted when a message is sent in chat, economy and bulk mode; the message keeps the values it used.</p>
+    </div>
+  );
+};
+
+export default VariablesEditor;
@@ -1,10 +1,11 @@
 import { ModelConfig } from './types';
 
+// inputTokenLimit = context window (input tokens per request)
 export const AVAILABLE_MODELS = [
-  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', costInput: 0.10, costOutput: 0.40 }, // Cost per 1M tokens (approx)
-  { id: 'gemini-2.5-pro-latest', name: 'Gemini 2.5 Pro', costInput: 3.50, costOutput: 10.50 }, // Updated to 2.5 Pro
-  { id: 'gemini-3-pro-preview', name: 'Gemini 3.0 Pro', costInput: 1.25, costOutput: 5.00 },
-  { id: 'gemini-2.5-flash-thinking', name: 'Gemini 2.5 Flash Thinking', costInput: 0.10, costOutput: 0.40 },
+  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', costInput: 0.10, costOutput: 0.40, inputTokenLimit: 1048576 }, // Cost per 1M tokens (approx)
+  { id: 'gemini-2.5-pro-latest', name: 'Gemini 2.5 Pro', costInput: 3.50, costOutput: 10.50, inputTokenLimit: 1048576 }, // Updated to 2.5 Pro
+  { id: 'gemini-3-pro-preview', name: 'Gemini 3.0 Pro', costInput: 1.25, costOutput: 5.00, inputTokenLimit: 1048576 },
+  { id: 'gemini-2.5-flash-thinking', name: 'Gemini 2.5 Flash Thinking', costInput: 0.10, costOutput: 0.40, inputTokenLimit: 1048576 },
 ];
 
 export const DEFAULT_CONFIG: ModelConfig = {
@@ -13,7 +14,13 @@ export const DEFAULT_CONFIG: ModelConfig = {
   topP: 0.95,
   topK: 64,
   maxOutputTokens: 65536,
-  safetySettings: 'BLOCK_NONE',
+  // What the app always sent before thresholds were configurable
+  safetySettings: {
+    HARM_CATEGORY_HARASSMENT: 'BLOCK_NONE',
+    HARM_CATEGORY_HATE_SPEECH: 'BLOCK_NONE',
+    HARM_CATEGORY_SEXUALLY_EXPLICIT: 'BLOCK_NONE',
+    HARM_CATEGORY_DANGEROUS_CONTENT: 'BLOCK_NONE',
+  },
   thinkingLevel: 'HIGH', 
   enableGoogleSearch: true,
 };
@@ -0,0 +1,57 @@
+import { ChatMessage, MessageAlternate } from '../types';
+
+// --- Answer Alternates ---
+// 同一輪的多個回答 (重新產生 / candidateCount) 存在 message.alternates；
+// message.text 等欄位永遠反映目前選中的那一個。
+
+export const getAlternates = (message: ChatMessage): MessageAlternate[] => {
+    if (message.alternates && message.alternates.length > 0) return message.alternates;
+    return [{
+        text: message.text,
+        thoughtSignature: message.thoughtSignature,
+        timestamp: message.timestamp,
+        isError: message.isError,
+        stopped: message.stopped,
+        thoughts: message.thoughts,
+        grounding: message.grounding,
+        toolRounds: message.toolRounds,
+        codeBlocks: message.codeBlocks,
+        schemaValidation: message.schemaValidation,
+        safety: message.safety,
+        generation: message.generation
+    }];
+};
+
+export const getActiveAlternate = (message: ChatMessage): number => {
+    const count = getAlternates(message).length;
+    return Math.min(Math.max(message.activeAlternate ?? count - 1, 0), count - 1);
+};
+
+export const selectAlternate = (message: ChatMessage, index: number): ChatMessage => {
+    const alternates = getAlternates(message);
+    const alt = alternates[index];
+    if (!alt) return message;
+    return {
+        ...message,
+        text: alt.text,
+        thoughtSignature: alt.thoughtSignature,
+        isError: alt.isError,
+        stopped: alt.stopped,
+        thoughts: alt.thoughts,
+        grounding: alt.grounding,
+        toolRounds: alt.toolRounds,
+        codeBlocks: alt.codeBlocks,
+        schemaValidation: alt.schemaValidation,
+        safety: alt.safety,
+        generation: alt.generation,
+        alternates,
+        activeAlternate: index
+    };
+};
+
+// Writes alternates starting at `firstIndex` (one per candidate) and selects the first of them
+export const writeAlternates = (message: ChatMessage, firstIndex: number, written: MessageAlternate[]): ChatMessage => {
+    const alternates = [...getAlternates(message)];
+    written.forEach((alt, i) => { alternates[firstIndex + i] = alt; });
+    return selectAlternate({ ...message, alternates }, firstIndex);
+};
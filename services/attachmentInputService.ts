@@ -0,0 +1,89 @@
+import { Attachment } from '../types';
+
+// --- Attachment Input Pipeline ---
+// 選檔、拖放、貼上共用同一條流程 (MainChat / EconomyPanel)：檔案 → Attachment。
+// 文字檔可選擇「內嵌為文字」(textContent)，送出時併入訊息本文，而非以 inlineData 傳送。
+
+// Inline request payloads above this are rejected by the API (use a context cache for larger files)
+export const MAX_INLINE_BYTES = 20 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = /\.(txt|md|js|ts|tsx|jsx|json|py|html|css|csv|java|c|cpp|h|xml|yaml|yml)$/i;
+
+export const isTextFile = (file: File): boolean =>
+    file.type.startsWith('text/') || TEXT_EXTENSIONS.test(file.name);
+
+const readAsBase64 = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+export const readFileAsAttachment = async (file: File, inlineText: boolean): Promise<Attachment> => {
+    const isText = isTextFile(file);
+    if (isText && inlineText) {
+        return {
+            name: file.name,
+            mimeType: file.type || 'text/plain',
+            data: '',
+            size: file.size,
+            textContent: await file.text() // Stored for prompt injection
+        };
+    }
+    return {
+        name: file.name,
+        mimeType: file.type || (isText ? 'text/plain' : 'application/octet-stream'),
+        data: await readAsBase64(file),
+        size: file.size
+    };
+};
+
+// Reads every file, keeping their order. Unreadable files are skipped and reported by name.
+export const readFilesAsAttachments = async (
+    files: FileList | File[] | null,
+    inlineText: boolean
+): Promise<{ attachments: Attachment[]; failed: string[] }> => {
+    const list = files ? Array.from(files) : [];
+    const results = await Promise.all(list.map(f => readFileAsAttachment(f, inlineText).catch(e => {
+        console.error(`Failed to read ${f.name}:`, e);
+        return null;
+    })));
+    return {
+        attachments: results.filter((a): a is Attachment => !!a),
+        failed: list.filter((_, i) => !results[i]).map(f => f.name)
+    };
+};
+
+// Files on the clipboard (screenshots arrive as unnamed "image.png", so they get a unique name)
+export const getClipboardFiles = (data: DataTransfer | null): File[] => {
+    if (!data) return [];
+    return Array.from(data.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.getAsFile())
+        .filter((f): f is File => !!f)
+        .map((f, i) => {
+            if (f.name && f.name !== 'image.png') return f;
+            const ext = f.type.split('/')[1] || 'bin';
+            return new File([f], `pasted-${Date.now()}-${i + 1}.${ext}`, { type: f.type });
+        });
+};
+
+const isEmptyAttachment = (att: Attachment): boolean =>
+    att.textContent !== undefined ? !att.textContent : !att.data && !att.hash;
+
+// Text attachments are merged into the message text; the rest stay attachments.
+// Empty files are left out (the API rejects an empty inline part) and listed in `skipped`.
+export const composeMessage = (text: string, attachments: Attachment[]): { text: string; attachments: Attachment[]; skipped: string[] } => {
+    let fullText = '';
+    attachments.forEach(att => {
+        if (att.textContent) {
+            fullText += `\n[FILE START: ${att.name}]\n${att.textContent}\n[FILE END]\n`;
+        }
+    });
+    fullText += text ? (fullText ? `\n${text}` : text) : '';
+    return {
+        text: fullText,
+        attachments: attachments.filter(att => att.textContent === undefined && !isEmptyAttachment(att)),
+        skipped: attachments.filter(isEmptyAttachment).map(att => att.name)
+    };
+};
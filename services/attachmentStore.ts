@@ -0,0 +1,186 @@
+import { Attachment, ChatMessage, CodeExecutionBlock, SessionData } from '../types';
+import { STORES, getRecord, putRecord, getAllRecords, getAllKeys, deleteRecord } from './storageService';
+import { flattenMessageTree, mapMessageTreeAsync } from './branchService';
+
+// --- Content-Addressed Attachment Store ---
+// 附件的 base64 內容只存一份 (以 SHA-256 為 key)，訊息中的 Attachment 只保留 hash 參照。
+// 需要送 API 或顯示時才載入 (lazy)。model 產生的圖片 (code execution / IMAGE modality) 也存在這裡。
+
+export interface BlobRecord {
+    hash: string;
+    mimeType: string;
+    data: string; // Base64
+    size: number; // Decoded byte size
+    createdAt: number;
+}
+
+// Blobs younger than this are never collected: a freshly stored attachment
+// may not be referenced by a persisted session yet.
+const GC_GRACE_PERIOD_MS = 10 * 60 * 1000;
+
+// In-memory cache of loaded payloads (hash -> base64)
+const dataCache = new Map<string, string>();
+
+const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+export const hashBase64 = async (base64: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', base64ToBytes(base64));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Approximate decoded size without decoding
+export const base64ByteSize = (base64: string): number => {
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    return Math.max(0, Math.floor(base64.length * 3 / 4) - padding);
+};
+
+// Stores the payload (once per hash) and returns a reference without inline data.
+export const storeAttachment = async (att: Attachment): Promise<Attachment> => {
+    if (!att.data) return att;
+
+    const hash = await hashBase64(att.data);
+    const size = base64ByteSize(att.data);
+    const existing = await getRecord<BlobRecord>(STORES.BLOBS, hash);
+    if (!existing) {
+        await putRecord<BlobRecord>(STORES.BLOBS, {
+            hash,
+            mimeType: att.mimeType,
+            data: att.data,
+            size,
+            createdAt: Date.now()
+        });
+    }
+    dataCache.set(hash, att.data);
+
+    const { data, ...ref } = att;
+    return { ...ref, hash, size };
+};
+
+export const storeAttachments = (atts: Attachment[]): Promise<Attachment[]> => {
+    return Promise.all(atts.map(storeAttachment));
+};
+
+// Generated images are stored like attachments; other blocks are returned as they are.
+// An image that cannot be stored stays inline rather than failing the answer.
+export const storeCodeBlocks = (blocks: CodeExecutionBlock[]): Promise<CodeExecutionBlock[]> => {
+    return Promise.all(blocks.map(async block => {
+        if (block.kind !== 'image' || !block.data) return block;
+        try {
+            const { hash, size } = await storeAttachment({ name: 'image', mimeType: block.mimeType || 'image/png', data: block.data });
+            const { data, ...ref } = block;
+            return { ...ref, hash, size };
+        } catch (e) {
+            console.error("Failed to store generated image, keeping it inline:", e);
+            return block;
+        }
+    }));
+};
+
+// Image blocks of the message and of all its answers (the message mirrors only the active one)
+export const getImageBlocks = (m: ChatMessage): CodeExecutionBlock[] => [
+    ...(m.codeBlocks || []),
+    ...(m.alternates || []).flatMap(a => a.codeBlocks || [])
+].filter(b => b.kind === 'image');
+
+// Every blob a message refers to
+export const getBlobHashes = (m: ChatMessage): string[] => [
+    ...(m.attachments || []).map(a => a.hash),
+    ...getImageBlocks(m).map(b => b.hash)
+].filter((h): h is string => !!h);
+
+const mapCodeBlocks = async (
+    m: ChatMessage,
+    fn: (blocks: CodeExecutionBlock[]) => Promise<CodeExecutionBlock[]>
+): Promise<ChatMessage> => ({
+    ...m,
+    codeBlocks: m.codeBlocks && await fn(m.codeBlocks),
+    alternates: m.alternates && await Promise.all(m.alternates.map(async a => a.codeBlocks ? { ...a, codeBlocks: await fn(a.codeBlocks) } : a))
+});
+
+const resolveCodeBlocks = (blocks: CodeExecutionBlock[]): Promise<CodeExecutionBlock[]> => {
+    return Promise.all(blocks.map(async block => {
+        if (block.kind !== 'image' || block.data || !block.hash) return block;
+        const data = await loadAttachmentData(block.hash);
+        return data === undefined ? block : { ...block, data };
+    }));
+};
+
+export const loadAttachmentData = async (hash: string): Promise<string | undefined> => {
+    const cached = dataCache.get(hash);
+    if (cached !== undefined) return cached;
+
+    const record = await getRecord<BlobRecord>(STORES.BLOBS, hash);
+    if (record) {
+        dataCache.set(hash, record.data);
+    }
+    return record?.data;
+};
+
+// Fills in `data` for hash references (used before sending to the API or exporting)
+export const resolveAttachment = async (att: Attachment): Promise<Attachment> => {
+    if (att.data || !att.hash) return att;
+    const data = await loadAttachmentData(att.hash);
+    if (data === undefined) {
+        console.warn(`Attachment blob missing: ${att.name} (${att.hash})`);
+        return att;
+    }
+    return { ...att, data };
+};
+
+export const resolveAttachments = (atts: Attachment[] = []): Promise<Attachment[]> => {
+    return Promise.all(atts.map(resolveAttachment));
+};
+
+// Inlines every attachment payload so the session can be exported as a self-contained file
+export const resolveSessionAttachments = async (session: SessionData): Promise<SessionData> => {
+    const messages = await mapMessageTreeAsync(session.messages, async m => {
+        const resolved = m.attachments && m.attachments.length > 0
+            ? { ...m, attachments: await resolveAttachments(m.attachments) }
+            : m;
+        return getImageBlocks(m).length > 0 ? mapCodeBlocks(resolved, resolveCodeBlocks) : resolved;
+    });
+    return { ...session, messages };
+};
+
+// Moves inline payloads (legacy data / imported files) into the blob store.
+// Unchanged sessions keep their object identity so callers can detect what changed.
+export const externalizeSessionAttachments = async (session: SessionData): Promise<SessionData> => {
+    const hasInlineAttachment = (m: ChatMessage) => !!m.attachments?.some(a => !!a.data);
+    const hasInlineImage = (m: ChatMessage) => getImageBlocks(m).some(b => !!b.data);
+    if (!flattenMessageTree(session.messages).some(m => hasInlineAttachment(m) || hasInlineImage(m))) return session;
+
+    const messages = await mapMessageTreeAsync(session.messages, async m => {
+        const stored = hasInlineAttachment(m) ? { ...m, attachments: await storeAttachments(m.attachments!) } : m;
+        return hasInlineImage(m) ? mapCodeBlocks(stored, storeCodeBlocks) : stored;
+    });
+    return { ...session, messages };
+};
+
+// Deletes blobs that no stored session references anymore. Returns the number freed.
+export const collectGarbage = async (): Promise<number> => {
+    const sessions = await getAllRecords<SessionData>(STORES.SESSIONS);
+    const referenced = new Set<string>();
+    sessions.forEach(s => flattenMessageTree(s.messages).forEach(m => getBlobHashes(m).forEach(h => referenced.add(h))));
+
+    // Only keys are listed up front; payloads are read just for unreferenced candidates
+    const hashes = await getAllKeys(STORES.BLOBS);
+    const cutoff = Date.now() - GC_GRACE_PERIOD_MS;
+    let freed = 0;
+
+    for (const hash of hashes) {
+        if (referenced.has(hash)) continue;
+        const record = await getRecord<BlobRecord>(STORES.BLOBS, hash);
+        if (!record || record.createdAt >= cutoff) continue;
+        await deleteRecord(STORES.BLOBS, hash);
+        dataCache.delete(hash);
+        freed++;
+    }
+    return freed;
+};
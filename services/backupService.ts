@@ -0,0 +1,343 @@
+import JSZip from 'jszip';
+import { SessionData, BatchSession, BatchJobRecord, PromptLibraryEntry } from '../types';
+import { APP_VERSION } from '../constants';
+import type { CostRecord } from './costService';
+import { BlobRecord, getBlobHashes } from './attachmentStore';
+import { STORES, StoreName, getAllRecords, getRecord, getAllKeys, putRecords, clearStore } from './storageService';
+import { RecordKind, MigrationReport, createReport, upgradeRecord, currentSchemaVersion } from './schemaService';
+import { loadApiKey, saveApiKey, loadVaultState, setAutoLockMinutes } from './vaultService';
+import { flattenMessageTree } from './branchService';
+import { markToolsImported } from './toolService';
+import { markSnapshotToolsImported } from './promptLibraryService';
+
+// --- Workspace Backup (single zip) ---
+// Layout:
+//   manifest.json              format / versions / counts
+//   settings.json              UI settings, lock auto-lock delay (+ API key if requested)
+//   sessions/<id>.json         chat sessions (attachments as hash references)
+//   blobs/index.json           attachment metadata, blobs/<hash> raw payloads
+//   bulk-sessions/<id>.json    bulk run sessions
+//   batch-jobs.json            async batch job records
+//   cost-history.json          cost records
+//   prompt-library.json        saved system instructions / prompt presets (missing in older backups)
+
+const BACKUP_FORMAT = 'gemini-studio-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+const STORAGE_KEY_CURRENT_SESSION = 'gemini_current_session_id';
+
+export interface BackupManifest {
+    format: string;
+    formatVersion: number;
+    appVersion: string;
+    createdAt: string;
+    includesApiKey: boolean;
+    schemaVersions: Record<RecordKind, number>;
+    counts: {
+        sessions: number;
+        bulkSessions: number;
+        batchJobs: number;
+        costRecords: number;
+        blobs: number;
+        prompts?: number;
+    };
+}
+
+export interface BackupSettings {
+    currentSessionId?: string;
+    autoLockMinutes?: number; // Missing in older backups
+    apiKey?: string;
+}
+
+export interface ParsedBackup {
+    manifest: BackupManifest;
+    settings: BackupSettings;
+    sessions: SessionData[];
+    bulkSessions: BatchSession[];
+    batchJobs: BatchJobRecord[];
+    costRecords: CostRecord[];
+    prompts: PromptLibraryEntry[];
+    blobs: BlobRecord[];
+    report: MigrationReport;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// How to resolve a session / bulk session whose id already exists (merge mode only)
+export type ConflictPolicy = 'newer' | 'keep-both' | 'overwrite' | 'skip';
+
+export interface RestoreResult {
+    added: number;
+    replaced: number;
+    duplicated: number;
+    skipped: number;
+}
+
+// --- Create ---
+
+interface BackupContent {
+    sessions: SessionData[];
+    bulkSessions: BatchSession[];
+    batchJobs: BatchJobRecord[];
+    costRecords: CostRecord[];
+    prompts: PromptLibraryEntry[];
+    blobHashes: string[];
+    includeApiKey: boolean;
+}
+
+export const createWorkspaceBackup = async (options: { includeApiKey: boolean }): Promise<Blob> => {
+    const [sessions, bulkSessions, batchJobs, costRecords, prompts, blobHashes] = await Promise.all([
+        getAllRecords<SessionData>(STORES.SESSIONS),
+        getAllRecords<BatchSession>(STORES.BATCH_SESSIONS),
+        getAllRecords<BatchJobRecord>(STORES.BATCH_JOBS),
+        getAllRecords<CostRecord>(STORES.COST_RECORDS),
+        getAllRecords<PromptLibraryEntry>(STORES.PROMPTS),
+        getAllKeys(STORES.BLOBS),
+    ]);
+    return buildBackupZip({ sessions, bulkSessions, batchJobs, costRecords, prompts, blobHashes, includeApiKey: options.includeApiKey });
+};
+
+// Archive of selected chats / bulk sessions in the backup format, so it can be brought back with Restore (merge)
+export const createArchive = async (sessionIds: string[], bulkSessionIds: string[]): Promise<Blob> => {
+    const [allSessions, allBulkSessions] = await Promise.all([
+        getAllRecords<SessionData>(STORES.SESSIONS),
+        getAllRecords<BatchSession>(STORES.BATCH_SESSIONS),
+    ]);
+    const sessions = allSessions.filter(s => sessionIds.includes(s.id));
+    const bulkSessions = allBulkSessions.filter(s => bulkSessionIds.includes(s.id));
+
+    const blobHashes = new Set<string>();
+    sessions.forEach(s => flattenMessageTree(s.messages).forEach(m => getBlobHashes(m).forEach(h => blobHashes.add(h))));
+
+    return buildBackupZip({ sessions, bulkSessions, batchJobs: [], costRecords: [], prompts: [], blobHashes: [...blobHashes], includeApiKey: false });
+};
+
+const buildBackupZip = async ({ sessions, bulkSessions, batchJobs, costRecords, prompts, blobHashes, includeApiKey }: BackupContent): Promise<Blob> => {
+    const zip = new JSZip();
+
+    sessions.forEach(s => zip.file(`sessions/${s.id}.json`, JSON.stringify(s, null, 2)));
+    bulkSessions.forEach(s => zip.file(`bulk-sessions/${s.id}.json`, JSON.stringify(s, null, 2)));
+    zip.file('batch-jobs.json', JSON.stringify(batchJobs, null, 2));
+    zip.file('cost-history.json', JSON.stringify(costRecords, null, 2));
+    zip.file('prompt-library.json', JSON.stringify(prompts, null, 2));
+
+    // Blobs are read one by one to avoid holding every payload twice in memory
+    const blobIndex: Omit<BlobRecord, 'data'>[] = [];
+    for (const hash of blobHashes) {
+        const blob = await getRecord<BlobRecord>(STORES.BLOBS, hash);
+        if (!blob) continue;
+        zip.file(`blobs/${blob.hash}`, blob.data, { base64: true });
+        blobIndex.push({ hash: blob.hash, mimeType: blob.mimeType, size: blob.size, createdAt: blob.createdAt });
+    }
+    zip.file('blobs/index.json', JSON.stringify(blobIndex, null, 2));
+
+    const settings: BackupSettings = {
+        currentSessionId: localStorage.getItem(STORAGE_KEY_CURRENT_SESSION) || undefined,
+        autoLockMinutes: (await loadVaultState()).autoLockMinutes,
+    };
+    if (includeApiKey) {
+        settings.apiKey = await loadApiKey();
+    }
+    zip.file('settings.json', JSON.stringify(settings, null, 2));
+
+    const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        appVersion: APP_VERSION,
+        createdAt: new Date().toISOString(),
+        includesApiKey: includeApiKey,
+        schemaVersions: {
+            session: currentSchemaVersion('session'),
+            batchSession: currentSchemaVersion('batchSession'),
+            batchJob: currentSchemaVersion('batchJob'),
+            costRecord: currentSchemaVersion('costRecord'),
+            prompt: currentSchemaVersion('prompt'),
+        },
+        counts: {
+            sessions: sessions.length,
+            bulkSessions: bulkSessions.length,
+            batchJobs: batchJobs.length,
+            costRecords: costRecords.length,
+            blobs: blobIndex.length,
+            prompts: prompts.length,
+        },
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+// --- Read ---
+
+const readJson = async (zip: JSZip, path: string): Promise<any> => {
+    const file = zip.file(path);
+    if (!file) return undefined;
+    return JSON.parse(await file.async('string'));
+};
+
+const readFolderJson = async (zip: JSZip, folder: string): Promise<{ path: string; data: any }[]> => {
+    const files = zip.file(new RegExp(`^${folder}/[^/]+\\.json$`));
+    return Promise.all(files.map(async f => ({ path: f.name, data: JSON.parse(await f.async('string')) })));
+};
+
+const upgradeAll = <T>(kind: RecordKind, entries: { path: string; data: any }[], report: MigrationReport): T[] => {
+    return entries
+        .map(e => upgradeRecord<T>(kind, e.data, report, e.path))
+        .filter((r): r is T => r !== null);
+};
+
+export const readWorkspaceBackup = async (file: File): Promise<ParsedBackup> => {
+    const zip = await JSZip.loadAsync(file);
+    const manifest = await readJson(zip, 'manifest.json') as BackupManifest | undefined;
+
+    if (!manifest || manifest.format !== BACKUP_FORMAT) {
+        throw new Error('Not a workspace backup (manifest.json missing or unknown format).');
+    }
+    if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+        throw new Error(`Backup was created by a newer app version (${manifest.appVersion}).`);
+    }
+
+    const report = createReport();
+    const sessions = upgradeAll<SessionData>('session', await readFolderJson(zip, 'sessions'), report);
+    const bulkSessions = upgradeAll<BatchSession>('batchSession', await readFolderJson(zip, 'bulk-sessions'), report);
+
+    const batchJobsRaw = (await readJson(zip, 'batch-jobs.json')) || [];
+    const batchJobs = upgradeAll<BatchJobRecord>('batchJob',
+        (Array.isArray(batchJobsRaw) ? batchJobsRaw : []).map((data: any, i: number) => ({ path: `batch-jobs.json#${i + 1}`, data })), report);
+
+    const costRaw = (await readJson(zip, 'cost-history.json')) || [];
+    const costRecords = upgradeAll<CostRecord>('costRecord',
+        (Array.isArray(costRaw) ? costRaw : []).map((data: any, i: number) => ({ path: `cost-history.json#${i + 1}`, data })), report);
+
+    const promptsRaw = (await readJson(zip, 'prompt-library.json')) || [];
+    const prompts = upgradeAll<PromptLibraryEntry>('prompt',
+        (Array.isArray(promptsRaw) ? promptsRaw : []).map((data: any, i: number) => ({ path: `prompt-library.json#${i + 1}`, data })), report);
+
+    const blobIndex: Omit<BlobRecord, 'data'>[] = (await readJson(zip, 'blobs/index.json')) || [];
+    const blobs: BlobRecord[] = [];
+    for (const meta of blobIndex) {
+        const payload = zip.file(`blobs/${meta.hash}`);
+        if (!payload) {
+            report.rejected.push(`blobs/${meta.hash}: payload missing from archive`);
+            continue;
+        }
+        blobs.push({ ...meta, data: await payload.async('base64') });
+    }
+
+    const settings: BackupSettings = (await readJson(zip, 'settings.json')) || {};
+
+    return { manifest, settings, sessions, bulkSessions, batchJobs, costRecords, prompts, blobs, report };
+};
+
+// --- Restore ---
+
+// Resolves id conflicts for one store in merge mode
+const mergeById = <T extends { id: string }>(
+    incoming: T[],
+    existing: T[],
+    policy: ConflictPolicy,
+    timestampOf: (r: T) => number,
+    withNewId: (r: T) => T,
+    result: RestoreResult
+): T[] => {
+    const existingById = new Map(existing.map(r => [r.id, r]));
+    const toWrite: T[] = [];
+
+    incoming.forEach(r => {
+        const current = existingById.get(r.id);
+        if (!current) {
+            toWrite.push(r);
+            result.added++;
+            return;
+        }
+        switch (policy) {
+            case 'overwrite':
+                toWrite.push(r);
+                result.replaced++;
+                break;
+            case 'newer':
+                if (timestampOf(r) > timestampOf(current)) {
+                    toWrite.push(r);
+                    result.replaced++;
+                } else {
+                    result.skipped++;
+                }
+                break;
+            case 'keep-both':
+                toWrite.push(withNewId(r));
+                result.duplicated++;
+                break;
+            case 'skip':
+                result.skipped++;
+                break;
+        }
+    });
+    return toWrite;
+};
+
+const newId = (id: string) => `${id}-restored-${Date.now().toString(36)}`;
+
+export const restoreWorkspaceBackup = async (
+    backup: ParsedBackup,
+    options: { mode: RestoreMode; conflictPolicy: ConflictPolicy; restoreApiKey: boolean }
+): Promise<RestoreResult> => {
+    const result: RestoreResult = { added: 0, replaced: 0, duplicated: 0, skipped: 0 };
+
+    // Handlers from the backup file ask before they run, like any other import
+    let sessions = backup.sessions.map(s => ({ ...s, config: markToolsImported(s.config) }));
+    let bulkSessions = backup.bulkSessions;
+    let batchJobs = backup.batchJobs;
+    let costRecords = backup.costRecords;
+    let prompts = backup.prompts.map(markSnapshotToolsImported);
+
+    if (options.mode === 'replace') {
+        const stores: StoreName[] = [STORES.SESSIONS, STORES.BATCH_SESSIONS, STORES.BATCH_JOBS, STORES.COST_RECORDS, STORES.PROMPTS, STORES.BLOBS];
+        for (const store of stores) {
+            await clearStore(store);
+        }
+        result.added = sessions.length + bulkSessions.length + prompts.length;
+    } else {
+        const [existingSessions, existingBulk, existingJobIds, existingCostIds, existingPrompts] = await Promise.all([
+            getAllRecords<SessionData>(STORES.SESSIONS),
+            getAllRecords<BatchSession>(STORES.BATCH_SESSIONS),
+            getAllKeys(STORES.BATCH_JOBS),
+            getAllKeys(STORES.COST_RECORDS),
+            getAllRecords<PromptLibraryEntry>(STORES.PROMPTS),
+        ]);
+
+        sessions = mergeById(sessions, existingSessions, options.conflictPolicy, s => s.updatedAt,
+            s => ({ ...s, id: newId(s.id), title: `${s.title} (Restored)` }), result);
+        bulkSessions = mergeById(bulkSessions, existingBulk, options.conflictPolicy, s => s.createdAt,
+            s => ({ ...s, id: newId(s.id), name: `${s.name} (Restored)` }), result);
+        prompts = mergeById(prompts, existingPrompts, options.conflictPolicy, p => p.updatedAt,
+            p => ({ ...p, id: newId(p.id), name: `${p.name} (Restored)` }), result);
+
+        // Job and cost records are append-only history: keep existing ones, add the missing
+        const jobIds = new Set(existingJobIds);
+        batchJobs = batchJobs.filter(j => !jobIds.has(j.id));
+        const costIds = new Set(existingCostIds);
+        costRecords = costRecords.filter(r => !costIds.has(r.id));
+    }
+
+    // Blobs are content-addressed: re-writing an existing hash is harmless
+    await putRecords(STORES.BLOBS, backup.blobs.map(b => ({ ...b, createdAt: Date.now() })));
+    await putRecords(STORES.SESSIONS, sessions);
+    await putRecords(STORES.BATCH_SESSIONS, bulkSessions);
+    await putRecords(STORES.BATCH_JOBS, batchJobs);
+    await putRecords(STORES.COST_RECORDS, costRecords);
+    await putRecords(STORES.PROMPTS, prompts);
+
+    if (options.mode === 'replace' && backup.settings.currentSessionId) {
+        localStorage.setItem(STORAGE_KEY_CURRENT_SESSION, backup.settings.currentSessionId);
+    }
+    // Only applies while the lock is enabled (the delay is kept with it)
+    const { autoLockMinutes } = backup.settings;
+    if (options.mode === 'replace' && typeof autoLockMinutes === 'number' && autoLockMinutes >= 1) {
+        await setAutoLockMinutes(autoLockMinutes);
+    }
+    if (options.restoreApiKey && backup.settings.apiKey) {
+        await saveApiKey(backup.settings.apiKey);
+    }
+
+    return result;
+};
@@ -1,51 +1,42 @@
 import JSZip from 'jszip';
 import { BatchSession, BatchFileItem } from '../types';
+import { STORES, getAllRecords, putRecord, deleteRecord, clearStore, isQuotaError } from './storageService';
+import { broadcast } from './syncService';
 
-const STORAGE_KEY = 'gemini_local_batch_sessions';
+// --- IndexedDB Management ---
 
-// --- LocalStorage Management ---
-
-export const getLocalBatchSessions = (): BatchSession[] => {
+export const getLocalBatchSessions = async (): Promise<BatchSession[]> => {
     try {
-        const stored = localStorage.getItem(STORAGE_KEY);
-        return stored ? JSON.parse(stored) : [];
+        const sessions = await getAllRecords<BatchSession>(STORES.BATCH_SESSIONS);
+        // Newest first
+        return sessions.sort((a, b) => b.createdAt - a.createdAt);
     } catch (e) {
         console.error("Failed to load batch sessions", e);
         return [];
     }
 };
 
-export const saveLocalBatchSession = (session: BatchSession) => {
-    const sessions = getLocalBatchSessions();
-    const index = sessions.findIndex(s => s.id === session.id);
-    
-    if (index >= 0) {
-        sessions[index] = session;
-    } else {
-        sessions.unshift(session); // Add to top
-    }
-    
-    // Safety check: Limit storage size roughly (e.g., keep last 10 sessions only to prevent crash)
-    if (sessions.length > 10) {
-        sessions.pop(); 
-    }
-
+export const saveLocalBatchSession = async (session: BatchSession) => {
     try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+        await putRecord(STORES.BATCH_SESSIONS, session);
+        broadcast({ type: 'bulkSessions' });
     } catch (e) {
         console.error("Storage full or error", e);
-        alert("Warning: Local storage is full. Oldest sessions might be lost or functionality limited.");
+        if (isQuotaError(e)) {
+            alert("Warning: Browser storage is full. Open Storage in the sidebar to archive or delete old sessions and keep saving results.");
+        }
     }
 };
 
-export const deleteLocalBatchSession = (id: string) => {
-    const sessions = getLocalBatchSessions().filter(s => s.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
-    return sessions;
+export const deleteLocalBatchSession = async (id: string) => {
+    await deleteRecord(STORES.BATCH_SESSIONS, id);
+    broadcast({ type: 'bulkSessions' });
+    return getLocalBatchSessions();
 };
 
-export const clearAllLocalBatchSessions = () => {
-    localStorage.removeItem(STORAGE_KEY);
+export const clearAllLocalBatchSessions = async () => {
+    await clearStore(STORES.BATCH_SESSIONS);
+    broadcast({ type: 'bulkSessions' });
 };
 
 // --- File Utilities ---
@@ -70,7 +61,7 @@ export const createZipFromSession = async (session: BatchSession): Promise<Blob>
         const fileName = `${index + 1}_${safeName}.txt`;
         
         // Content: Question + Answer
-        const content = `=== QUESTION ===\n${item.question}\n\n=== ANSWER ===\n${item.answer || (item.errorMsg ? `ERROR: ${item.errorMsg}` : '')}`;
+        const content = `=== QUESTION ===\n${item.resolvedQuestion || item.question}\n\n=== ANSWER ===\n${item.answer || (item.errorMsg ? `ERROR: ${item.errorMsg}` : '')}`;
         
         if (folder) {
             folder.file(fileName, content);
@@ -1,14 +1,14 @@
 import { BatchJobRecord } from '../types';
+import { STORES, getAllRecords, getRecord, putRecord, deleteRecord } from './storageService';
+import { broadcast } from './syncService';
 
-const BATCH_STORAGE_KEY = 'gemini_batch_history';
-
-export const getBatchHistory = (): BatchJobRecord[] => {
-  const stored = localStorage.getItem(BATCH_STORAGE_KEY);
-  return stored ? JSON.parse(stored) : [];
+export const getBatchHistory = async (): Promise<BatchJobRecord[]> => {
+  const history = await getAllRecords<BatchJobRecord>(STORES.BATCH_JOBS);
+  // Newest first
+  return history.sort((a, b) => b.createdAt - a.createdAt);
 };
 
-export const saveBatchJob = (jobName: string, prompt: string): BatchJobRecord => {
-  const history = getBatchHistory();
+export const saveBatchJob = async (jobName: string, prompt: string): Promise<BatchJobRecord> => {
   const newRecord: BatchJobRecord = {
     id: Date.now().toString(),
     jobName,
@@ -17,27 +17,22 @@ export const saveBatchJob = (jobName: string, prompt: string): BatchJobRecord =>
     createdAt: Date.now()
   };
   
-  // Newest first
-  const newHistory = [newRecord, ...history];
-  localStorage.setItem(BATCH_STORAGE_KEY, JSON.stringify(newHistory));
+  await putRecord(STORES.BATCH_JOBS, newRecord);
+  broadcast({ type: 'batchJobs' });
   return newRecord;
 };
 
-export const updateBatchJobStatus = (id: string, status: string, result?: string) => {
-    const history = getBatchHistory();
-    const newHistory = history.map(job => {
-        if (job.id === id) {
-            return { ...job, status, result };
-        }
-        return job;
-    });
-    localStorage.setItem(BATCH_STORAGE_KEY, JSON.stringify(newHistory));
-    return newHistory;
+export const updateBatchJobStatus = async (id: string, status: string, result?: string) => {
+    const job = await getRecord<BatchJobRecord>(STORES.BATCH_JOBS, id);
+    if (job) {
+        await putRecord(STORES.BATCH_JOBS, { ...job, status, result });
+        broadcast({ type: 'batchJobs' });
+    }
+    return getBatchHistory();
 };
 
-export const deleteBatchJob = (id: string) => {
-    const history = getBatchHistory();
-    const newHistory = history.filter(job => job.id !== id);
-    localStorage.setItem(BATCH_STORAGE_KEY, JSON.stringify(newHistory));
-    return newHistory;
+export const deleteBatchJob = async (id: string) => {
+    await deleteRecord(STORES.BATCH_JOBS, id);
+    broadcast({ type: 'batchJobs' });
+    return getBatchHistory();
 };
@@ -0,0 +1,86 @@
+import { ChatMessage } from '../types';
+
+// --- Conversation Branches ---
+// 編輯使用者訊息時不再丟棄後續對話：每個版本 (該訊息 + 之後的所有訊息) 存成分支，
+// 掛在分岔點的使用者訊息上 (message.branches)。session.messages 永遠是目前選中的路徑，
+// 目前路徑在 branches 中的位置只留空陣列，內容以 messages 為準，避免重複儲存。
+
+const withoutBranches = (message: ChatMessage): ChatMessage => {
+    const { branches, activeBranch, ...rest } = message;
+    return rest;
+};
+
+export const getBranchCount = (message: ChatMessage): number =>
+    Array.isArray(message.branches) && message.branches.length > 0 ? message.branches.length : 1;
+
+export const getActiveBranch = (message: ChatMessage): number => {
+    const count = getBranchCount(message);
+    return Math.min(Math.max(message.activeBranch ?? 0, 0), count - 1);
+};
+
+// Replaces the message at `index` with `edited` as a new branch. The old continuation is kept
+// and the returned path ends at the edited message, ready for the model's answer.
+export const forkBranch = (messages: ChatMessage[], index: number, edited: ChatMessage): ChatMessage[] => {
+    const head = messages[index];
+    if (!head) return messages;
+
+    const branches = head.branches && head.branches.length > 0 ? [...head.branches] : [[]];
+    branches[getActiveBranch(head)] = [withoutBranches(head), ...messages.slice(index + 1)];
+    branches.push([]);
+
+    return [
+        ...messages.slice(0, index),
+        { ...withoutBranches(edited), branches, activeBranch: branches.length - 1 }
+    ];
+};
+
+// Makes branch `target` of the message at `index` the active path
+export const selectBranch = (messages: ChatMessage[], index: number, target: number): ChatMessage[] => {
+    const head = messages[index];
+    if (!head?.branches || target === getActiveBranch(head)) return messages;
+    const next = head.branches[target];
+    if (!next || next.length === 0) return messages;
+
+    const branches = [...head.branches];
+    branches[getActiveBranch(head)] = [withoutBranches(head), ...messages.slice(index + 1)];
+    branches[target] = [];
+
+    return [
+        ...messages.slice(0, index),
+        { ...next[0], branches, activeBranch: target },
+        ...next.slice(1)
+    ];
+};
+
+// Every message of the tree: the active path plus all stored branches
+export const flattenMessageTree = (messages: ChatMessage[]): ChatMessage[] =>
+    messages.flatMap(m => [
+        m,
+        ...(Array.isArray(m.branches) ? m.branches.flatMap(b => flattenMessageTree(b)) : [])
+    ]);
+
+// Maps every message of the tree. Unchanged messages / branches keep their object identity,
+// and so does the returned array when nothing changed.
+export const mapMessageTree = (messages: ChatMessage[], fn: (m: ChatMessage) => ChatMessage): ChatMessage[] => {
+    let changed = false;
+    const mapped = messages.map(m => {
+        let next = fn(m);
+        if (Array.isArray(next.branches)) {
+            const branches = next.branches.map(b => mapMessageTree(b, fn));
+            if (branches.some((b, i) => b !== next.branches![i])) next = { ...next, branches };
+        }
+        if (next !== m) changed = true;
+        return next;
+    });
+    return changed ? mapped : messages;
+};
+
+export const mapMessageTreeAsync = async (
+    messages: ChatMessage[],
+    fn: (m: ChatMessage) => Promise<ChatMessage>
+): Promise<ChatMessage[]> => {
+    const all = flattenMessageTree(messages);
+    const results = new Map<ChatMessage, ChatMessage>();
+    await Promise.all(all.map(async m => { results.set(m, await fn(m)); }));
+    return mapMessageTree(messages, m => results.get(m) || m);
+};
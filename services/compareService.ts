@@ -0,0 +1,168 @@
+import { Content } from '@google/genai';
+import { ModelConfig, GroundingInfo, CodeExecutionBlock, SafetyFeedback, SchemaValidation, MessageAlternate, GenerationInfo, GenerationUsage } from '../types';
+import { AVAILABLE_MODELS } from '../constants';
+import { createChatSession, streamMessage } from './geminiService';
+import { classifyError, describeError, formatRetryStatus } from './retryService';
+import { countContentsTokens, estimateTokens, systemInstructionContents } from './tokenService';
+import { createGenerationInfo, parseUsageMetadata } from './generationInfoService';
+import { storeCodeBlocks } from './attachmentStore';
+import { isStructuredOutputActive, validateStructuredResponse } from './structuredOutputService';
+
+// --- Model Comparison ---
+// 同一個 prompt 連同目前 session 的 history 與 system instruction，平行送到 2–4 個 model / config 欄位。
+// 每個欄位各自串流，記錄首字延遲、總時間、token 用量與費用；選中的回答可以併入原本的對話。
+
+export const MIN_COMPARE_COLUMNS = 2;
+export const MAX_COMPARE_COLUMNS = 4;
+
+// What a column changes on top of the session's config
+export interface CompareColumn {
+    id: string;
+    model: string;
+    temperature: number;
+    thinkingLevel: ModelConfig['thinkingLevel'];
+}
+
+export interface CompareResult {
+    status: 'streaming' | 'done' | 'stopped' | 'error';
+    model: string;
+    text: string;
+    thoughts?: string;
+    thoughtSignature?: string;
+    grounding?: GroundingInfo;
+    codeBlocks?: CodeExecutionBlock[];
+    safety?: SafetyFeedback;
+    schemaValidation?: SchemaValidation;
+    error?: string;
+    retryStatus?: string; // Set while waiting for the next attempt
+    startedAt: number;
+    firstTokenMs?: number; // Known while streaming; also part of `generation`
+    finishReason?: string;
+    generation?: GenerationInfo; // Set once the column has finished
+}
+
+const generateId = () => `column-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createColumn = (config: ModelConfig, model: string = config.model): CompareColumn => ({
+    id: generateId(),
+    model,
+    temperature: config.temperature,
+    thinkingLevel: config.thinkingLevel
+});
+
+// The session's model next to the first other listed one
+export const createDefaultColumns = (config: ModelConfig): CompareColumn[] => [
+    createColumn(config),
+    createColumn(config, (AVAILABLE_MODELS.find(m => m.id !== config.model) || AVAILABLE_MODELS[0]).id)
+];
+
+// One answer per column, and no function tools: their call/response loop only runs in the chat view
+export const buildColumnConfig = (config: ModelConfig, column: CompareColumn): ModelConfig => ({
+    ...config,
+    model: column.model,
+    temperature: column.temperature,
+    thinkingLevel: column.thinkingLevel,
+    candidateCount: 1,
+    tools: undefined
+});
+
+// Streams one column. `onUpdate` receives the whole result after every chunk; the final one is also returned.
+// Errors end up in the result rather than being thrown, so one failing column does not affect the others.
+export const runCompareColumn = async (
+    apiKey: string,
+    config: ModelConfig,
+    systemInstruction: string,
+    history: Content[],
+    text: string,
+    cachedContentName: string | undefined,
+    signal: AbortSignal,
+    onUpdate: (result: CompareResult) => void
+): Promise<CompareResult> => {
+    let result: CompareResult = { status: 'streaming', model: config.model, text: '', startedAt: Date.now() };
+    const update = (patch: Partial<CompareResult>) => {
+        result = { ...result, ...patch };
+        onUpdate(result);
+    };
+    let usageMetadata: any;
+    onUpdate(result);
+
+    try {
+        const session = createChatSession(apiKey, config, systemInstruction, history, cachedContentName);
+        const stream = await streamMessage(session, text, [], signal, info => update({ retryStatus: formatRetryStatus(info) }));
+        update({ retryStatus: undefined });
+
+        for await (const chunk of stream) {
+            const candidate = chunk.candidates?.find(c => c.index === 0);
+            // Generated images go to the blob store, so a promoted answer only carries references
+            const newBlocks = candidate?.codeBlocks && candidate.codeBlocks.length > 0 ? await storeCodeBlocks(candidate.codeBlocks) : undefined;
+            const delta = candidate ? candidate.text : chunk.text;
+            const thoughts = candidate ? candidate.thoughts : chunk.thoughts;
+            const patch: Partial<CompareResult> = { text: result.text + delta };
+            if (result.firstTokenMs === undefined && (delta || thoughts)) patch.firstTokenMs = Date.now() - result.startedAt;
+            if (thoughts) patch.thoughts = (result.thoughts || '') + thoughts;
+            if (newBlocks) {
+                const base = result.text.length;
+                patch.codeBlocks = [...(result.codeBlocks || []), ...newBlocks.map(b => ({ ...b, textOffset: base + b.textOffset }))];
+            }
+            const signature = candidate ? candidate.thoughtSignature : chunk.thoughtSignature;
+            if (signature) patch.thoughtSignature = signature;
+            const grounding = candidate ? candidate.grounding : chunk.grounding;
+            if (grounding) patch.grounding = grounding;
+            const safety = chunk.safety?.scope === 'prompt' ? chunk.safety : candidate?.safety;
+            if (safety) patch.safety = safety;
+            if (candidate?.finishReason) patch.finishReason = candidate.finishReason;
+            if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+            update(patch);
+        }
+
+        result = {
+            ...result,
+            status: signal.aborted ? 'stopped' : 'done',
+            schemaValidation: isStructuredOutputActive(config) && !signal.aborted ? validateStructuredResponse(result.text, config) : undefined
+        };
+    } catch (error) {
+        if (!signal.aborted) console.error(error);
+        result = signal.aborted
+            ? { ...result, status: 'stopped' }
+            : { ...result, status: 'error', error: `${describeError(classifyError(error))}: ${(error as any).message}` };
+    }
+    const totalMs = Date.now() - result.startedAt;
+
+    let usage: GenerationUsage | undefined;
+    if (usageMetadata) {
+        usage = parseUsageMetadata(usageMetadata);
+    } else if (result.text || result.status === 'stopped') {
+        // Same fallback as the chat view: count the prompt that was sent, estimate what came back
+        const sent: Content[] = [...systemInstructionContents(systemInstruction), ...history, { role: 'user', parts: [{ text }] }];
+        const count = await countContentsTokens(apiKey, config.model, sent);
+        usage = { promptTokens: count.tokens, candidatesTokens: estimateTokens(result.text), cachedTokens: 0, thinkingTokens: 0, estimated: true };
+    }
+    result = {
+        ...result,
+        retryStatus: undefined,
+        generation: createGenerationInfo(config, {
+            usage,
+            firstTokenMs: result.firstTokenMs,
+            totalMs,
+            finishReason: result.finishReason,
+            cachedContent: cachedContentName
+        })
+    };
+    onUpdate(result);
+    return result;
+};
+
+// The column's answer as an alternate of a model message in the session
+export const toAlternate = (result: CompareResult, sessionModel: string): MessageAlternate => ({
+    text: result.text,
+    // A signature is only meaningful to the model that produced it
+    thoughtSignature: result.model === sessionModel ? result.thoughtSignature : undefined,
+    timestamp: result.startedAt,
+    stopped: result.status === 'stopped' || undefined,
+    thoughts: result.thoughts,
+    grounding: result.grounding,
+    codeBlocks: result.codeBlocks,
+    schemaValidation: result.schemaValidation,
+    safety: result.safety,
+    generation: result.generation
+});
@@ -0,0 +1,138 @@
+import { GoogleGenAI } from "@google/genai";
+import { ChatMessage, ContextPolicy, Role } from '../types';
+import { withRetry, RetryOptions } from './retryService';
+
+// --- Context Policy ---
+// 決定每次請求送出多少對話：全部保留、只保留最後 N 輪 (sliding window)，或把較早的輪次摘要。
+// 摘要是 messages 中的一則 pseudo-message (contextSummary)，可見、可編輯，編輯訊息開分支時也會跟著移動；
+// 送出時它取代它之前的所有訊息。
+
+export const DEFAULT_CONTEXT_POLICY: ContextPolicy = { mode: 'all', keepTurns: 10 };
+
+export interface ContextView {
+    messages: ChatMessage[]; // What is sent as history
+    foldedTurns: number;     // Earlier turns left out (window) or covered by the summary
+    summarized: boolean;
+}
+
+export interface SummaryPlan {
+    fold: ChatMessage[];  // The previous summary (if any) plus the turns folded into the new one
+    insertBefore: string; // First message that stays verbatim; the summary goes right before it
+    foldedTurns: number;
+}
+
+const lastSummaryIndex = (messages: ChatMessage[]): number => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].contextSummary) return i;
+    }
+    return -1;
+};
+
+// A turn starts at each user message; summaries are not turns
+const turnStarts = (messages: ChatMessage[]): number[] =>
+    messages.flatMap((m, i) => m.role === Role.USER && !m.contextSummary ? [i] : []);
+
+const keepCount = (policy: ContextPolicy): number => Math.max(1, policy.keepTurns || DEFAULT_CONTEXT_POLICY.keepTurns);
+
+export const applyContextPolicy = (messages: ChatMessage[], policy: ContextPolicy = DEFAULT_CONTEXT_POLICY): ContextView => {
+    if (policy.mode === 'summarize') {
+        const last = lastSummaryIndex(messages);
+        if (last !== -1) {
+            return { messages: messages.slice(last), foldedTurns: messages[last].contextSummary!.foldedTurns, summarized: true };
+        }
+    }
+    // Summaries are ignored outside 'summarize' mode; the turns they cover are still in the list
+    const plain = messages.filter(m => !m.contextSummary);
+    if (policy.mode === 'window') {
+        const starts = turnStarts(plain);
+        const keep = keepCount(policy);
+        if (starts.length > keep) {
+            return { messages: plain.slice(starts[starts.length - keep]), foldedTurns: starts.length - keep, summarized: false };
+        }
+    }
+    return { messages: plain, foldedTurns: 0, summarized: false };
+};
+
+// Summaries are made in batches rather than on every message: once more than 2 × keepTurns turns
+// follow the latest summary, all but the last keepTurns are folded into a new one
+export const planSummary = (messages: ChatMessage[], policy?: ContextPolicy): SummaryPlan | undefined => {
+    if (policy?.mode !== 'summarize') return undefined;
+    const last = lastSummaryIndex(messages);
+    const previous = last === -1 ? undefined : messages[last];
+    const rest = messages.slice(last + 1);
+    const starts = turnStarts(rest);
+    const keep = keepCount(policy);
+    if (starts.length <= keep * 2) return undefined;
+
+    const cut = starts[starts.length - keep];
+    const folded = rest.slice(0, cut);
+    return {
+        fold: previous ? [previous, ...folded] : folded,
+        insertBefore: rest[cut].id,
+        foldedTurns: (previous?.contextSummary?.foldedTurns || 0) + starts.length - keep
+    };
+};
+
+const SUMMARY_INSTRUCTION = `You condense chat transcripts. Summarize the conversation you are given so the summary can replace it as context for continuing the chat.
+Keep facts, decisions, names, numbers, code identifiers, open questions, and every instruction or preference the user stated. Drop greetings and repetition.
+Reply with concise bullet points only, in the language of the conversation.`;
+
+// Text-only transcript: attachments and function calls are named, not included
+const formatTranscript = (messages: ChatMessage[]): string => messages
+    .filter(m => !m.isError)
+    .map(m => {
+        if (m.contextSummary) return `[Summary of the conversation before this point]\n${m.text}`;
+        const files = (m.attachments || []).map(a => a.name);
+        const calls = (m.toolRounds || []).flatMap(r => r.calls.map(c => c.name));
+        const notes = [
+            ...(files.length > 0 ? [`[attached: ${files.join(', ')}]`] : []),
+            ...(calls.length > 0 ? [`[called: ${calls.join(', ')}]`] : [])
+        ];
+        return `${m.role === Role.USER ? 'User' : 'Model'}: ${[...notes, m.text].join('\n')}`;
+    })
+    .join('\n\n');
+
+export const summarizeMessages = async (
+    apiKey: string,
+    model: string,
+    messages: ChatMessage[],
+    retry: RetryOptions = {}
+): Promise<{ text: string; inputTokens?: number; outputTokens?: number }> => {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await withRetry(() => ai.models.generateContent({
+        model,
+        contents: [{ role: 'user', parts: [{ text: formatTranscript(messages) }] }],
+        config: { systemInstruction: SUMMARY_INSTRUCTION, abortSignal: retry.signal }
+    }), retry);
+    const text = (response.text || '').trim();
+    if (!text) throw new Error("The model returned an empty summary.");
+    return {
+        text,
+        inputTokens: response.usageMetadata?.promptTokenCount,
+        // Thinking is billed as output
+        outputTokens: response.usageMetadata && (response.usageMetadata.candidatesTokenCount || 0) + (response.usageMetadata.thoughtsTokenCount || 0)
+    };
+};
+
+export const createSummaryMessage = (text: string, foldedTurns: number, model: string): ChatMessage => ({
+    id: `summary-${Date.now()}`,
+    role: Role.USER,
+    text,
+    timestamp: Date.now(),
+    contextSummary: { foldedTurns, model }
+});
+
+export const insertSummary = (messages: ChatMessage[], beforeId: string, summary: ChatMessage): ChatMessage[] => {
+    const index = messages.findIndex(m => m.id === beforeId);
+    return index === -1 ? messages : [...messages.slice(0, index), summary, ...messages.slice(index)];
+};
+
+// How the summary is worded in the history sent to the model
+export const formatSummaryForContext = (message: ChatMessage): string =>
+    `Summary of the ${message.contextSummary!.foldedTurns} earlier turns of this conversation (they are not repeated here):\n\n${message.text}`;
+
+export const describeContextView = (view: ContextView): string | undefined => {
+    if (view.foldedTurns === 0) return undefined;
+    const turns = `${view.foldedTurns} earlier turn${view.foldedTurns === 1 ? '' : 's'}`;
+    return view.summarized ? `${turns} summarized` : `${turns} not sent`;
+};
@@ -1,3 +1,7 @@
+import { STORES, getAllRecords, putRecord } from './storageService';
+import { broadcast } from './syncService';
+import { AVAILABLE_MODELS } from '../constants';
+
 export interface CostRecord {
   id: string;
   date: string; // YYYY-MM-DD
@@ -6,37 +10,47 @@ export interface CostRecord {
   inputTokens: number;
   outputTokens: number;
   cost: number;
+  schemaVersion?: number;
 }
 
-const STORAGE_KEY = 'gemini_cost_history';
+// Price of one request in USD. `inputTokens` includes the cached ones, which are billed at roughly 25%.
+// Unknown models are priced as the first listed model.
+export const calculateCost = (model: string, inputTokens: number, outputTokens: number, cachedTokens = 0): number => {
+  const modelData = AVAILABLE_MODELS.find(m => m.id === model) || AVAILABLE_MODELS[0];
+  const billableInput = Math.max(0, inputTokens - cachedTokens);
+  return (billableInput / 1000000 * modelData.costInput) +
+         (cachedTokens / 1000000 * (modelData.costInput * 0.25)) +
+         (outputTokens / 1000000 * modelData.costOutput);
+};
 
-export const getCostHistory = (): CostRecord[] => {
-  const stored = localStorage.getItem(STORAGE_KEY);
-  return stored ? JSON.parse(stored) : [];
+export const getCostHistory = async (): Promise<CostRecord[]> => {
+  const history = await getAllRecords<CostRecord>(STORES.COST_RECORDS);
+  return history.sort((a, b) => a.timestamp - b.timestamp);
 };
 
-export const saveCostRecord = (record: Omit<CostRecord, 'id' | 'timestamp'>) => {
-  const history = getCostHistory();
+export const saveCostRecord = async (record: Omit<CostRecord, 'id' | 'timestamp'>) => {
+  const now = Date.now();
   const newRecord: CostRecord = {
     ...record,
-    id: Date.now().toString(),
-    timestamp: Date.now()
+    // Random suffix: several records can be written within the same millisecond
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: now
   };
-  history.push(newRecord);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  await putRecord(STORES.COST_RECORDS, newRecord);
+  broadcast({ type: 'costs' });
   return newRecord;
 };
 
-export const getDailyCost = (dateStr: string): number => {
-  const history = getCostHistory();
+export const getDailyCost = async (dateStr: string): Promise<number> => {
+  const history = await getCostHistory();
   return history
     .filter(r => r.date === dateStr)
     .reduce((sum, r) => sum + r.cost, 0);
 };
 
-export const getMonthlyCost = (year: number, month: number): number => {
+export const getMonthlyCost = async (year: number, month: number): Promise<number> => {
   // month is 0-indexed (0 = Jan)
-  const history = getCostHistory();
+  const history = await getCostHistory();
   const prefix = `${year}-${(month + 1).toString().padStart(2, '0')}`;
   return history
     .filter(r => r.date.startsWith(prefix))
@@ -1,12 +1,66 @@
-import { GoogleGenAI, GenerateContentResponse, ChatSession, Content, Part } from "@google/genai";
-import { ModelConfig, Attachment, ChatMessage, StreamChunk } from "../types";
+import { GoogleGenAI, GenerateContentResponse, ChatSession, Content, Part, Language, Outcome } from "@google/genai";
+import { ModelConfig, Attachment, ChatMessage, StreamChunk, ToolRound, FunctionCallRecord, CodeExecutionBlock, SafetyFeedback } from "../types";
+import { resolveAttachments } from "./attachmentStore";
+import { parseGroundingMetadata } from "./groundingService";
+import { buildFunctionDeclarations } from "./toolService";
+import { buildStructuredOutputConfig } from "./structuredOutputService";
+import { buildSafetySettings, parsePromptFeedback, parseCandidateSafety } from "./safetyService";
+import { withRetry, RetryOptions } from "./retryService";
+import { formatSummaryForContext } from "./contextPolicyService";
+
+// Function call steps of a model turn: the model's calls, then our responses as a user turn
+const formatToolRounds = (rounds: ToolRound[]): Content[] => rounds.flatMap(round => [
+  {
+    role: 'model',
+    parts: [
+      ...(round.text ? [{ text: round.text }] : []),
+      ...round.calls.map(c => ({
+        functionCall: { id: c.id, name: c.name, args: c.args },
+        ...(c.thoughtSignature ? { thoughtSignature: c.thoughtSignature } : {})
+      }))
+    ]
+  },
+  {
+    role: 'user',
+    parts: round.calls.map(c => ({
+      functionResponse: { id: c.id, name: c.name, response: c.response || {} }
+    }))
+  }
+]);
+
+// Helper to format history for the SDK (attachment payloads are loaded from the blob store)
+// Answer text with the code the model ran and its results put back where they occurred (inverse of extractCodeBlocks).
+// Generated images are not sent back.
+const formatAnswerParts = (text: string, blocks: CodeExecutionBlock[]): Part[] => {
+  const parts: Part[] = [];
+  let last = 0;
+  const pushText = (end: number) => {
+    if (end > last) parts.push({ text: text.slice(last, end) });
+    last = Math.max(last, end);
+  };
+  blocks.forEach(block => {
+    if (block.kind === 'image') return;
+    pushText(Math.min(block.textOffset, text.length));
+    parts.push(block.kind === 'code'
+      ? { executableCode: { language: block.language as Language, code: block.code || '' } }
+      : { codeExecutionResult: { outcome: block.outcome as Outcome, output: block.output || '' } });
+  });
+  pushText(text.length);
+  return parts.length > 0 ? parts : [{ text }];
+};
 
-// Helper to format history for the SDK
-export const formatHistory = (messages: ChatMessage[]): Content[] => {
-  return messages.map(msg => {
-    let parts: Part[] = [{ text: msg.text }];
+export const formatHistory = async (messages: ChatMessage[]): Promise<Content[]> => {
+  const contents = await Promise.all(messages.map(async msg => {
+    // Summary pseudo-message (see services/contextPolicyService): sent as user context
+    if (msg.contextSummary) {
+        return [{ role: 'user', parts: [{ text: formatSummaryForContext(msg) }] }];
+    }
+    let parts: Part[] = msg.role === 'model' && msg.codeBlocks && msg.codeBlocks.length > 0
+      ? formatAnswerParts(msg.text, msg.codeBlocks)
+      : [{ text: msg.text }];
     if (msg.attachments && msg.attachments.length > 0) {
-       const attParts = msg.attachments.map(att => ({
+       const resolved = await resolveAttachments(msg.attachments);
+       const attParts = resolved.map(att => ({
           inlineData: {
              mimeType: att.mimeType,
              data: att.data
@@ -25,8 +79,29 @@ export const formatHistory = (messages: ChatMessage[]): Content[] => {
         content.thoughtSignature = msg.thoughtSignature;
     }
 
-    return content;
-  });
+    if (msg.role === 'model' && msg.toolRounds && msg.toolRounds.length > 0) {
+        return [...formatToolRounds(msg.toolRounds), content];
+    }
+    return [content];
+  }));
+  return contents.flat();
+};
+
+// Sampling parameters shared by the chat, bulk and economy requests; unset options are left to the API defaults
+export const buildSamplingConfig = (config: ModelConfig): Record<string, unknown> => {
+  const sampling: Record<string, unknown> = {
+    temperature: config.temperature,
+    topP: config.topP,
+    topK: config.topK,
+    maxOutputTokens: config.maxOutputTokens,
+  };
+  const stopSequences = (config.stopSequences || []).filter(s => s.length > 0);
+  if (stopSequences.length > 0) sampling.stopSequences = stopSequences;
+  if (config.presencePenalty) sampling.presencePenalty = config.presencePenalty;
+  if (config.frequencyPenalty) sampling.frequencyPenalty = config.frequencyPenalty;
+  if (config.seed !== undefined) sampling.seed = config.seed;
+  if (config.responseModalities && config.responseModalities.length > 0) sampling.responseModalities = config.responseModalities;
+  return sampling;
 };
 
 export const createChatSession = (
@@ -40,12 +115,15 @@ export const createChatSession = (
   const modelId = config.model;
   
   // 建立 Generation Config
-  const generationConfig: any = {
-    temperature: config.temperature,
-    topP: config.topP,
-    topK: config.topK,
-    maxOutputTokens: config.maxOutputTokens,
-  };
+  const generationConfig: any = buildSamplingConfig(config);
+
+  const functionDeclarations = cachedContentName ? [] : buildFunctionDeclarations(config.tools);
+
+  // Several answers per call; each one becomes an alternate of the model message.
+  // Not with function tools: the call/response loop follows a single answer.
+  if (config.candidateCount && config.candidateCount > 1 && functionDeclarations.length === 0) {
+      generationConfig.candidateCount = config.candidateCount;
+  }
 
   if (modelId.includes('gemini-3')) {
       generationConfig.thinkingLevel = config.thinkingLevel || 'HIGH'; 
@@ -53,16 +131,17 @@ export const createChatSession = (
       generationConfig.thinkingConfig = { thinkingBudget: 1024 };
   }
 
-  // 設定 Safety Settings
-  const safetySettings = [
-      { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_NONE" },
-      { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_NONE" },
-      { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_NONE" },
-      { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_NONE" },
-  ];
-  
+  // Thought summaries arrive as separate parts flagged `thought`
+  if (config.includeThoughts) {
+      generationConfig.thinkingConfig = { ...generationConfig.thinkingConfig, includeThoughts: true };
+  }
+
+  // JSON mode: also applies with a context cache (it is part of the generation config, not a tool)
+  Object.assign(generationConfig, buildStructuredOutputConfig(config));
+
+  // 設定 Safety Settings (每個類別的門檻，見 RightPanel)
   // 將 safetySettings 加入 generationConfig (SDK 結構需求)
-  generationConfig.safetySettings = safetySettings;
+  generationConfig.safetySettings = buildSafetySettings(config);
 
   // --- FIX: 依照 API 文件，cachedContent 必須放在 config 物件內 ---
   if (cachedContentName) {
@@ -73,8 +152,18 @@ export const createChatSession = (
         generationConfig.systemInstruction = systemInstruction;
     }
     // Tools 也是
+    const tools: any[] = [];
     if (config.enableGoogleSearch) {
-        generationConfig.tools = [{ googleSearch: {} }];
+        tools.push({ googleSearch: {} });
+    }
+    if (config.enableCodeExecution) {
+        tools.push({ codeExecution: {} });
+    }
+    if (functionDeclarations.length > 0) {
+        tools.push({ functionDeclarations });
+    }
+    if (tools.length > 0) {
+        generationConfig.tools = tools;
     }
   }
 
@@ -91,7 +180,7 @@ export const generateSingleContent = async (
   config: ModelConfig,
   prompt: string,
   cachedContentName?: string
-): Promise<{ text: string; usageMetadata?: any }> => {
+): Promise<{ text: string; usageMetadata?: any; safety?: SafetyFeedback }> => {
   // Reuse the batch logic but wait for full text
   return generateBatchContent(apiKey, config, prompt, cachedContentName);
 };
@@ -102,37 +191,41 @@ export const generateBatchContent = async (
   config: ModelConfig,
   prompt: string,
   cachedContentName?: string,
-  onFirstToken?: () => void
-): Promise<{ text: string; usageMetadata?: any }> => {
+  onFirstToken?: () => void,
+  retry?: RetryOptions
+): Promise<{ text: string; usageMetadata?: any; safety?: SafetyFeedback }> => {
   const ai = new GoogleGenAI({ apiKey });
   const modelId = config.model;
 
   // 1. 準備 Config 物件 (這是 API 讀取設定的關鍵位置)
-  const generationConfig: any = {
-    temperature: config.temperature,
-    topP: config.topP,
-    topK: config.topK,
-    maxOutputTokens: config.maxOutputTokens,
-  };
+  const generationConfig: any = buildSamplingConfig(config);
 
   if (modelId.includes('gemini-3')) {
       generationConfig.thinkingLevel = config.thinkingLevel || 'HIGH';
   }
 
+  // candidateCount is not applied here: a bulk item keeps a single answer
+  Object.assign(generationConfig, buildStructuredOutputConfig(config));
+  generationConfig.safetySettings = buildSafetySettings(config);
+
   // 重要修正：依照文件，cachedContent 必須位於 config 物件內
   if (cachedContentName) {
     generationConfig.cachedContent = cachedContentName;
   }
 
+  if (retry?.signal) generationConfig.abortSignal = retry.signal;
+
+  // Only opening the stream is retried: once chunks arrive, a failure would re-bill the whole request
   // 2. 發送請求，注意 config 的層級結構
-  const result = await ai.models.generateContentStream({
+  const result = await withRetry(() => ai.models.generateContentStream({
       model: modelId,
       contents: [{ role: 'user', parts: [{ text: prompt }] }],
       config: generationConfig // <--- 這裡！所有參數包含 cachedContent 都必須包在這裡面
-  });
-  
+  }), retry);
+
   let fullText = '';
   let finalMetadata = undefined;
+  let safety: SafetyFeedback | undefined;
   let firstTokenReceived = false;
 
   for await (const chunk of result) {
@@ -140,7 +233,7 @@ export const generateBatchContent = async (
           firstTokenReceived = true;
           if (onFirstToken) onFirstToken();
       }
-      
+    
       let text = '';
       if (typeof (chunk as any).text === 'function') {
           text = (chunk as any).text();
@@ -152,7 +245,8 @@ export const generateBatchContent = async (
       }
 
       if (text) fullText += text;
-      
+      safety = parsePromptFeedback((chunk as any).promptFeedback) || parseCandidateSafety(chunk.candidates?.[0]) || safety;
+    
       if (chunk.usageMetadata) {
           finalMetadata = chunk.usageMetadata;
       }
@@ -160,7 +254,8 @@ export const generateBatchContent = async (
 
   return {
       text: fullText,
-      usageMetadata: finalMetadata
+      usageMetadata: finalMetadata,
+      safety
   };
 };
 
@@ -170,7 +265,8 @@ export const createCache = async (
   file: File,
   ttlSeconds: number,
   systemInstruction?: string,
-  enableGoogleSearch?: boolean
+  enableGoogleSearch?: boolean,
+  retry?: RetryOptions
 ): Promise<{ name: string; sizeBytes: number }> => {
   const ai = new GoogleGenAI({ apiKey });
   
@@ -212,10 +308,10 @@ export const createCache = async (
   // The API limitation requires us to choose between cache or dynamic tools in the request.
   // We prioritize cache functionality here.
 
-  const cache = await ai.caches.create({
+  const cache = await withRetry(() => ai.caches.create({
       model: model,
       config: cacheConfig
-  });
+  }), retry);
 
   return { 
     name: cache.name, 
@@ -229,10 +325,35 @@ export const deleteCache = async (apiKey: string, cacheName: string): Promise<vo
   await ai.caches.delete({ name: cacheName });
 };
 
+// executableCode / codeExecutionResult / inline image parts (code execution plots or IMAGE output), positioned by the answer text before them
+export const extractCodeBlocks = (parts: any[] | undefined): CodeExecutionBlock[] => {
+  const blocks: CodeExecutionBlock[] = [];
+  let offset = 0;
+  (parts || []).forEach(p => {
+    if (p.thought) return;
+    if (typeof p.text === 'string') {
+      offset += p.text.length;
+    } else if (p.executableCode) {
+      blocks.push({ kind: 'code', textOffset: offset, language: p.executableCode.language, code: p.executableCode.code || '' });
+    } else if (p.codeExecutionResult) {
+      blocks.push({ kind: 'result', textOffset: offset, outcome: p.codeExecutionResult.outcome, output: p.codeExecutionResult.output || '' });
+    } else if (p.inlineData?.mimeType?.startsWith('image/')) {
+      blocks.push({ kind: 'image', textOffset: offset, mimeType: p.inlineData.mimeType, data: p.inlineData.data });
+    }
+  });
+  return blocks;
+};
+
+// Text of either the answer parts or the thought-summary parts
+const joinParts = (parts: any[] | undefined, thought: boolean): string =>
+  (parts || []).filter(p => !!p.thought === thought).map(p => p.text || '').join('');
+
 export const streamMessage = async (
   session: ChatSession, 
   message: string, 
-  attachments: Attachment[]
+  attachments: Attachment[],
+  signal?: AbortSignal,
+  onRetry?: RetryOptions['onRetry']
 ): Promise<AsyncGenerator<StreamChunk, void, unknown>> => {
   
   let contentPart: any = { text: message };
@@ -241,7 +362,8 @@ export const streamMessage = async (
   if (attachments && attachments.length > 0) {
     // Note: For large files (>20MB), consider using the Files API (ai.files.upload) 
     // instead of inlineData to avoid payload size limits.
-    const attachmentParts = attachments.map(att => ({
+    const resolved = await resolveAttachments(attachments);
+    const attachmentParts = resolved.map(att => ({
       inlineData: {
         mimeType: att.mimeType,
         data: att.data
@@ -250,24 +372,74 @@ export const streamMessage = async (
     parts = [...attachmentParts, ...parts];
   }
 
-  // Updated to use 'message' property as required by @google/genai SDK
-  const result = await session.sendMessageStream({
+  return streamParts(session, parts, signal, onRetry);
+};
+
+// Sends the results of the model's function calls and streams its next step
+export const streamFunctionResponses = (
+  session: ChatSession,
+  calls: FunctionCallRecord[],
+  signal?: AbortSignal,
+  onRetry?: RetryOptions['onRetry']
+): Promise<AsyncGenerator<StreamChunk, void, unknown>> => {
+  const parts = calls.map(c => ({
+    functionResponse: { id: c.id, name: c.name, response: c.response || {} }
+  }));
+  return streamParts(session, parts, signal, onRetry);
+};
+
+const streamParts = async (
+  session: ChatSession,
+  parts: any[],
+  signal?: AbortSignal,
+  onRetry?: RetryOptions['onRetry']
+): Promise<AsyncGenerator<StreamChunk, void, unknown>> => {
+  // Only opening the stream is retried: once chunks arrive they are already on screen.
+  // A failed send leaves the chat history untouched, so it can simply be repeated.
+  const result = await withRetry<AsyncGenerator<GenerateContentResponse>>(() => session.sendMessageStream({
+    // Updated to use 'message' property as required by @google/genai SDK
     message: {
       role: 'user',
       parts: parts
-    }
-  });
+    },
+    // A per-message config replaces the session's one, so the abort signal is added on top of it
+    ...(signal ? { config: { ...(session as any).config, abortSignal: signal } } : {})
+  }), { signal, onRetry });
 
   async function* generator() {
     for await (const chunk of result) {
        const c = chunk as any;
+       // c.text already leaves out thought parts
        const text = c.text ? c.text : '';
+       const thoughts = joinParts(c.candidates?.[0]?.content?.parts, true);
+       const grounding = parseGroundingMetadata(c.candidates?.[0]?.groundingMetadata);
        const thoughtSignature = c.candidates?.[0]?.thoughtSignature;
+       // A blocked prompt arrives as a chunk without candidates
+       const safety = parsePromptFeedback(c.promptFeedback) || parseCandidateSafety(c.candidates?.[0]);
+       const functionCalls: FunctionCallRecord[] = (c.candidates?.[0]?.content?.parts || [])
+           .filter((p: any) => p.functionCall)
+           .map((p: any) => ({
+               id: p.functionCall.id,
+               name: p.functionCall.name,
+               args: p.functionCall.args || {},
+               thoughtSignature: p.thoughtSignature
+           }));
        // @ts-ignore - Google SDK types might not be fully updated for usageMetadata in stream chunks yet
        const usageMetadata = c.usageMetadata;
+       // With candidateCount > 1 a chunk may carry deltas for any candidate (c.text only covers the first)
+       const candidates = (c.candidates || []).map((cand: any, i: number) => ({
+           index: cand.index ?? i,
+           text: joinParts(cand.content?.parts, false),
+           thoughts: joinParts(cand.content?.parts, true),
+           thoughtSignature: cand.thoughtSignature,
+           grounding: parseGroundingMetadata(cand.groundingMetadata),
+           codeBlocks: extractCodeBlocks(cand.content?.parts),
+           safety: parseCandidateSafety(cand),
+           finishReason: cand.finishReason
+       }));
        
-       if (text || thoughtSignature || usageMetadata) {
-         yield { text, thoughtSignature, usageMetadata };
+       if (text || thoughts || thoughtSignature || grounding || safety || functionCalls.length > 0 || usageMetadata || candidates.length > 0) {
+         yield { text, thoughts, thoughtSignature, grounding, safety, functionCalls, candidates, usageMetadata };
        }
     }
   }
@@ -275,10 +447,6 @@ export const streamMessage = async (
   return generator();
 };
 
-export const estimateTokens = (text: string): number => {
-  return Math.ceil(text.length / 4);
-};
-
 const fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -373,7 +541,8 @@ export const createCacheFromContent = async (
     model: string,
     contents: Content[],
     ttlSeconds: number,
-    systemInstruction?: string
+    systemInstruction?: string,
+    retry?: RetryOptions
 ): Promise<{ name: string; sizeBytes: number }> => {
     const ai = new GoogleGenAI({ apiKey });
 
@@ -389,10 +558,10 @@ export const createCacheFromContent = async (
     }
 
     // 呼叫 API 建立 Cache
-    const cache = await ai.caches.create({
+    const cache = await withRetry(() => ai.caches.create({
         model: model,
         config: cacheConfig
-    });
+    }), retry);
 
     return {
         name: cache.name,
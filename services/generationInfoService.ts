@@ -0,0 +1,74 @@
+import { GenerationInfo, GenerationUsage, ModelConfig } from '../types';
+import { AVAILABLE_MODELS } from '../constants';
+import { calculateCost } from './costService';
+
+// --- Generation Metadata ---
+// 每個 model 回答都記錄產生它的 model、實際送出的 config、token 用量、延遲、finish reason 與費用，
+// session 設定之後再改也查得到；資料存在訊息上，所以會跟著 session 匯出 / 備份。
+
+export const parseUsageMetadata = (meta: any): GenerationUsage => ({
+    promptTokens: meta?.promptTokenCount || 0,
+    candidatesTokens: meta?.candidatesTokenCount || 0,
+    cachedTokens: meta?.cachedContentTokenCount || 0,
+    thinkingTokens: meta?.thoughtsTokenCount || 0
+});
+
+// thoughtsTokenCount is reported apart from candidatesTokenCount but billed as output
+export const billedOutputTokens = (usage: GenerationUsage): number => usage.candidatesTokens + usage.thinkingTokens;
+
+// Every function call round is a request of its own; the answer reports their sum
+export const addUsage = (total: GenerationUsage | undefined, usage: GenerationUsage): GenerationUsage => total ? {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    candidatesTokens: total.candidatesTokens + usage.candidatesTokens,
+    cachedTokens: total.cachedTokens + usage.cachedTokens,
+    thinkingTokens: total.thinkingTokens + usage.thinkingTokens,
+    estimated: total.estimated || usage.estimated || undefined
+} : usage;
+
+export const createGenerationInfo = (
+    config: ModelConfig,
+    fields: Omit<GenerationInfo, 'model' | 'config' | 'cost'>
+): GenerationInfo => ({
+    model: config.model,
+    config,
+    ...fields,
+    cost: fields.usage
+        ? calculateCost(config.model, fields.usage.promptTokens, billedOutputTokens(fields.usage), fields.usage.cachedTokens)
+        : undefined
+});
+
+export const formatDuration = (ms?: number): string =>
+    ms === undefined ? '—' : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const getModelName = (model: string) => AVAILABLE_MODELS.find(m => m.id === model)?.name || model;
+
+// Label / value rows shown in the message info popover and added to message downloads
+export const describeGeneration = (info: GenerationInfo): [string, string][] => {
+    const rows: [string, string][] = [['Model', `${getModelName(info.model)} (${info.model})`]];
+    if (info.finishReason) rows.push(['Finish reason', info.finishReason]);
+    rows.push(['First token', formatDuration(info.firstTokenMs)], ['Total time', formatDuration(info.totalMs)]);
+    if (info.usage) {
+        const { promptTokens, candidatesTokens, cachedTokens, thinkingTokens } = info.usage;
+        rows.push(['Prompt tokens', `${promptTokens.toLocaleString()}${cachedTokens ? ` (${cachedTokens.toLocaleString()} cached)` : ''}`]);
+        rows.push(['Output tokens', candidatesTokens.toLocaleString()]);
+        if (thinkingTokens) rows.push(['Thinking tokens', thinkingTokens.toLocaleString()]);
+    } else {
+        rows.push(['Tokens', 'Not reported']);
+    }
+    if (info.cost !== undefined) rows.push(['Cost', `$${info.cost.toFixed(6)}${info.sharedBy ? ` for all ${info.sharedBy} answers` : ''}`]);
+    const { config } = info;
+    rows.push(['Sampling', `temperature ${config.temperature} · top P ${config.topP} · top K ${config.topK} · max ${config.maxOutputTokens.toLocaleString()}`]);
+    if (config.model.includes('gemini-3')) rows.push(['Thinking level', config.thinkingLevel]);
+    const tools = [
+        config.enableGoogleSearch && 'Google Search',
+        config.enableCodeExecution && 'code execution',
+        config.tools && config.tools.length > 0 && `${config.tools.length} function(s)`,
+        config.structuredOutput?.enabled && 'JSON schema'
+    ].filter(Boolean);
+    if (tools.length > 0) rows.push(['Tools', tools.join(', ')]);
+    if (info.cachedContent) rows.push(['Context cache', info.cachedContent]);
+    return rows;
+};
+
+export const formatGenerationInfo = (info: GenerationInfo): string =>
+    describeGeneration(info).map(([label, value]) => `${label}: ${value}`).join('\n');
@@ -0,0 +1,64 @@
+import { GroundingInfo } from '../types';
+
+// --- Google Search Grounding ---
+// 將 API 的 groundingMetadata 轉成精簡、可存檔的 GroundingInfo，並在顯示時於句尾插入引用標記 [n]。
+
+// Citation markers are prefixed with an invisible separator so literal "[1]" in an answer is never mistaken for one
+export const CITATION_MARKER = /\u2063\[(\d+)\]/g;
+
+export const parseGroundingMetadata = (raw: any): GroundingInfo | undefined => {
+    if (!raw) return undefined;
+    const sources = (raw.groundingChunks || []).map((c: any) => ({
+        uri: c.web?.uri || c.retrievedContext?.uri || '',
+        title: c.web?.title || c.retrievedContext?.title
+    }));
+    const supports = (raw.groundingSupports || [])
+        .filter((s: any) => s.segment && Array.isArray(s.groundingChunkIndices) && s.groundingChunkIndices.length > 0)
+        .map((s: any) => ({
+            startIndex: s.segment.startIndex || 0,
+            endIndex: s.segment.endIndex || 0,
+            sourceIndices: s.groundingChunkIndices
+        }));
+    const queries: string[] = raw.webSearchQueries || [];
+    const searchEntryPoint: string | undefined = raw.searchEntryPoint?.renderedContent;
+
+    if (sources.length === 0 && queries.length === 0 && !searchEntryPoint) return undefined;
+    return { sources, supports, queries, searchEntryPoint };
+};
+
+// Inserts "[n]" markers (1-based source numbers) at the end of every supported segment.
+// Segment offsets are UTF-8 byte positions, so the insertion works on the encoded text.
+// `byteOffset` is where `text` starts within the full answer, when only a slice of it is rendered.
+export const insertCitationMarkers = (text: string, grounding?: GroundingInfo, byteOffset: number = 0): string => {
+    if (!grounding || grounding.supports.length === 0) return text;
+
+    const bytes = new TextEncoder().encode(text);
+    const decoder = new TextDecoder();
+    const markersAt = new Map<number, Set<number>>();
+    grounding.supports.forEach(s => {
+        const relative = s.endIndex - byteOffset;
+        if (relative <= 0 || relative > bytes.length) return; // Belongs to another slice
+        const end = relative;
+        const set = markersAt.get(end) || new Set<number>();
+        s.sourceIndices.forEach(i => { if (grounding.sources[i]) set.add(i + 1); });
+        if (set.size > 0) markersAt.set(end, set);
+    });
+
+    let result = '';
+    let last = 0;
+    [...markersAt.keys()].sort((a, b) => a - b).forEach(end => {
+        result += decoder.decode(bytes.slice(last, end));
+        result += [...markersAt.get(end)!].sort((a, b) => a - b).map(n => `\u2063[${n}]`).join('');
+        last = end;
+    });
+    return result + decoder.decode(bytes.slice(last));
+};
+
+export const getSourceLabel = (source: { uri: string; title?: string }): string => {
+    if (source.title) return source.title;
+    try {
+        return new URL(source.uri).hostname;
+    } catch {
+        return source.uri;
+    }
+};
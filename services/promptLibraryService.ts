@@ -0,0 +1,222 @@
+import { ModelConfig, PromptKind, PromptLibraryEntry, PromptVersion } from '../types';
+import { MigrationReport, createReport, upgradeRecord, stampSchemaVersion } from './schemaService';
+import { markToolsImported } from './toolService';
+
+// --- Prompt Library ---
+// 儲存常用的 system instruction 與 prompt preset：名稱、標籤、model config 快照與完整版本歷史。
+// 可匯出 / 匯入 JSON 與團隊共用；匯入相同 id 的項目時只補上尚未存在的版本，不會覆寫本地的修改。
+
+const LIBRARY_FORMAT = 'gemini-studio-prompt-library';
+const LIBRARY_FORMAT_VERSION = 1;
+
+const generateId = () => `prompt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getCurrentVersion = (entry: PromptLibraryEntry): PromptVersion => entry.versions[entry.versions.length - 1];
+
+export const createPromptEntry = (
+    name: string,
+    kind: PromptKind,
+    text: string,
+    config?: ModelConfig,
+    tags: string[] = []
+): PromptLibraryEntry => {
+    const now = Date.now();
+    return {
+        id: generateId(),
+        name,
+        kind,
+        tags,
+        versions: [{ version: 1, text, config, createdAt: now }],
+        createdAt: now,
+        updatedAt: now
+    };
+};
+
+// The imported flag on tools is not part of the snapshot's content
+const sameConfig = (a?: ModelConfig, b?: ModelConfig) =>
+    JSON.stringify(a ? markToolsImported(a) : null) === JSON.stringify(b ? markToolsImported(b) : null);
+const sameVersion = (a: PromptVersion, b: PromptVersion) => a.text === b.text && sameConfig(a.config, b.config);
+
+// Returns the entry unchanged when neither the text nor the config snapshot differs from the current version
+export const addPromptVersion = (entry: PromptLibraryEntry, text: string, config?: ModelConfig, note?: string): PromptLibraryEntry => {
+    const current = getCurrentVersion(entry);
+    const now = Date.now();
+    const next: PromptVersion = { version: current.version + 1, text, config, note: note || undefined, createdAt: now };
+    if (sameVersion(current, next)) return entry;
+    return { ...entry, versions: [...entry.versions, next], updatedAt: now };
+};
+
+export const parseTags = (input: string): string[] => [...new Set(input.split(',').map(t => t.trim()).filter(Boolean))];
+
+export const getAllTags = (entries: PromptLibraryEntry[]): string[] => [...new Set(entries.flatMap(e => e.tags))].sort();
+
+export const filterPrompts = (entries: PromptLibraryEntry[], query: string, kind?: PromptKind, tag?: string): PromptLibraryEntry[] => {
+    const q = query.trim().toLowerCase();
+    return entries.filter(e =>
+        (!kind || e.kind === kind) &&
+        (!tag || e.tags.includes(tag)) &&
+        (!q || e.name.toLowerCase().includes(q) || e.tags.some(t => t.toLowerCase().includes(q)) || getCurrentVersion(e).text.toLowerCase().includes(q))
+    );
+};
+
+// --- Diff ---
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Above this the LCS table gets too large; the texts are then shown as fully replaced
+const MAX_DIFF_CELLS = 4000000;
+
+// Line diff via longest common subsequence
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [...a.map(text => ({ type: 'removed' as const, text })), ...b.map(text => ({ type: 'added' as const, text }))];
+    }
+
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ type: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            lines.push({ type: 'removed', text: a[i++] });
+        } else {
+            lines.push({ type: 'added', text: b[j++] });
+        }
+    }
+    while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+    while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+    return lines;
+};
+
+export const getImportedHandlers = (snapshot: ModelConfig) =>
+    (snapshot.tools || []).filter(t => t.imported && t.handlerType === 'javascript');
+
+// Snapshots are migrated and validated when the library is read. Functions with imported
+// JavaScript handlers are left out unless `includeImportedHandlers` is set.
+export const applyConfigSnapshot = (config: ModelConfig, snapshot: ModelConfig, includeImportedHandlers: boolean): ModelConfig => {
+    if (includeImportedHandlers || !snapshot.tools) return { ...config, ...snapshot };
+    const imported = getImportedHandlers(snapshot);
+    return { ...config, ...snapshot, tools: snapshot.tools.filter(t => !imported.includes(t)) };
+};
+
+const formatConfigValue = (value: unknown): string =>
+    value === undefined ? '(unset)' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// "temperature: 1 → 0.7" for every config field that differs between two snapshots
+export const describeConfigChanges = (before?: ModelConfig, after?: ModelConfig): string[] => {
+    if (!before && !after) return [];
+    if (!before || !after) return [after ? 'Model config snapshot added' : 'Model config snapshot removed'];
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])] as (keyof ModelConfig)[];
+    return keys
+        .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+        .map(key => `${key}: ${formatConfigValue(before[key])} → ${formatConfigValue(after[key])}`);
+};
+
+// --- Import / Export ---
+
+export const exportPromptLibrary = (entries: PromptLibraryEntry[]): string => JSON.stringify({
+    format: LIBRARY_FORMAT,
+    formatVersion: LIBRARY_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    prompts: entries.map(e => stampSchemaVersion('prompt', e))
+}, null, 2);
+
+// JavaScript handlers in config snapshots from a file must be approved before they run
+export const markSnapshotToolsImported = (entry: PromptLibraryEntry): PromptLibraryEntry => ({
+    ...entry,
+    versions: entry.versions.map(v => v.config ? { ...v, config: markToolsImported(v.config) } : v)
+});
+
+// Versions are renumbered in order; missing timestamps are filled in
+const normalizeEntry = (entry: PromptLibraryEntry): PromptLibraryEntry => {
+    const now = Date.now();
+    const versions = markSnapshotToolsImported(entry).versions
+        .map((v, i) => ({ ...v, version: i + 1, createdAt: typeof v.createdAt === 'number' ? v.createdAt : now }));
+    return {
+        ...entry,
+        versions,
+        createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : versions[0].createdAt,
+        updatedAt: typeof entry.updatedAt === 'number' ? entry.updatedAt : versions[versions.length - 1].createdAt
+    };
+};
+
+// Accepts a library export, a bare list of entries, or a single entry
+export const parsePromptLibrary = (json: string): { entries: PromptLibraryEntry[]; report: MigrationReport } => {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (data?.format === LIBRARY_FORMAT && data.formatVersion > LIBRARY_FORMAT_VERSION) {
+        throw new Error('The library was exported by a newer app version.');
+    }
+    const raw = Array.isArray(data) ? data
+        : data?.format === LIBRARY_FORMAT ? data.prompts
+        : Array.isArray(data?.versions) ? [data]
+        : null;
+    if (!Array.isArray(raw)) throw new Error('Not a prompt library export.');
+
+    const report = createReport();
+    const entries = raw
+        .map((r: any, i: number) => upgradeRecord<PromptLibraryEntry>('prompt', r, report, `Prompt #${i + 1}${typeof r?.name === 'string' ? ` "${r.name}"` : ''}`))
+        .filter((e): e is PromptLibraryEntry => e !== null)
+        .map(normalizeEntry);
+    return { entries, report };
+};
+
+export interface PromptImportResult {
+    added: number;
+    updated: number;
+    unchanged: number;
+}
+
+// New ids are added as they are. For an id that already exists, the imported versions that are not
+// present yet are appended (local edits are never overwritten) and the tags are merged.
+export const mergePromptLibrary = (
+    existing: PromptLibraryEntry[],
+    incoming: PromptLibraryEntry[]
+): { toWrite: PromptLibraryEntry[]; result: PromptImportResult } => {
+    const result: PromptImportResult = { added: 0, updated: 0, unchanged: 0 };
+    const byId = new Map(existing.map(e => [e.id, e]));
+    const toWrite: PromptLibraryEntry[] = [];
+
+    incoming.forEach(entry => {
+        const current = byId.get(entry.id);
+        if (!current) {
+            toWrite.push(entry);
+            result.added++;
+            return;
+        }
+        const missing = entry.versions.filter(v => !current.versions.some(c => sameVersion(c, v)));
+        if (missing.length === 0) {
+            result.unchanged++;
+            return;
+        }
+        const last = getCurrentVersion(current).version;
+        toWrite.push({
+            ...current,
+            tags: [...new Set([...current.tags, ...entry.tags])],
+            versions: [...current.versions, ...missing.map((v, i) => ({ ...v, version: last + i + 1 }))],
+            updatedAt: Date.now()
+        });
+        result.updated++;
+    });
+    return { toWrite, result };
+};
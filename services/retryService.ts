@@ -0,0 +1,139 @@
+// --- Retry Policy ---
+// 所有 Gemini API 呼叫共用的重試邏輯：先將錯誤分類 (配額、過載、參數錯誤、授權、安全...)，
+// 只重試暫時性的錯誤；優先採用 API 提供的 retryDelay，否則使用帶 jitter 的指數退避。
+
+export type ApiErrorKind =
+    | 'quota'            // 429 RESOURCE_EXHAUSTED
+    | 'overloaded'       // 503 UNAVAILABLE / "model is overloaded"
+    | 'server'           // 500 INTERNAL, 504 DEADLINE_EXCEEDED
+    | 'network'          // fetch failed before a response arrived
+    | 'invalid_argument' // 400 / 404: the request itself is wrong
+    | 'auth'             // 401 / 403, invalid API key
+    | 'safety'           // blocked content
+    | 'aborted'          // stopped by the user
+    | 'unknown';
+
+export interface ClassifiedError {
+    kind: ApiErrorKind;
+    retryable: boolean;
+    status?: number;
+    retryAfterMs?: number; // Server hint (RetryInfo.retryDelay / Retry-After)
+    message: string;
+}
+
+export interface RetryAttempt {
+    attempt: number;      // The attempt that is about to start (2 = first retry)
+    maxAttempts: number;
+    delayMs: number;
+    error: ClassifiedError;
+}
+
+export interface RetryOptions {
+    signal?: AbortSignal;
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    onRetry?: (info: RetryAttempt) => void;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 2000;
+const DEFAULT_MAX_DELAY_MS = 60000;
+
+const KIND_LABELS: Record<ApiErrorKind, string> = {
+    quota: 'Rate limit or quota exceeded',
+    overloaded: 'Model overloaded',
+    server: 'Server error',
+    network: 'Network error',
+    invalid_argument: 'Invalid request',
+    auth: 'API key rejected',
+    safety: 'Blocked by safety filters',
+    aborted: 'Stopped',
+    unknown: 'Request failed'
+};
+
+// "32s" / "1.5s" in RetryInfo, or a Retry-After value in seconds
+const parseRetryDelay = (message: string): number | undefined => {
+    const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(message) || /retry[- ]after[":\s]+(\d+(?:\.\d+)?)/i.exec(message);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+export const classifyError = (error: any, signal?: AbortSignal): ClassifiedError => {
+    const message: string = error?.message || String(error);
+    const status: number | undefined = typeof error?.status === 'number' ? error.status
+        : Number(/got status:\s*(\d{3})/.exec(message)?.[1]) || Number(/"code"\s*:\s*(\d{3})/.exec(message)?.[1]) || undefined;
+    const has = (...needles: string[]) => needles.some(n => message.includes(n));
+    const result = (kind: ApiErrorKind, retryable: boolean): ClassifiedError => ({
+        kind,
+        retryable,
+        status,
+        retryAfterMs: retryable ? parseRetryDelay(message) : undefined,
+        message
+    });
+
+    if (signal?.aborted || error?.name === 'AbortError') return result('aborted', false);
+    if (status === 429 || has('RESOURCE_EXHAUSTED')) {
+        // A daily quota does not come back within any sensible backoff
+        return result('quota', !/PerDay/i.test(message));
+    }
+    if (status === 401 || status === 403 || has('UNAUTHENTICATED', 'PERMISSION_DENIED', 'API key not valid', 'API_KEY_INVALID')) {
+        return result('auth', false);
+    }
+    if (status === 503 || has('UNAVAILABLE', 'overloaded')) return result('overloaded', true);
+    if (status === 500 || status === 502 || status === 504 || has('INTERNAL', 'DEADLINE_EXCEEDED')) return result('server', true);
+    if (status === 400 || status === 404 || has('INVALID_ARGUMENT', 'FAILED_PRECONDITION', 'NOT_FOUND')) {
+        return result('invalid_argument', false);
+    }
+    if (has('SAFETY', 'PROHIBITED_CONTENT', 'blocked')) return result('safety', false);
+    // Only a failed fetch: any other TypeError is a bug and must not repeat (and re-bill) the request
+    if (has('Failed to fetch', 'fetch failed', 'NetworkError', 'network error', 'Load failed')) {
+        return result('network', true);
+    }
+    return result('unknown', false);
+};
+
+export const describeError = (error: ClassifiedError): string =>
+    `${KIND_LABELS[error.kind]}${error.status ? ` (${error.status})` : ''}`;
+
+export const formatRetryStatus = (info: RetryAttempt): string =>
+    `${describeError(info.error)} — retrying in ${Math.ceil(info.delayMs / 1000)}s (attempt ${info.attempt} of ${info.maxAttempts})`;
+
+// Full jitter: a random delay up to the exponential cap, never below the server's hint
+export const getRetryDelay = (retryNumber: number, error: ClassifiedError, baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS): number => {
+    const cap = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, retryNumber - 1));
+    const jittered = cap / 2 + Math.random() * cap / 2;
+    return Math.round(Math.max(jittered, error.retryAfterMs || 0));
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new DOMException('Stopped', 'AbortError'));
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Stopped', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs `fn` until it succeeds, the error is not retryable, or the attempts run out.
+// The last error is rethrown unchanged so callers keep their own error handling.
+export const withRetry = async <T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn(attempt);
+        } catch (e) {
+            const error = classifyError(e, options.signal);
+            if (!error.retryable || attempt >= maxAttempts) throw e;
+            const delayMs = getRetryDelay(attempt, error, options.baseDelayMs, options.maxDelayMs);
+            options.onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, error });
+            await sleep(delayMs, options.signal);
+        }
+    }
+};
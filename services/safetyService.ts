@@ -0,0 +1,71 @@
+import { SafetySetting, HarmCategory, HarmBlockThreshold } from '@google/genai';
+import { ModelConfig, HarmCategoryName, HarmThreshold, SafetyFeedback } from '../types';
+
+// --- Safety Settings & Feedback ---
+// 每個類別各自的封鎖門檻 (未設定 = API 預設)，以及被擋下時的原因與 safety ratings。
+
+export const SAFETY_CATEGORIES: { id: HarmCategoryName; label: string }[] = [
+    { id: 'HARM_CATEGORY_HARASSMENT', label: 'Harassment' },
+    { id: 'HARM_CATEGORY_HATE_SPEECH', label: 'Hate speech' },
+    { id: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', label: 'Sexually explicit' },
+    { id: 'HARM_CATEGORY_DANGEROUS_CONTENT', label: 'Dangerous content' },
+    { id: 'HARM_CATEGORY_CIVIC_INTEGRITY', label: 'Civic integrity' },
+];
+
+export const SAFETY_THRESHOLDS: { id: HarmThreshold; label: string }[] = [
+    { id: 'OFF', label: 'Off' },
+    { id: 'BLOCK_NONE', label: 'Block none' },
+    { id: 'BLOCK_ONLY_HIGH', label: 'Block few' },
+    { id: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Block some' },
+    { id: 'BLOCK_LOW_AND_ABOVE', label: 'Block most' },
+];
+
+// Categories without a threshold are left out so the API default applies
+// (the names equal the SDK's HarmCategory / HarmBlockThreshold enum values)
+export const buildSafetySettings = (config: ModelConfig): SafetySetting[] =>
+    SAFETY_CATEGORIES
+        .filter(c => config.safetySettings?.[c.id])
+        .map(c => ({ category: c.id as HarmCategory, threshold: config.safetySettings[c.id] as HarmBlockThreshold }));
+
+// Finish reasons that mean the answer was withheld or cut off by a filter
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_SAFETY'];
+
+const parseRatings = (raw: any[] | undefined) => (raw || []).map((r: any) => ({
+    category: r.category || 'HARM_CATEGORY_UNSPECIFIED',
+    probability: r.probability || 'NEGLIGIBLE',
+    blocked: r.blocked || undefined
+}));
+
+// The prompt itself was rejected: no candidates are returned
+export const parsePromptFeedback = (raw: any): SafetyFeedback | undefined => {
+    if (!raw?.blockReason) return undefined;
+    return {
+        scope: 'prompt',
+        reason: raw.blockReason,
+        message: raw.blockReasonMessage,
+        ratings: parseRatings(raw.safetyRatings)
+    };
+};
+
+export const parseCandidateSafety = (candidate: any): SafetyFeedback | undefined => {
+    if (!candidate?.finishReason || !BLOCKING_FINISH_REASONS.includes(candidate.finishReason)) return undefined;
+    return {
+        scope: 'response',
+        reason: candidate.finishReason,
+        message: candidate.finishMessage,
+        ratings: parseRatings(candidate.safetyRatings)
+    };
+};
+
+export const getCategoryLabel = (category: string): string =>
+    SAFETY_CATEGORIES.find(c => c.id === category)?.label
+    || category.replace('HARM_CATEGORY_', '').toLowerCase().replace(/_/g, ' ');
+
+// One-line summary for plain-text places (bulk errors, exports)
+export const describeSafetyFeedback = (feedback: SafetyFeedback): string => {
+    const flagged = feedback.ratings
+        .filter(r => r.blocked || r.probability === 'HIGH' || r.probability === 'MEDIUM')
+        .map(r => `${getCategoryLabel(r.category)}: ${r.probability.toLowerCase()}`);
+    const subject = feedback.scope === 'prompt' ? 'Prompt blocked' : 'Response blocked';
+    return `${subject} (${feedback.reason})${flagged.length > 0 ? ` — ${flagged.join(', ')}` : ''}`;
+};
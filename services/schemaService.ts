@@ -0,0 +1,453 @@
+import { Role, ModelConfig } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+
+// --- Persisted Data Schema & Migrations ---
+// 每筆持久化資料都帶有 schemaVersion。讀取時依版本逐步升級 (migration registry)，
+// 升級後再做嚴格驗證；無法修復的資料會被拒絕並列入報告。
+
+export type RecordKind = 'session' | 'batchSession' | 'batchJob' | 'costRecord' | 'prompt';
+
+export interface MigrationReport {
+  repaired: string[];
+  rejected: string[];
+}
+
+// Upgrades a record from version N to N+1 (index N in the registry)
+type Migration = (record: any, report: MigrationReport) => any;
+// Same for a model config on its own (inside a session, or a prompt library snapshot)
+type ConfigMigration = (config: any, label: string, report: MigrationReport) => any;
+
+// Records written before versioning existed have no schemaVersion and count as version 0
+const LEGACY_VERSION = 0;
+
+export const createReport = (): MigrationReport => ({ repaired: [], rejected: [] });
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const generateId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// --- v0 -> v1 ---
+
+const migrateConfigV0: ConfigMigration = (config, label, report) => {
+  if (!isObject(config)) {
+    report.repaired.push(`${label}: missing config, using defaults`);
+    return { ...DEFAULT_CONFIG };
+  }
+  const merged: any = { ...DEFAULT_CONFIG, ...config };
+  (Object.keys(DEFAULT_CONFIG) as (keyof typeof DEFAULT_CONFIG)[]).forEach(key => {
+    if (key === 'safetySettings') return; // Converted by the v1 -> v2 migration
+    if (typeof merged[key] !== typeof DEFAULT_CONFIG[key]) {
+      report.repaired.push(`${label}: invalid config.${key}, reset to default`);
+      merged[key] = DEFAULT_CONFIG[key];
+    }
+  });
+  return merged;
+};
+
+
+const migrateSessionV0: Migration = (raw, report) => {
+  const label = `Session "${raw.title || raw.id || '?'}"`;
+  const session: any = { ...raw };
+
+  if (typeof session.id !== 'string' || !session.id) {
+    session.id = generateId();
+    report.repaired.push(`${label}: missing id, generated ${session.id}`);
+  }
+  if (typeof session.title !== 'string') {
+    session.title = 'Untitled Prompt';
+    report.repaired.push(`${label}: missing title`);
+  }
+  if (typeof session.systemInstruction !== 'string') {
+    session.systemInstruction = '';
+    if (raw.systemInstruction !== undefined) report.repaired.push(`${label}: invalid system instruction cleared`);
+  }
+  if (!isFiniteNumber(session.updatedAt)) {
+    session.updatedAt = Date.now();
+    report.repaired.push(`${label}: missing updatedAt`);
+  }
+  session.config = migrateConfigV0(session.config, label, report);
+  // Messages are checked for every version by checkSessionMessages
+  return session;
+};
+
+const VALID_ITEM_STATUS = ['pending', 'loading', 'success', 'error'];
+
+const migrateBatchSessionV0: Migration = (raw, report) => {
+  const label = `Bulk session "${raw.name || raw.id || '?'}"`;
+  const session: any = { ...raw };
+
+  if (typeof session.id !== 'string' || !session.id) {
+    session.id = generateId();
+    report.repaired.push(`${label}: missing id`);
+  }
+  if (typeof session.name !== 'string') {
+    session.name = `Session-${session.id}`;
+    report.repaired.push(`${label}: missing name`);
+  }
+  if (!isFiniteNumber(session.createdAt)) {
+    session.createdAt = Date.now();
+    report.repaired.push(`${label}: missing createdAt`);
+  }
+  if (!Array.isArray(session.items)) return session; // Rejected by validation
+
+  session.items = session.items
+    .map((it: any, i: number) => {
+      const itemLabel = `${label} item #${i + 1}`;
+      if (!isObject(it) || typeof it.question !== 'string') {
+        report.rejected.push(`${itemLabel}: missing question, dropped`);
+        return null;
+      }
+      const item: any = { ...it };
+      if (typeof item.id !== 'string') item.id = `${session.id}-${i}`;
+      if (typeof item.originalFileName !== 'string') item.originalFileName = `${i + 1}.txt`;
+      if (typeof item.answer !== 'string') item.answer = '';
+      if (!VALID_ITEM_STATUS.includes(item.status)) {
+        item.status = item.answer ? 'success' : 'pending';
+        report.repaired.push(`${itemLabel}: unknown status, set to ${item.status}`);
+      } else if (item.status === 'loading') {
+        // A reload interrupted the run; the request never finished
+        item.status = 'pending';
+        report.repaired.push(`${itemLabel}: interrupted run, reset to pending`);
+      }
+      return item;
+    })
+    .filter(Boolean);
+
+  // Counters are derived data; recompute instead of trusting them
+  session.totalFiles = session.items.length;
+  session.completedFiles = session.items.filter((i: any) => i.status === 'success' || i.status === 'error').length;
+  session.isFinished = session.completedFiles === session.totalFiles;
+  return session;
+};
+
+const migrateBatchJobV0: Migration = (raw, report) => {
+  const label = `Batch job "${raw.jobName || raw.id || '?'}"`;
+  const job: any = { ...raw };
+  if (typeof job.id !== 'string' || !job.id) {
+    job.id = generateId();
+    report.repaired.push(`${label}: missing id`);
+  }
+  if (typeof job.status !== 'string') {
+    job.status = 'JOB_STATE_PENDING';
+    report.repaired.push(`${label}: missing status`);
+  }
+  if (typeof job.promptPreview !== 'string') job.promptPreview = '';
+  if (!isFiniteNumber(job.createdAt)) {
+    job.createdAt = Date.now();
+    report.repaired.push(`${label}: missing createdAt`);
+  }
+  return job;
+};
+
+const migrateCostRecordV0: Migration = (raw, report) => {
+  const label = `Cost record ${raw.id || '?'}`;
+  const record: any = { ...raw };
+  if (typeof record.id !== 'string' || !record.id) {
+    record.id = generateId();
+    report.repaired.push(`${label}: missing id`);
+  }
+  if (!isFiniteNumber(record.timestamp)) {
+    const parsed = typeof record.date === 'string' ? Date.parse(record.date) : NaN;
+    record.timestamp = Number.isFinite(parsed) ? parsed : Date.now();
+    report.repaired.push(`${label}: missing timestamp`);
+  }
+  if (typeof record.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(record.date)) {
+    record.date = new Date(record.timestamp).toISOString().split('T')[0];
+    report.repaired.push(`${label}: date derived from timestamp`);
+  }
+  if (typeof record.model !== 'string') record.model = 'unknown';
+  if (!isFiniteNumber(record.inputTokens)) record.inputTokens = 0;
+  if (!isFiniteNumber(record.outputTokens)) record.outputTokens = 0;
+  return record;
+};
+
+// --- v1 -> v2 ---
+// config.safetySettings was an unused string ('BLOCK_NONE'); it is now a per-category threshold map.
+// The requests always used BLOCK_NONE for the four standard categories, which is the new default.
+
+const migrateConfigV1: ConfigMigration = (config, label, report) => {
+  if (!isObject(config)) return config; // Rejected by validation
+  const current = config.safetySettings;
+  const valid = isObject(current) && Object.values(current).every(v => typeof v === 'string');
+  if (valid) return config;
+  if (current !== undefined && current !== 'BLOCK_NONE') {
+    report.repaired.push(`${label}: safety settings reset to the defaults`);
+  }
+  return { ...config, safetySettings: { ...DEFAULT_CONFIG.safetySettings } };
+};
+
+const migrateSessionV1: Migration = (raw, report) => ({
+  ...raw,
+  config: migrateConfigV1(raw.config, `Session "${raw.title || raw.id}"`, report)
+});
+
+// --- Config Registry ---
+// A new config migration is appended here and gets a session migration that applies it (like v1 above).
+// Prompt library snapshots record the config version they were saved at and are upgraded from there on read.
+
+const CONFIG_MIGRATIONS: ConfigMigration[] = [migrateConfigV0, migrateConfigV1];
+
+export const currentConfigVersion = (): number => CONFIG_MIGRATIONS.length;
+
+// Returns null (and a "rejected" entry) for a config that is not usable
+export const upgradeConfig = (raw: unknown, fromVersion: number, report: MigrationReport, label: string): ModelConfig | null => {
+  if (!isObject(raw) || typeof raw.model !== 'string' || !raw.model) {
+    report.rejected.push(`${label}: config has no model`);
+    return null;
+  }
+  let config: any = raw;
+  for (let version = fromVersion; version < CONFIG_MIGRATIONS.length; version++) {
+    config = CONFIG_MIGRATIONS[version](config, label, report);
+  }
+  return config;
+};
+
+// Snapshots written before they were versioned count as config version 0.
+// An unusable snapshot is dropped (reported by upgradeConfig); the version's text is kept.
+const upgradePromptSnapshots = (prompt: any, report: MigrationReport, label: string) => {
+  if (!Array.isArray(prompt.versions)) return prompt; // Rejected by validation
+  const target = currentConfigVersion();
+  const stale = (v: any) => isObject(v) && v.config !== undefined && (!isFiniteNumber(v.configVersion) || v.configVersion < target);
+  if (!prompt.versions.some(stale)) return prompt;
+  return {
+    ...prompt,
+    versions: prompt.versions.map((v: any, i: number) => {
+      if (!stale(v)) return v;
+      const versionLabel = `${label} v${v.version ?? i + 1}`;
+      const config = upgradeConfig(v.config, isFiniteNumber(v.configVersion) ? v.configVersion : LEGACY_VERSION, report, versionLabel);
+      if (!config) {
+        const { config: _dropped, configVersion: _version, ...rest } = v;
+        return rest;
+      }
+      return { ...v, config, configVersion: target };
+    })
+  };
+};
+
+// --- Message Tree Checks (every session, whatever its version) ---
+// Runs before validation on records that are already current too (imports, restores, other tabs),
+// so a malformed message is dropped and reported instead of breaking rendering.
+// Unchanged lists and messages keep their object identity, so nothing is written back needlessly.
+
+const checkAttachments = (attachments: unknown, label: string, report: MigrationReport) => {
+  if (attachments === undefined) return undefined;
+  if (!Array.isArray(attachments)) {
+    report.repaired.push(`${label}: attachments was not a list, dropped`);
+    return undefined;
+  }
+  const valid = attachments.filter((att, i) => {
+    const ok = isObject(att) && typeof att.name === 'string' && typeof att.mimeType === 'string'
+      && (typeof att.data === 'string' || typeof att.hash === 'string');
+    if (!ok) report.rejected.push(`${label}: attachment #${i + 1} has no name/type/payload, dropped`);
+    return ok;
+  });
+  return valid.length === attachments.length ? attachments : valid;
+};
+
+const checkAlternates = (alternates: unknown, label: string, report: MigrationReport) => {
+  if (alternates === undefined) return undefined;
+  if (!Array.isArray(alternates)) {
+    report.repaired.push(`${label}: alternates was not a list, dropped`);
+    return undefined;
+  }
+  const valid = alternates.filter((alt, i) => {
+    const ok = isObject(alt) && typeof alt.text === 'string';
+    if (!ok) report.rejected.push(`${label}: answer #${i + 1} has no text, dropped`);
+    return ok;
+  });
+  if (valid.length === alternates.length) return alternates;
+  return valid.length > 0 ? valid : undefined;
+};
+
+const checkMessage = (m: any, label: string, fallbackTime: number, report: MigrationReport): any => {
+  const msg: any = { ...m };
+  let changed = false;
+  if (typeof msg.text !== 'string') {
+    msg.text = msg.text === undefined || msg.text === null ? '' : String(msg.text);
+    report.repaired.push(`${label}: text converted to string`);
+    changed = true;
+  }
+  if (typeof msg.id !== 'string' || !msg.id) {
+    msg.id = generateId();
+    report.repaired.push(`${label}: missing id`);
+    changed = true;
+  }
+  if (!isFiniteNumber(msg.timestamp)) {
+    msg.timestamp = fallbackTime;
+    changed = true;
+  }
+  const replace = (key: string, value: unknown) => {
+    if (value === m[key]) return;
+    if (value === undefined) delete msg[key];
+    else msg[key] = value;
+    changed = true;
+  };
+  replace('attachments', checkAttachments(m.attachments, label, report));
+  replace('alternates', checkAlternates(m.alternates, label, report));
+  if (m.branches !== undefined) {
+    if (!Array.isArray(m.branches)) {
+      report.repaired.push(`${label}: branches was not a list, dropped`);
+      replace('branches', undefined);
+      replace('activeBranch', undefined);
+    } else {
+      const branches = m.branches
+        .map((b: unknown, i: number) => {
+          const branchLabel = `${label} version #${i + 1}`;
+          if (!Array.isArray(b)) {
+            report.rejected.push(`${branchLabel}: not a list of messages, dropped`);
+            return null;
+          }
+          const checked = checkMessageList(b, branchLabel, fallbackTime, report);
+          // The active version is stored empty; any other version that lost all its messages is gone
+          if (checked.length === 0 && b.length > 0) {
+            report.rejected.push(`${branchLabel}: no valid messages left, dropped`);
+            return null;
+          }
+          return checked;
+        })
+        .filter(Boolean);
+      const same = branches.length === m.branches.length && branches.every((b: any, i: number) => b === m.branches[i]);
+      if (!same && branches.length > 1) {
+        replace('branches', branches);
+      } else if (!same) {
+        // Only the active version is left: the message is no longer forked
+        replace('branches', undefined);
+        replace('activeBranch', undefined);
+      }
+    }
+  }
+  return changed ? msg : m;
+};
+
+const checkMessageList = (messages: unknown[], label: string, fallbackTime: number, report: MigrationReport): any[] => {
+  let changed = false;
+  const checked = messages
+    .map((m, i) => {
+      const msgLabel = `${label} message #${i + 1}`;
+      if (!isObject(m) || (m.role !== Role.USER && m.role !== Role.MODEL)) {
+        report.rejected.push(`${msgLabel}: unknown role, dropped`);
+        changed = true;
+        return null;
+      }
+      const msg = checkMessage(m, msgLabel, fallbackTime, report);
+      if (msg !== m) changed = true;
+      return msg;
+    })
+    .filter(Boolean);
+  return changed ? checked : messages;
+};
+
+const checkSessionMessages = (session: any, report: MigrationReport, label: string) => {
+  if (!Array.isArray(session.messages)) return session; // Rejected by validation
+  const fallbackTime = isFiniteNumber(session.updatedAt) ? session.updatedAt : Date.now();
+  const messages = checkMessageList(session.messages, label, fallbackTime, report);
+  return messages === session.messages ? session : { ...session, messages };
+};
+
+// --- Registry ---
+// Append a function to a list to introduce a new version of that record kind.
+
+const MIGRATIONS: Record<RecordKind, Migration[]> = {
+  session: [migrateSessionV0, migrateSessionV1],
+  batchSession: [migrateBatchSessionV0],
+  batchJob: [migrateBatchJobV0],
+  costRecord: [migrateCostRecordV0],
+  prompt: [], // Introduced after versioning: v0 is the first format
+};
+
+export const currentSchemaVersion = (kind: RecordKind): number => MIGRATIONS[kind].length;
+
+// --- Strict Validation (runs after migration) ---
+
+const VALIDATORS: Record<RecordKind, (r: any) => string[]> = {
+  session: (s) => {
+    const errors: string[] = [];
+    if (typeof s.id !== 'string') errors.push('id must be a string');
+    if (!Array.isArray(s.messages)) errors.push('messages must be a list');
+    if (!isObject(s.config) || typeof s.config.model !== 'string') errors.push('config.model must be a string');
+    return errors;
+  },
+  batchSession: (s) => {
+    const errors: string[] = [];
+    if (typeof s.id !== 'string') errors.push('id must be a string');
+    if (!Array.isArray(s.items)) errors.push('items must be a list');
+    return errors;
+  },
+  batchJob: (j) => {
+    const errors: string[] = [];
+    if (typeof j.jobName !== 'string' || !j.jobName) errors.push('jobName is required');
+    return errors;
+  },
+  costRecord: (r) => {
+    const errors: string[] = [];
+    if (!isFiniteNumber(r.cost) || r.cost < 0) errors.push('cost must be a non-negative number');
+    return errors;
+  },
+  prompt: (p) => {
+    const errors: string[] = [];
+    if (typeof p.id !== 'string') errors.push('id must be a string');
+    if (typeof p.name !== 'string') errors.push('name must be a string');
+    if (p.kind !== 'system' && p.kind !== 'prompt') errors.push("kind must be 'system' or 'prompt'");
+    if (!Array.isArray(p.tags) || !p.tags.every((t: unknown) => typeof t === 'string')) errors.push('tags must be a list of strings');
+    if (!Array.isArray(p.versions) || p.versions.length === 0 || !p.versions.every((v: any) => isObject(v) && typeof v.text === 'string')) {
+      errors.push('versions must be a non-empty list with text');
+    }
+    return errors;
+  },
+};
+
+// Upgrades a record to the current version and validates it.
+// Returns null (and a "rejected" entry in the report) if it cannot be used.
+export const upgradeRecord = <T>(kind: RecordKind, raw: unknown, report: MigrationReport, label: string = kind): T | null => {
+  if (!isObject(raw)) {
+    report.rejected.push(`${label}: not an object`);
+    return null;
+  }
+
+  let version = isFiniteNumber(raw.schemaVersion) ? raw.schemaVersion : LEGACY_VERSION;
+  const target = currentSchemaVersion(kind);
+  if (version > target) {
+    report.rejected.push(`${label}: written by a newer app version (schema v${version}, supported v${target})`);
+    return null;
+  }
+
+  let record: any = raw;
+  while (version < target) {
+    record = MIGRATIONS[kind][version](record, report);
+    version++;
+  }
+  if (kind === 'session') record = checkSessionMessages(record, report, label);
+  if (kind === 'prompt') record = upgradePromptSnapshots(record, report, label);
+
+  const errors = VALIDATORS[kind](record);
+  if (errors.length > 0) {
+    report.rejected.push(`${label}: ${errors.join(', ')}`);
+    return null;
+  }
+
+  return (record.schemaVersion === target ? record : { ...record, schemaVersion: target }) as T;
+};
+
+export const stampSchemaVersion = <T extends object>(kind: RecordKind, record: T): T => {
+  const stamped: any = { ...record, schemaVersion: currentSchemaVersion(kind) };
+  // Snapshots are saved from the live (current) config
+  if (kind === 'prompt' && Array.isArray(stamped.versions)) {
+    stamped.versions = stamped.versions.map((v: any) => v.config && v.configVersion === undefined ? { ...v, configVersion: currentConfigVersion() } : v);
+  }
+  return stamped;
+};
+
+export const formatReport = (report: MigrationReport, limit = 10): string => {
+  const lines: string[] = [];
+  if (report.repaired.length > 0) {
+    lines.push(`Repaired (${report.repaired.length}):`);
+    report.repaired.slice(0, limit).forEach(r => lines.push(`  • ${r}`));
+    if (report.repaired.length > limit) lines.push(`  … and ${report.repaired.length - limit} more`);
+  }
+  if (report.rejected.length > 0) {
+    lines.push(`Rejected (${report.rejected.length}):`);
+    report.rejected.slice(0, limit).forEach(r => lines.push(`  • ${r}`));
+    if (report.rejected.length > limit) lines.push(`  … and ${report.rejected.length - limit} more`);
+  }
+  return lines.join('\n');
+};
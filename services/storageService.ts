@@ -0,0 +1,392 @@
+import { SessionData, BatchSession, BatchJobRecord, PromptLibraryEntry } from '../types';
+import type { CostRecord } from './costService';
+import { RecordKind, MigrationReport, createReport, upgradeRecord, stampSchemaVersion, formatReport } from './schemaService';
+import { broadcast } from './syncService';
+
+// --- IndexedDB Storage Layer ---
+// 所有持久化資料 (Sessions / Bulk Sessions / Batch Jobs / Cost / Prompt Library) 都經由這裡讀寫。
+// 每筆資料獨立存放 (per-record)，避免 localStorage 整包重寫與 5MB 配額問題。
+
+const DB_NAME = 'gemini_studio';
+const DB_VERSION = 3;
+
+export const STORES = {
+    SESSIONS: 'sessions',
+    BATCH_SESSIONS: 'batchSessions',
+    BATCH_JOBS: 'batchJobs',
+    COST_RECORDS: 'costRecords',
+    BLOBS: 'blobs',
+    PROMPTS: 'prompts',
+    META: 'meta',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Legacy localStorage keys (migrated once, then removed)
+const LEGACY_KEYS = {
+    SESSIONS: 'gemini_sessions_v2',
+    BATCH_SESSIONS: 'gemini_local_batch_sessions',
+    BATCH_JOBS: 'gemini_batch_history',
+    COST_RECORDS: 'gemini_cost_history',
+};
+
+const META_KEY_MIGRATED = 'migratedFromLocalStorage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORES.SESSIONS)) {
+                db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.BATCH_SESSIONS)) {
+                db.createObjectStore(STORES.BATCH_SESSIONS, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.BATCH_JOBS)) {
+                db.createObjectStore(STORES.BATCH_JOBS, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.COST_RECORDS)) {
+                db.createObjectStore(STORES.COST_RECORDS, { keyPath: 'id' });
+            }
+            // v2: content-addressed attachment payloads
+            if (!db.objectStoreNames.contains(STORES.BLOBS)) {
+                db.createObjectStore(STORES.BLOBS, { keyPath: 'hash' });
+            }
+            // v3: prompt library
+            if (!db.objectStoreNames.contains(STORES.PROMPTS)) {
+                db.createObjectStore(STORES.PROMPTS, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.META)) {
+                // Key-value store (out-of-line keys)
+                db.createObjectStore(STORES.META);
+            }
+        };
+
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab is deleting / upgrading the database: step aside instead of blocking it
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Returns the shared DB connection. Runs the localStorage migration on first open.
+export const getDB = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = openDatabase()
+            .then(async (db) => {
+                await migrateFromLocalStorage(db);
+                return db;
+            })
+            .catch((e) => {
+                // Allow a retry on the next call instead of caching the failure
+                dbPromise = null;
+                throw e;
+            });
+    }
+    return dbPromise;
+};
+
+// --- Record Codec (at-rest encryption hook) ---
+// The vault (see vaultService) installs a codec that encrypts records before they are written
+// and decrypts them after they are read. Without a codec records are stored as-is.
+
+export interface RecordCodec {
+    encode: (storeName: StoreName, record: any) => Promise<any>;
+    decode: (storeName: StoreName, record: any) => Promise<any>;
+}
+
+let recordCodec: RecordCodec | null = null;
+
+export const setRecordCodec = (codec: RecordCodec | null) => {
+    recordCodec = codec;
+};
+
+const encodeRecord = async (storeName: StoreName, record: any) => {
+    return recordCodec && storeName !== STORES.META ? recordCodec.encode(storeName, record) : record;
+};
+
+const decodeRecord = async (storeName: StoreName, record: any) => {
+    return recordCodec && storeName !== STORES.META && record !== undefined ? recordCodec.decode(storeName, record) : record;
+};
+
+// --- Schema Versioning ---
+// Stores holding versioned records (see schemaService). Records are stamped on write
+// and upgraded on read.
+
+const STORE_KINDS: Partial<Record<StoreName, RecordKind>> = {
+    [STORES.SESSIONS]: 'session',
+    [STORES.BATCH_SESSIONS]: 'batchSession',
+    [STORES.BATCH_JOBS]: 'batchJob',
+    [STORES.COST_RECORDS]: 'costRecord',
+    [STORES.PROMPTS]: 'prompt',
+};
+
+const prepareForWrite = async (storeName: StoreName, record: any) => {
+    const kind = STORE_KINDS[storeName];
+    return encodeRecord(storeName, kind ? stampSchemaVersion(kind, record) : record);
+};
+
+// Upgrades records read from a versioned store. Upgraded records are written back,
+// records that fail validation are skipped (and left untouched in the DB).
+const upgradeLoaded = async <T>(storeName: StoreName, records: any[]): Promise<T[]> => {
+    const kind = STORE_KINDS[storeName];
+    if (!kind) return records;
+
+    const report = createReport();
+    const upgraded: T[] = [];
+    const changed: T[] = [];
+    records.forEach(r => {
+        const record = upgradeRecord<T>(kind, r, report, `${storeName}/${r?.id ?? '?'}`);
+        if (!record) return;
+        upgraded.push(record);
+        if (record !== r) changed.push(record);
+    });
+
+    if (report.repaired.length > 0 || report.rejected.length > 0) {
+        console.warn(`Schema upgrade of "${storeName}":\n${formatReport(report)}`);
+    }
+    if (changed.length > 0) {
+        putRecords(storeName, changed).catch(e => console.error(`Failed to write back upgraded ${storeName}:`, e));
+    }
+    return upgraded;
+};
+
+// --- Generic Record Operations ---
+
+export const getAllRecords = async <T>(storeName: StoreName): Promise<T[]> => {
+    const db = await getDB();
+    const tx = db.transaction(storeName, 'readonly');
+    const records = await requestToPromise(tx.objectStore(storeName).getAll());
+    const decoded = await Promise.all(records.map(r => decodeRecord(storeName, r)));
+    return upgradeLoaded<T>(storeName, decoded);
+};
+
+export const getRecord = async <T>(storeName: StoreName, key: string): Promise<T | undefined> => {
+    const db = await getDB();
+    const tx = db.transaction(storeName, 'readonly');
+    const record = await requestToPromise(tx.objectStore(storeName).get(key));
+    const decoded = await decodeRecord(storeName, record);
+    if (decoded === undefined) return undefined;
+    const [upgraded] = await upgradeLoaded<T>(storeName, [decoded]);
+    return upgraded;
+};
+
+export const putRecord = async <T>(storeName: StoreName, record: T): Promise<void> => {
+    // Encode before opening the transaction: it would auto-commit while awaiting WebCrypto
+    const encoded = await prepareForWrite(storeName, record);
+    const db = await getDB();
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(encoded);
+    await transactionDone(tx);
+};
+
+// Writes several records in a single transaction
+export const putRecords = async <T>(storeName: StoreName, records: T[]): Promise<void> => {
+    if (records.length === 0) return;
+    const encoded = await Promise.all(records.map(r => prepareForWrite(storeName, r)));
+    const db = await getDB();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    encoded.forEach(r => store.put(r));
+    await transactionDone(tx);
+};
+
+export const deleteRecord = async (storeName: StoreName, key: string): Promise<void> => {
+    const db = await getDB();
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).delete(key);
+    await transactionDone(tx);
+};
+
+export const getAllKeys = async (storeName: StoreName): Promise<string[]> => {
+    const db = await getDB();
+    const tx = db.transaction(storeName, 'readonly');
+    return requestToPromise(tx.objectStore(storeName).getAllKeys()) as Promise<string[]>;
+};
+
+export const clearStore = async (storeName: StoreName): Promise<void> => {
+    const db = await getDB();
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).clear();
+    await transactionDone(tx);
+};
+
+// --- Re-encoding (vault enable / disable) ---
+// Records are carried over as stored, valid or not, so none is left behind in the old
+// encoding. The ones that fail validation (and are skipped on load) are listed in the report.
+
+export const readStoreAsStored = async (storeName: StoreName, report: MigrationReport): Promise<any[]> => {
+    const db = await getDB();
+    const tx = db.transaction(storeName, 'readonly');
+    const records = await requestToPromise(tx.objectStore(storeName).getAll());
+    const decoded = await Promise.all(records.map(r => decodeRecord(storeName, r)));
+
+    const kind = STORE_KINDS[storeName];
+    if (kind) {
+        const check = createReport();
+        decoded.forEach(r => upgradeRecord(kind, r, check, `${storeName}/${r?.id ?? '?'}`));
+        report.rejected.push(...check.rejected);
+    }
+    return decoded;
+};
+
+// Writes records through the current codec without stamping: they are upgraded on the next load
+export const writeStoreAsStored = async (storeName: StoreName, records: any[]): Promise<void> => {
+    if (records.length === 0) return;
+    const encoded = await Promise.all(records.map(r => encodeRecord(storeName, r)));
+    const db = await getDB();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    encoded.forEach(r => store.put(r));
+    await transactionDone(tx);
+};
+
+// --- Meta (Key-Value) ---
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+    return getRecord<T>(STORES.META, key);
+};
+
+export const setMeta = async <T>(key: string, value: T): Promise<void> => {
+    const db = await getDB();
+    const tx = db.transaction(STORES.META, 'readwrite');
+    tx.objectStore(STORES.META).put(value, key);
+    await transactionDone(tx);
+};
+
+export const deleteMeta = async (key: string): Promise<void> => {
+    return deleteRecord(STORES.META, key);
+};
+
+export const isQuotaError = (e: unknown): boolean => {
+    return e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
+
+// --- One-time Migration from localStorage ---
+
+const readLegacyArray = <T>(key: string): T[] => {
+    try {
+        const stored = localStorage.getItem(key);
+        const parsed = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+        console.error(`Failed to read legacy key ${key}:`, e);
+        return [];
+    }
+};
+
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<void> => {
+    const metaTx = db.transaction(STORES.META, 'readonly');
+    const migrated = await requestToPromise(metaTx.objectStore(STORES.META).get(META_KEY_MIGRATED));
+    if (migrated) return;
+
+    const sessions = readLegacyArray<SessionData>(LEGACY_KEYS.SESSIONS);
+    const batchSessions = readLegacyArray<BatchSession>(LEGACY_KEYS.BATCH_SESSIONS);
+    const batchJobs = readLegacyArray<BatchJobRecord>(LEGACY_KEYS.BATCH_JOBS);
+    const costRecords = readLegacyArray<CostRecord>(LEGACY_KEYS.COST_RECORDS);
+
+    // Legacy arrays were kept newest-first; give sessions a stable updatedAt order
+    const now = Date.now();
+    sessions.forEach((s, i) => {
+        if (!s.updatedAt) s.updatedAt = now - i;
+    });
+
+    // Single transaction so a failed migration leaves nothing half-written
+    const tx = db.transaction(
+        [STORES.SESSIONS, STORES.BATCH_SESSIONS, STORES.BATCH_JOBS, STORES.COST_RECORDS, STORES.META],
+        'readwrite'
+    );
+    sessions.forEach(s => tx.objectStore(STORES.SESSIONS).put(s));
+    batchSessions.forEach(s => tx.objectStore(STORES.BATCH_SESSIONS).put(s));
+    batchJobs.forEach(j => tx.objectStore(STORES.BATCH_JOBS).put(j));
+    costRecords.forEach((r, i) => {
+        // Old records used Date.now() as id and could collide
+        tx.objectStore(STORES.COST_RECORDS).put({ ...r, id: r.id ? `${r.id}-${i}` : `legacy-${i}` });
+    });
+    tx.objectStore(STORES.META).put(true, META_KEY_MIGRATED);
+    await transactionDone(tx);
+
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+// --- Panic Wipe ---
+
+// Deletes the whole database and every app key in localStorage
+export const wipeAllData = async (): Promise<void> => {
+    if (dbPromise) {
+        try {
+            (await dbPromise).close();
+        } catch (e) {
+            // DB never opened; nothing to close
+        }
+        dbPromise = null;
+    }
+    await new Promise<void>((resolve, reject) => {
+        const request = indexedDB.deleteDatabase(DB_NAME);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+        // Other tabs still hold a connection; deletion completes once they close
+        request.onblocked = () => resolve();
+    });
+    Object.keys(localStorage)
+        .filter(key => key.startsWith('gemini_'))
+        .forEach(key => localStorage.removeItem(key));
+};
+
+// --- Typed Helpers ---
+
+export const loadSessions = async (): Promise<SessionData[]> => {
+    const sessions = await getAllRecords<SessionData>(STORES.SESSIONS);
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Session writes notify other tabs, which re-read the changed records themselves
+export const saveSession = async (session: SessionData) => {
+    await putRecord(STORES.SESSIONS, session);
+    broadcast({ type: 'sessions', changed: [session.id], removed: [] });
+};
+
+export const removeSession = async (id: string) => {
+    await deleteRecord(STORES.SESSIONS, id);
+    broadcast({ type: 'sessions', changed: [], removed: [id] });
+};
+
+export const loadPrompts = async (): Promise<PromptLibraryEntry[]> => {
+    const prompts = await getAllRecords<PromptLibraryEntry>(STORES.PROMPTS);
+    return prompts.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const savePrompts = async (entries: PromptLibraryEntry[]) => {
+    await putRecords(STORES.PROMPTS, entries);
+    broadcast({ type: 'prompts' });
+};
+
+export const removePrompt = async (id: string) => {
+    await deleteRecord(STORES.PROMPTS, id);
+    broadcast({ type: 'prompts' });
+};
@@ -0,0 +1,162 @@
+import { SessionData, BatchSession, ChatMessage, CodeExecutionBlock } from '../types';
+import { STORES, getAllRecords, getAllKeys, loadSessions } from './storageService';
+import { flattenMessageTree, mapMessageTree } from './branchService';
+import { getImageBlocks } from './attachmentStore';
+
+// --- Storage Usage ---
+// 估算每個對話、批次 Session 與附件佔用的空間 (以 JSON / 解碼後位元組計)，並對照瀏覽器配額。
+
+export interface SessionUsage {
+    id: string;
+    title: string;
+    updatedAt: number;
+    bytes: number;           // The session record itself (text, config, attachment references)
+    attachmentBytes: number; // Unique blobs referenced by this session
+    attachmentCount: number;
+}
+
+export interface BulkSessionUsage {
+    id: string;
+    name: string;
+    createdAt: number;
+    bytes: number;
+    itemCount: number;
+}
+
+export interface AttachmentUsage {
+    hash: string;
+    name: string;
+    mimeType: string;
+    size: number;
+    sessionIds: string[];
+}
+
+export interface StorageUsage {
+    sessions: SessionUsage[];
+    bulkSessions: BulkSessionUsage[];
+    attachments: AttachmentUsage[];
+    orphanedBlobs: number; // Stored blobs no session references (freed by GC after the grace period)
+    totals: {
+        sessions: number;
+        bulkSessions: number;
+        attachments: number;
+    };
+    estimate?: {
+        usage: number;
+        quota: number;
+    };
+}
+
+const encoder = new TextEncoder();
+
+export const measureJson = (value: unknown): number => encoder.encode(JSON.stringify(value)).length;
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+    const [sessions, bulkSessions, blobHashes] = await Promise.all([
+        loadSessions(),
+        getAllRecords<BatchSession>(STORES.BATCH_SESSIONS),
+        getAllKeys(STORES.BLOBS),
+    ]);
+
+    // Attachment metadata comes from the references in messages, so no blob payload is read
+    const attachments = new Map<string, AttachmentUsage>();
+    const sessionUsage = sessions.map((s: SessionData): SessionUsage => {
+        const hashes = new Set<string>();
+        const addBlob = (hash: string | undefined, name: string, mimeType: string, size?: number) => {
+            if (!hash) return;
+            hashes.add(hash);
+            const entry = attachments.get(hash);
+            if (!entry) {
+                attachments.set(hash, { hash, name, mimeType, size: size || 0, sessionIds: [s.id] });
+            } else if (!entry.sessionIds.includes(s.id)) {
+                entry.sessionIds.push(s.id);
+            }
+        };
+        flattenMessageTree(s.messages).forEach(m => {
+            m.attachments?.forEach(a => addBlob(a.hash, a.name, a.mimeType, a.size));
+            getImageBlocks(m).forEach(b => addBlob(b.hash, 'Generated image', b.mimeType || 'image/png', b.size));
+        });
+        return {
+            id: s.id,
+            title: s.title || 'Untitled Prompt',
+            updatedAt: s.updatedAt,
+            bytes: measureJson(s),
+            attachmentBytes: [...hashes].reduce((sum, h) => sum + (attachments.get(h)?.size || 0), 0),
+            attachmentCount: hashes.size
+        };
+    });
+
+    const bulkUsage = bulkSessions
+        .map((s): BulkSessionUsage => ({
+            id: s.id,
+            name: s.name,
+            createdAt: s.createdAt,
+            bytes: measureJson(s),
+            itemCount: s.items.length
+        }))
+        .sort((a, b) => b.bytes - a.bytes);
+
+    const attachmentUsage = [...attachments.values()].sort((a, b) => b.size - a.size);
+    const storedHashes = new Set(blobHashes);
+
+    let estimate: StorageUsage['estimate'];
+    if (navigator.storage?.estimate) {
+        try {
+            const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+            estimate = { usage, quota };
+        } catch (e) {
+            console.warn("Storage estimate unavailable:", e);
+        }
+    }
+
+    return {
+        sessions: sessionUsage.sort((a, b) => (b.bytes + b.attachmentBytes) - (a.bytes + a.attachmentBytes)),
+        bulkSessions: bulkUsage,
+        attachments: attachmentUsage,
+        orphanedBlobs: [...storedHashes].filter(h => !attachments.has(h)).length,
+        totals: {
+            sessions: sessionUsage.reduce((sum, s) => sum + s.bytes, 0),
+            bulkSessions: bulkUsage.reduce((sum, s) => sum + s.bytes, 0),
+            attachments: attachmentUsage.reduce((sum, a) => sum + a.size, 0),
+        },
+        estimate
+    };
+};
+
+// Drops attachments and generated images from the session's messages (every branch): all of them, or only the given blobs.
+// The payloads are freed by GC once no session references them.
+export const stripSessionAttachments = (session: SessionData, hashes?: Set<string>): SessionData => {
+    const shouldStrip = (hash?: string) => !hashes || (!!hash && hashes.has(hash));
+    const stripsImage = (b: CodeExecutionBlock) => b.kind === 'image' && shouldStrip(b.hash);
+    const keepBlocks = (blocks?: CodeExecutionBlock[]) => {
+        if (!blocks?.some(stripsImage)) return blocks;
+        const kept = blocks.filter(b => !stripsImage(b));
+        return kept.length > 0 ? kept : undefined;
+    };
+    const affected = (m: ChatMessage) => !!m.attachments?.some(a => shouldStrip(a.hash)) || getImageBlocks(m).some(stripsImage);
+    if (!flattenMessageTree(session.messages).some(affected)) return session;
+    return {
+        ...session,
+        messages: mapMessageTree(session.messages, m => {
+            if (!affected(m)) return m;
+            const next: ChatMessage = {
+                ...m,
+                codeBlocks: keepBlocks(m.codeBlocks),
+                alternates: m.alternates?.map(a => a.codeBlocks?.some(stripsImage) ? { ...a, codeBlocks: keepBlocks(a.codeBlocks) } : a)
+            };
+            if (!m.attachments?.some(a => shouldStrip(a.hash))) return next;
+            const kept = m.attachments.filter(a => !shouldStrip(a.hash));
+            if (kept.length > 0) return { ...next, attachments: kept };
+            const { attachments, ...rest } = next;
+            return rest;
+        }),
+        updatedAt: Date.now()
+    };
+};
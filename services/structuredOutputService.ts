@@ -0,0 +1,375 @@
+import { ModelConfig, SchemaValidation } from '../types';
+
+// --- Structured Output ---
+// responseMimeType = application/json + responseJsonSchema。
+// Schema 以 JSON Schema 文字存在 config；也可由 TypeScript 風格的簡寫轉換而來，回應完成後依同一份 schema 驗證。
+
+const MAX_REPORTED_ERRORS = 20;
+
+export const DEFAULT_RESPONSE_SCHEMA = JSON.stringify({
+    type: 'object',
+    properties: {
+        title: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['title', 'tags']
+}, null, 2);
+
+export const isStructuredOutputActive = (config: ModelConfig): boolean =>
+    !!config.structuredOutput?.enabled && !!config.structuredOutput.schema.trim();
+
+export const validateSchemaText = (text: string): string[] => {
+    if (!text.trim()) return ['Schema is empty'];
+    let schema: any;
+    try {
+        schema = JSON.parse(text);
+    } catch (e: any) {
+        return [`Schema is not valid JSON: ${e.message}`];
+    }
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) return ['Schema must be a JSON object'];
+    if (!schema.type && !schema.anyOf && !schema.enum && !schema.$ref) return ['Schema needs a "type", "anyOf", "enum" or "$ref"'];
+    return [];
+};
+
+// Generation config fields for chat, bulk and economy requests. An invalid schema fails the request.
+export const buildStructuredOutputConfig = (config: ModelConfig): Record<string, unknown> => {
+    if (!isStructuredOutputActive(config)) return {};
+    const errors = validateSchemaText(config.structuredOutput!.schema);
+    if (errors.length > 0) throw new Error(`Invalid response schema: ${errors.join('; ')}`);
+    return {
+        responseMimeType: 'application/json',
+        responseJsonSchema: JSON.parse(config.structuredOutput!.schema)
+    };
+};
+
+// --- Import: JSON Schema or TypeScript-like shorthand ---
+
+// Editor-only keys that the API does not accept
+const stripSchemaMeta = (schema: any) => {
+    const { $schema, $id, ...rest } = schema;
+    return rest;
+};
+
+type Token = { kind: 'punct' | 'ident' | 'string' | 'number' | 'comment'; value: string; pos: number };
+
+const tokenize = (src: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < src.length) {
+        const ch = src[i];
+        if (/\s/.test(ch)) { i++; continue; }
+        if (src.startsWith('//', i)) {
+            const end = src.indexOf('\n', i);
+            const stop = end === -1 ? src.length : end;
+            tokens.push({ kind: 'comment', value: src.slice(i + 2, stop).trim(), pos: i });
+            i = stop;
+            continue;
+        }
+        if (ch === '"' || ch === "'") {
+            let j = i + 1;
+            let value = '';
+            while (j < src.length && src[j] !== ch) {
+                if (src[j] === '\\' && j + 1 < src.length) j++;
+                value += src[j++];
+            }
+            if (j >= src.length) throw new Error(`Unterminated string at ${i}`);
+            tokens.push({ kind: 'string', value, pos: i });
+            i = j + 1;
+            continue;
+        }
+        if (src.startsWith('[]', i)) {
+            tokens.push({ kind: 'punct', value: '[]', pos: i });
+            i += 2;
+            continue;
+        }
+        if ('{}()<>:;,|?'.includes(ch)) {
+            tokens.push({ kind: 'punct', value: ch, pos: i });
+            i++;
+            continue;
+        }
+        const num = /^-?\d+(\.\d+)?/.exec(src.slice(i));
+        if (num) {
+            tokens.push({ kind: 'number', value: num[0], pos: i });
+            i += num[0].length;
+            continue;
+        }
+        const ident = /^[A-Za-z_$][\w$]*/.exec(src.slice(i));
+        if (ident) {
+            tokens.push({ kind: 'ident', value: ident[0], pos: i });
+            i += ident[0].length;
+            continue;
+        }
+        throw new Error(`Unexpected "${ch}" at ${i}`);
+    }
+    return tokens;
+};
+
+const PRIMITIVES: Record<string, any> = {
+    string: { type: 'string' },
+    number: { type: 'number' },
+    integer: { type: 'integer' },
+    boolean: { type: 'boolean' },
+    null: { type: 'null' },
+    any: {},
+    unknown: {}
+};
+
+// `{ name: string; age?: integer; tags: string[]; status: "open" | "closed" }`
+// A trailing `// comment` on a field becomes its description.
+export const parseSchemaShorthand = (src: string): any => {
+    const tokens = tokenize(src);
+    let pos = 0;
+
+    // Comments are only consumed explicitly (field descriptions); peek() looks past them without moving
+    const nextIndex = () => {
+        let i = pos;
+        while (tokens[i]?.kind === 'comment') i++;
+        return i;
+    };
+    const peek = () => tokens[nextIndex()];
+    const next = () => { pos = nextIndex() + 1; return tokens[pos - 1]; };
+    const fail = (expected: string): never => {
+        const t = peek();
+        throw new Error(t ? `Expected ${expected} but found "${t.value}" at ${t.pos}` : `Expected ${expected} but reached the end`);
+    };
+    const expect = (value: string) => {
+        const t = next();
+        if (!t || t.kind !== 'punct' || t.value !== value) { pos--; fail(`"${value}"`); }
+    };
+    const isPunct = (value: string) => { const t = peek(); return !!t && t.kind === 'punct' && t.value === value; };
+
+    const parseObject = (): any => {
+        expect('{');
+        const properties: Record<string, any> = {};
+        const required: string[] = [];
+        while (!isPunct('}')) {
+            const key = next();
+            if (!key || (key.kind !== 'ident' && key.kind !== 'string')) { pos--; fail('a field name'); }
+            const optional = isPunct('?');
+            if (optional) next();
+            expect(':');
+            const schema = parseType();
+            if (isPunct(';') || isPunct(',')) next();
+            // Comment on the same line as the field
+            const comment = tokens[pos];
+            if (comment?.kind === 'comment' && !src.slice(key.pos, comment.pos).includes('\n')) {
+                schema.description = comment.value;
+                pos++;
+            }
+            properties[key.value] = schema;
+            if (!optional) required.push(key.value);
+            if (!peek()) fail('"}"');
+        }
+        expect('}');
+        return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+    };
+
+    const parseBase = (): any => {
+        const t = peek();
+        if (!t) return fail('a type');
+        if (t.kind === 'punct' && t.value === '{') return parseObject();
+        if (t.kind === 'punct' && t.value === '(') {
+            next();
+            const inner = parseType();
+            expect(')');
+            return inner;
+        }
+        next();
+        if (t.kind === 'string') return { type: 'string', enum: [t.value] };
+        if (t.kind === 'number') return { type: t.value.includes('.') ? 'number' : 'integer', enum: [Number(t.value)] };
+        if (t.kind === 'ident') {
+            if (t.value === 'Array') {
+                expect('<');
+                const items = parseType();
+                expect('>');
+                return { type: 'array', items };
+            }
+            if (t.value === 'true' || t.value === 'false') return { type: 'boolean', enum: [t.value === 'true'] };
+            if (PRIMITIVES[t.value]) return { ...PRIMITIVES[t.value] };
+            throw new Error(`Unknown type "${t.value}" at ${t.pos}`);
+        }
+        pos--;
+        return fail('a type');
+    };
+
+    const parsePostfix = (): any => {
+        let schema = parseBase();
+        while (isPunct('[]')) {
+            next();
+            schema = { type: 'array', items: schema };
+        }
+        return schema;
+    };
+
+    const parseType = (): any => {
+        const members = [parsePostfix()];
+        while (isPunct('|')) {
+            next();
+            members.push(parsePostfix());
+        }
+        return mergeUnion(members);
+    };
+
+    const schema = parseType();
+    if (peek()) fail('the end of the schema');
+    return schema;
+};
+
+// "a" | "b" → enum; string | null → type: ["string", "null"]; anything else → anyOf
+const mergeUnion = (members: any[]): any => {
+    if (members.length === 1) return members[0];
+    const isLiteral = (m: any) => Array.isArray(m.enum) && typeof m.type === 'string';
+    if (members.every(m => isLiteral(m) && m.type === members[0].type)) {
+        return { type: members[0].type, enum: members.flatMap(m => m.enum) };
+    }
+    const nonNull = members.filter(m => m.type !== 'null' || m.enum);
+    if (nonNull.length === members.length - 1 && nonNull.length === 1 && typeof nonNull[0].type === 'string') {
+        return { ...nonNull[0], type: [nonNull[0].type, 'null'] };
+    }
+    return { anyOf: members };
+};
+
+// Accepts a JSON Schema document or the shorthand and returns pretty-printed JSON Schema
+export const importSchema = (src: string): string => {
+    const trimmed = src.trim();
+    if (!trimmed) throw new Error('Nothing to import');
+    let schema: any;
+    let json: any;
+    try {
+        json = JSON.parse(trimmed);
+    } catch {
+        json = undefined;
+    }
+    if (json !== undefined) {
+        if (typeof json !== 'object' || json === null || Array.isArray(json)) throw new Error('JSON Schema must be an object');
+        schema = stripSchemaMeta(json);
+    } else {
+        schema = parseSchemaShorthand(trimmed);
+    }
+    return JSON.stringify(schema, null, 2);
+};
+
+// --- Response validation ---
+
+export const parseJsonResponse = (text: string): unknown => {
+    // Some models still wrap JSON mode output in a markdown fence
+    const fenced = /^```(?:json)?\s*\n([\s\S]*?)\n?```$/.exec(text.trim());
+    return JSON.parse(fenced ? fenced[1] : text);
+};
+
+const typeOf = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const resolveRef = (root: any, ref: string): any => {
+    if (!ref.startsWith('#')) return undefined;
+    return ref.slice(1).split('/').filter(Boolean).reduce((node: any, key) =>
+        node === undefined ? undefined : node[key.replace(/~1/g, '/').replace(/~0/g, '~')], root);
+};
+
+const validateNode = (value: unknown, schema: any, root: any, path: string, errors: string[]) => {
+    if (errors.length >= MAX_REPORTED_ERRORS || !schema || typeof schema !== 'object') return;
+
+    if (schema.$ref) {
+        const target = resolveRef(root, schema.$ref);
+        if (target === undefined) errors.push(`${path}: unresolved $ref ${schema.$ref}`);
+        else validateNode(value, target, root, path, errors);
+        return;
+    }
+
+    if (Array.isArray(schema.anyOf)) {
+        const matched = schema.anyOf.some((option: any) => {
+            const optionErrors: string[] = [];
+            validateNode(value, option, root, path, optionErrors);
+            return optionErrors.length === 0;
+        });
+        if (!matched) errors.push(`${path}: does not match any of the allowed shapes`);
+        return;
+    }
+
+    if (schema.type) {
+        const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+        const nullable = schema.nullable === true && value === null;
+        if (!nullable && !types.some(t => matchesType(value, t))) {
+            errors.push(`${path}: expected ${types.join(' | ')}, got ${typeOf(value)}`);
+            return;
+        }
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((v: unknown) => JSON.stringify(v) === JSON.stringify(value))) {
+        errors.push(`${path}: must be one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+        if (typeof schema.minLength === 'number' && value.length < schema.minLength) errors.push(`${path}: shorter than ${schema.minLength} characters`);
+        if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) errors.push(`${path}: longer than ${schema.maxLength} characters`);
+        if (typeof schema.pattern === 'string') {
+            try {
+                if (!new RegExp(schema.pattern).test(value)) errors.push(`${path}: does not match /${schema.pattern}/`);
+            } catch {
+                // An invalid pattern is the schema's problem, not the response's
+            }
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (typeof schema.minimum === 'number' && value < schema.minimum) errors.push(`${path}: less than ${schema.minimum}`);
+        if (typeof schema.maximum === 'number' && value > schema.maximum) errors.push(`${path}: greater than ${schema.maximum}`);
+    }
+
+    if (Array.isArray(value)) {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) errors.push(`${path}: fewer than ${schema.minItems} items`);
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) errors.push(`${path}: more than ${schema.maxItems} items`);
+        if (schema.items && typeof schema.items === 'object') {
+            value.forEach((item, i) => validateNode(item, schema.items, root, `${path}[${i}]`, errors));
+        }
+    }
+
+    if (typeOf(value) === 'object') {
+        const obj = value as Record<string, unknown>;
+        const properties = schema.properties || {};
+        (schema.required || []).forEach((key: string) => {
+            if (!(key in obj)) errors.push(`${path}: missing required property "${key}"`);
+        });
+        Object.entries(obj).forEach(([key, child]) => {
+            const childPath = /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+            if (properties[key]) {
+                validateNode(child, properties[key], root, childPath, errors);
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${childPath}: property is not allowed`);
+            } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                validateNode(child, schema.additionalProperties, root, childPath, errors);
+            }
+        });
+    }
+};
+
+export const validateAgainstSchema = (value: unknown, schema: any): string[] => {
+    const errors: string[] = [];
+    validateNode(value, schema, schema, '$', errors);
+    return errors;
+};
+
+// Checks a finished answer against the schema it was requested with. Empty answers are not checked.
+export const validateStructuredResponse = (text: string, config: ModelConfig): SchemaValidation | undefined => {
+    if (!isStructuredOutputActive(config) || !text.trim()) return undefined;
+    let value: unknown;
+    try {
+        value = parseJsonResponse(text);
+    } catch (e: any) {
+        return { errors: [`Response is not valid JSON: ${e.message}`] };
+    }
+    try {
+        return { errors: validateAgainstSchema(value, JSON.parse(config.structuredOutput!.schema)) };
+    } catch {
+        return undefined;
+    }
+};
@@ -0,0 +1,137 @@
+// --- Cross-Tab Synchronization ---
+// 多個分頁共用同一個 IndexedDB。寫入後廣播「哪些資料變了」，其他分頁再自行從 DB 讀取最新版本。
+// 需要獨佔的工作 (執行某個 BatchSession、擁有某個 Context Cache) 以 Web Locks 保證同時只有一個分頁持有。
+
+export type SyncMessage =
+    | { type: 'sessions'; changed: string[]; removed: string[] }
+    | { type: 'bulkSessions' }
+    | { type: 'batchJobs' }
+    | { type: 'costs' }
+    | { type: 'prompts' }
+    | { type: 'locks' }
+    | { type: 'contextCache'; cacheName: string; status: 'created' | 'deleted'; fileName?: string; expirationTime?: number; tokenCount?: number }
+    // Storage was replaced wholesale (restore, wipe, vault on/off): other tabs must reload
+    | { type: 'reset' };
+
+type SyncHandler = (msg: SyncMessage) => void;
+
+const CHANNEL_NAME = 'gemini_studio_sync';
+// Fallback transport for browsers without BroadcastChannel
+const STORAGE_EVENT_KEY = 'gemini_sync_message';
+
+const handlers = new Set<SyncHandler>();
+let channel: BroadcastChannel | null = null;
+let listening = false;
+
+const dispatch = (msg: SyncMessage) => {
+    handlers.forEach(h => {
+        try {
+            h(msg);
+        } catch (e) {
+            console.error('Sync handler failed:', e);
+        }
+    });
+};
+
+const onStorageEvent = (e: StorageEvent) => {
+    if (e.key !== STORAGE_EVENT_KEY || !e.newValue) return;
+    try {
+        dispatch(JSON.parse(e.newValue).msg);
+    } catch (err) {
+        console.warn('Ignoring malformed sync message:', err);
+    }
+};
+
+const ensureListening = () => {
+    if (listening) return;
+    listening = true;
+    if (typeof BroadcastChannel !== 'undefined') {
+        channel = new BroadcastChannel(CHANNEL_NAME);
+        channel.onmessage = (e) => dispatch(e.data as SyncMessage);
+    } else {
+        window.addEventListener('storage', onStorageEvent);
+    }
+};
+
+// Notifies every other tab. The sending tab does not receive its own messages.
+export const broadcast = (msg: SyncMessage) => {
+    ensureListening();
+    try {
+        if (channel) {
+            channel.postMessage(msg);
+        } else {
+            // A nonce makes repeated identical messages still trigger a storage event
+            localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ msg, nonce: Math.random() }));
+        }
+    } catch (e) {
+        console.warn('Sync broadcast failed:', e);
+    }
+};
+
+// Delivers a message to this tab's own subscribers (for writes that bypass the usual owner of the state)
+export const notifyThisTab = (msg: SyncMessage) => dispatch(msg);
+
+export const subscribe = (handler: SyncHandler): (() => void) => {
+    ensureListening();
+    handlers.add(handler);
+    return () => { handlers.delete(handler); };
+};
+
+// --- Exclusive Locks (Web Locks API) ---
+// A lock is held until released or until the tab closes, so a crashed tab never blocks the others.
+
+export const LOCK_PREFIX_BATCH_SESSION = 'batch-session:';
+export const LOCK_PREFIX_CONTEXT_CACHE = 'context-cache:';
+
+// Locks held by this tab
+const ownedLocks = new Map<string, () => void>();
+
+// Returns a release function, or null when another tab holds the lock.
+export const tryAcquireLock = async (name: string): Promise<(() => void) | null> => {
+    const existing = ownedLocks.get(name);
+    if (existing) return existing;
+
+    if (!navigator.locks) {
+        // No Web Locks support: cannot coordinate, behave as a single tab
+        const release = () => { ownedLocks.delete(name); };
+        ownedLocks.set(name, release);
+        return release;
+    }
+
+    return new Promise(resolve => {
+        navigator.locks.request(name, { ifAvailable: true }, (lock) => {
+            if (!lock) {
+                resolve(null);
+                return;
+            }
+            // Keep the lock until release() settles this promise
+            return new Promise<void>(done => {
+                const release = () => {
+                    if (ownedLocks.get(name) !== release) return;
+                    ownedLocks.delete(name);
+                    done();
+                    broadcast({ type: 'locks' });
+                };
+                ownedLocks.set(name, release);
+                resolve(release);
+                broadcast({ type: 'locks' });
+            });
+        }).catch(e => {
+            console.warn(`Lock request failed (${name}):`, e);
+            resolve(null);
+        });
+    });
+};
+
+export const ownsLock = (name: string) => ownedLocks.has(name);
+
+// Names of locks currently held by other tabs
+export const getLocksHeldElsewhere = async (): Promise<Set<string>> => {
+    if (!navigator.locks) return new Set();
+    const snapshot = await navigator.locks.query();
+    return new Set(
+        (snapshot.held || [])
+            .map(l => l.name)
+            .filter((n): n is string => !!n && !ownedLocks.has(n))
+    );
+};
@@ -0,0 +1,48 @@
+import { PromptVariables } from '../types';
+
+// --- Prompt Variables ---
+// System instruction 與訊息中的 {{variable}} 佔位符，在送出時以本 session 的變數值取代。
+// 取代後的文字才是實際送出、寫入 history 的內容；原始樣板另外保存在訊息上以便重新編輯。
+
+// {{name}}, names may contain letters, digits, _ . and - (surrounding spaces are ignored)
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+export interface ResolvedTemplate {
+    text: string;
+    used: PromptVariables; // Values that were substituted
+    missing: string[];     // Placeholders without a value; they are sent unchanged
+}
+
+export const isValidVariableName = (name: string): boolean => /^[A-Za-z_][\w.-]*$/.test(name);
+
+// Variable names in order of first appearance across all texts
+export const extractVariables = (...texts: string[]): string[] => {
+    const names: string[] = [];
+    texts.forEach(text => {
+        for (const match of text.matchAll(VARIABLE_PATTERN)) {
+            if (!names.includes(match[1])) names.push(match[1]);
+        }
+    });
+    return names;
+};
+
+// An empty value counts as missing: a blank product name is almost always a forgotten field
+export const resolveTemplate = (text: string, variables: PromptVariables = {}): ResolvedTemplate => {
+    const used: PromptVariables = {};
+    const missing: string[] = [];
+    const resolved = text.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+        const value = variables[name];
+        if (value === undefined || value === '') {
+            if (!missing.includes(name)) missing.push(name);
+            return placeholder;
+        }
+        used[name] = value;
+        return value;
+    });
+    return { text: resolved, used, missing };
+};
+
+export const resolveText = (text: string, variables?: PromptVariables): string => resolveTemplate(text, variables).text;
+
+export const formatMissingVariables = (missing: string[]): string =>
+    `No value for ${missing.map(name => `{{${name}}}`).join(', ')}. ${missing.length === 1 ? 'It is' : 'They are'} sent as written.`;
@@ -0,0 +1,81 @@
+import { GoogleGenAI, Content } from "@google/genai";
+import { Attachment } from '../types';
+import { AVAILABLE_MODELS } from '../constants';
+
+// --- Token Counting ---
+// 以 countTokens API 取得精確的 token 數；離線或失敗時才使用本地估算。
+// 估算會區分 CJK 文字 (約 1 字 1 token) 與其他文字 (約 4 字元 1 token)，附件依類型與大小估算。
+
+export interface TokenCount {
+    tokens: number;
+    exact: boolean; // false = local estimate
+}
+
+const DEFAULT_CONTEXT_WINDOW = 1048576;
+const IMAGE_TOKENS = 258; // Per image (larger images are tiled; this is the minimum)
+
+export const getContextWindow = (model: string): number =>
+    AVAILABLE_MODELS.find(m => m.id === model)?.inputTokenLimit || DEFAULT_CONTEXT_WINDOW;
+
+// CJK ideographs, kana and hangul are roughly one token per character
+const CJK_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿＀-￯]/g;
+
+export const estimateTokens = (text: string): number => {
+    if (!text) return 0;
+    const cjk = (text.match(CJK_PATTERN) || []).length;
+    return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+// Media sizes are guessed from typical bitrates / page sizes
+const estimateBinaryTokens = (mimeType: string, bytes: number): number => {
+    if (mimeType.startsWith('image/')) return IMAGE_TOKENS;
+    if (mimeType === 'application/pdf') return IMAGE_TOKENS * Math.max(1, Math.round(bytes / 100000)); // ~100 KB per page
+    if (mimeType.startsWith('audio/')) return Math.ceil(bytes / 16000) * 32; // 128 kbps, 32 tokens per second
+    if (mimeType.startsWith('video/')) return Math.ceil(bytes / 250000) * 263; // ~2 Mbps, 263 tokens per second
+    return Math.ceil(bytes / 4);
+};
+
+const base64Bytes = (data: string): number => Math.floor(data.length * 3 / 4);
+
+export const estimateAttachmentTokens = (attachment: Attachment): number => {
+    if (attachment.textContent !== undefined) return estimateTokens(attachment.textContent);
+    const bytes = attachment.size ?? (attachment.data ? base64Bytes(attachment.data) : 0);
+    return estimateBinaryTokens(attachment.mimeType, bytes);
+};
+
+// Local estimate of the message being composed, for checks that cannot wait for countTokens
+export const estimateDraftTokens = (draft: string, attachments: Attachment[]): number =>
+    estimateTokens(draft) + attachments.reduce((sum, att) => sum + estimateAttachmentTokens(att), 0);
+
+export const estimateContentsTokens = (contents: Content[]): number =>
+    contents.reduce((sum, content) => sum + (content.parts || []).reduce((partSum, part: any) => {
+        if (typeof part.text === 'string') return partSum + estimateTokens(part.text);
+        if (part.inlineData?.data) return partSum + estimateBinaryTokens(part.inlineData.mimeType || '', base64Bytes(part.inlineData.data));
+        if (part.functionCall || part.functionResponse) return partSum + estimateTokens(JSON.stringify(part.functionCall || part.functionResponse));
+        return partSum;
+    }, 0), 0);
+
+// Exact count from the API, or the local estimate when it cannot be reached. Aborts are rethrown.
+export const countContentsTokens = async (
+    apiKey: string,
+    model: string,
+    contents: Content[],
+    signal?: AbortSignal
+): Promise<TokenCount> => {
+    if (contents.length === 0) return { tokens: 0, exact: true };
+    if (apiKey) {
+        try {
+            const ai = new GoogleGenAI({ apiKey });
+            const result = await ai.models.countTokens({ model, contents, config: { abortSignal: signal } });
+            if (typeof result.totalTokens === 'number') return { tokens: result.totalTokens, exact: true };
+        } catch (e) {
+            if (signal?.aborted) throw e;
+            // Falls through to the local estimate
+        }
+    }
+    return { tokens: estimateContentsTokens(contents), exact: false };
+};
+
+// The Gemini API does not accept systemInstruction in countTokens; it is counted as plain text instead
+export const systemInstructionContents = (systemInstruction: string): Content[] =>
+    systemInstruction.trim() ? [{ role: 'user', parts: [{ text: systemInstruction }] }] : [];
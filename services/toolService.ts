@@ -0,0 +1,182 @@
+import { FunctionTool, FunctionCallRecord, ModelConfig } from '../types';
+
+// --- Function Calling Tools ---
+// 使用者自訂的 function declarations 與本地 handler：
+// mock = 固定回傳的 JSON；javascript = 在 opaque origin 的 sandbox iframe 內的 Worker 中執行
+// (碰不到 app 的 IndexedDB / localStorage，CSP 擋掉網路與外部程式碼，逾時即移除)。
+// 從檔案帶進來的 handler (session 匯入、備份還原、prompt library) 在第一次執行前要使用者確認。
+
+export const MAX_TOOL_ROUNDS = 8; // Call/response steps per model turn before giving up
+const HANDLER_TIMEOUT_MS = 5000;
+const NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_.-]{0,63}$/;
+
+export const createFunctionTool = (): FunctionTool => ({
+    id: Date.now().toString(),
+    name: 'get_weather',
+    description: 'Returns the current weather for a city.',
+    parameters: JSON.stringify({
+        type: 'object',
+        properties: { city: { type: 'string', description: 'City name' } },
+        required: ['city']
+    }, null, 2),
+    handlerType: 'mock',
+    handler: JSON.stringify({ temperature: 22, condition: 'sunny' }, null, 2),
+    enabled: true
+});
+
+export const getEnabledTools = (tools?: FunctionTool[]): FunctionTool[] => (tools || []).filter(t => t.enabled);
+
+export const validateTool = (tool: FunctionTool, all: FunctionTool[] = []): string[] => {
+    const errors: string[] = [];
+    if (!NAME_PATTERN.test(tool.name)) errors.push('Name must start with a letter or _ and use only letters, digits, _ . - (max 64)');
+    if (all.some(t => t.id !== tool.id && t.enabled && tool.enabled && t.name === tool.name)) errors.push('Another enabled tool has the same name');
+    if (tool.parameters.trim()) {
+        try {
+            const schema = JSON.parse(tool.parameters);
+            if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) errors.push('Parameters must be a JSON Schema object');
+        } catch (e: any) {
+            errors.push(`Parameters are not valid JSON: ${e.message}`);
+        }
+    }
+    return errors;
+};
+
+// Declarations for the request. Invalid tools fail the request rather than being silently dropped.
+export const buildFunctionDeclarations = (tools?: FunctionTool[]): any[] => {
+    const enabled = getEnabledTools(tools);
+    const problems = enabled
+        .map(t => ({ name: t.name || '(unnamed)', errors: validateTool(t, enabled) }))
+        .filter(p => p.errors.length > 0);
+    if (problems.length > 0) {
+        throw new Error(`Invalid function tools: ${problems.map(p => `${p.name} (${p.errors.join('; ')})`).join(', ')}`);
+    }
+    return enabled.map(t => ({
+        name: t.name,
+        description: t.description,
+        ...(t.parameters.trim() ? { parametersJsonSchema: JSON.parse(t.parameters) } : {})
+    }));
+};
+
+// functionResponse.response must be an object
+const toResponseObject = (value: unknown): Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value)
+        ? value as Record<string, unknown>
+        : { result: value === undefined ? null : value };
+
+// Tools that arrive from a file keep their handler but must be approved before it runs
+export const markToolsImported = (config: ModelConfig): ModelConfig => {
+    if (!config.tools || !config.tools.some(t => t.handlerType === 'javascript')) return config;
+    return { ...config, tools: config.tools.map(t => t.handlerType === 'javascript' ? { ...t, imported: true } : t) };
+};
+
+// Runs inside the worker. Removing the APIs is only a convenience; the CSP below is what enforces it.
+const WORKER_SOURCE = `
+self.fetch = undefined;
+self.XMLHttpRequest = undefined;
+self.WebSocket = undefined;
+self.EventSource = undefined;
+self.importScripts = undefined;
+self.onmessage = async (e) => {
+    try {
+        const fn = new Function('args', '"use strict"; return (async () => {' + e.data.body + '\\n})();');
+        const result = await fn(e.data.args);
+        self.postMessage({ ok: true, result: JSON.parse(JSON.stringify(result === undefined ? null : result)) });
+    } catch (err) {
+        self.postMessage({ ok: false, error: String(err && err.message || err) });
+    }
+};`;
+
+// Host page of the sandbox iframe (sandbox="allow-scripts" without allow-same-origin: opaque origin).
+// The CSP allows no network and no scripts besides the inline host and the blob worker it starts;
+// the worker keeps an endless loop off the app's main thread.
+const SANDBOX_SOURCE = `<!DOCTYPE html><html><head>
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:">
+</head><body><script>
+const workerSource = ${JSON.stringify(WORKER_SOURCE)};
+window.onmessage = (e) => {
+    if (e.source !== parent) return;
+    let worker;
+    try {
+        worker = new Worker(URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' })));
+    } catch (err) {
+        parent.postMessage({ ok: false, error: 'Could not start the handler: ' + String(err && err.message || err) }, '*');
+        return;
+    }
+    worker.onmessage = (m) => parent.postMessage(m.data, '*');
+    worker.onerror = (m) => {
+        m.preventDefault();
+        parent.postMessage({ ok: false, error: m.message || 'Handler failed' }, '*');
+    };
+    worker.postMessage(e.data);
+};
+parent.postMessage({ ready: true }, '*');
+</script></body></html>`;
+
+const runJavaScriptHandler = (body: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<unknown> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new Error('Stopped'));
+            return;
+        }
+        const frame = document.createElement('iframe');
+        frame.setAttribute('sandbox', 'allow-scripts');
+        frame.style.display = 'none';
+        frame.srcdoc = SANDBOX_SOURCE;
+
+        // The frame's origin is opaque, so its messages are recognised by their source window
+        const onMessage = (e: MessageEvent) => {
+            if (e.source !== frame.contentWindow || typeof e.data !== 'object' || e.data === null) return;
+            if (e.data.ready) {
+                frame.contentWindow?.postMessage({ body, args }, '*');
+                return;
+            }
+            finish(() => e.data.ok ? resolve(e.data.result) : reject(new Error(e.data.error)));
+        };
+        // Removing the frame also ends its worker
+        const finish = (fn: () => void) => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            window.removeEventListener('message', onMessage);
+            frame.remove();
+            fn();
+        };
+        const onAbort = () => finish(() => reject(new Error('Stopped')));
+        const timer = setTimeout(() => finish(() => reject(new Error(`Handler timed out after ${HANDLER_TIMEOUT_MS / 1000}s`))), HANDLER_TIMEOUT_MS);
+        signal?.addEventListener('abort', onAbort);
+        window.addEventListener('message', onMessage);
+        document.body.appendChild(frame);
+    });
+};
+
+// Runs one call. Failures are returned to the model as { error } so it can react to them.
+// `confirmImported` is asked before an imported JavaScript handler runs; declining answers the call with an error.
+export const executeFunctionCall = async (
+    tools: FunctionTool[] | undefined,
+    call: FunctionCallRecord,
+    signal?: AbortSignal,
+    confirmImported?: (tool: FunctionTool) => boolean
+): Promise<FunctionCallRecord> => {
+    const tool = getEnabledTools(tools).find(t => t.name === call.name);
+    if (!tool) {
+        return { ...call, response: { error: `Unknown function: ${call.name}` }, isError: true };
+    }
+    try {
+        if (tool.handlerType === 'mock') {
+            let value: unknown = tool.handler;
+            try {
+                value = JSON.parse(tool.handler);
+            } catch {
+                // Plain text mocks are returned as { result: "<text>" }
+            }
+            return { ...call, response: toResponseObject(value) };
+        }
+        if (tool.imported && !confirmImported?.(tool)) {
+            return { ...call, response: { error: 'The user did not allow this handler to run.' }, isError: true };
+        }
+        const result = await runJavaScriptHandler(tool.handler, call.args, signal);
+        return { ...call, response: toResponseObject(result) };
+    } catch (e: any) {
+        if (signal?.aborted) throw e;
+        return { ...call, response: { error: e.message || String(e) }, isError: true };
+    }
+};
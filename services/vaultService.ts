@@ -0,0 +1,246 @@
+import {
+    STORES, StoreName, getMeta, setMeta, deleteMeta, readStoreAsStored, writeStoreAsStored, setRecordCodec
+} from './storageService';
+import { MigrationReport, createReport } from './schemaService';
+
+// --- Passphrase Vault ---
+// 使用者密語經 PBKDF2 推導出 AES-GCM 金鑰，加密 API Key、對話、批次 (含批次工作) 與費用紀錄 (at rest)。
+// 金鑰只存在記憶體中；鎖定 = 丟棄金鑰並重新載入頁面。
+
+const META_KEY_VAULT = 'vault';
+const META_KEY_API_KEY = 'vaultApiKey';
+const LEGACY_API_KEY = 'gemini_api_key';
+
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'gemini-studio-vault';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+// Stores whose contents are encrypted while the vault is enabled
+const ENCRYPTED_STORES: StoreName[] = [STORES.SESSIONS, STORES.BATCH_SESSIONS, STORES.BATCH_JOBS, STORES.COST_RECORDS, STORES.BLOBS, STORES.PROMPTS];
+
+// Fields left in clear text so keys, sorting and GC keep working without the passphrase
+const CLEARTEXT_FIELDS: Partial<Record<StoreName, string[]>> = {
+    [STORES.SESSIONS]: ['id', 'updatedAt'],
+    [STORES.BATCH_SESSIONS]: ['id', 'createdAt'],
+    [STORES.BATCH_JOBS]: ['id', 'createdAt'],
+    [STORES.COST_RECORDS]: ['id', 'timestamp'],
+    [STORES.BLOBS]: ['hash', 'createdAt', 'size'],
+    [STORES.PROMPTS]: ['id', 'updatedAt'],
+};
+
+interface EncryptedPayload {
+    iv: string;   // Base64
+    data: string; // Base64 ciphertext
+}
+
+interface VaultMeta {
+    salt: string; // Base64
+    iterations: number;
+    verifier: EncryptedPayload;
+    autoLockMinutes: number;
+}
+
+export class VaultLockedError extends Error {
+    constructor() {
+        super('Vault is locked');
+        this.name = 'VaultLockedError';
+    }
+}
+
+let activeKey: CryptoKey | null = null;
+let vaultMeta: VaultMeta | null = null;
+
+// --- Encoding Helpers ---
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const baseKey = await crypto.subtle.importKey(
+        'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const encryptWith = async (key: CryptoKey, plaintext: string): Promise<EncryptedPayload> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+    return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(ciphertext)) };
+};
+
+const decryptWith = async (key: CryptoKey, payload: EncryptedPayload): Promise<string> => {
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToBytes(payload.iv) }, key, base64ToBytes(payload.data)
+    );
+    return new TextDecoder().decode(plaintext);
+};
+
+// --- Record Codec ---
+
+const vaultCodec = {
+    encode: async (storeName: StoreName, record: any) => {
+        if (!ENCRYPTED_STORES.includes(storeName)) return record;
+        if (!activeKey) throw new VaultLockedError();
+
+        const envelope: any = { __enc: await encryptWith(activeKey, JSON.stringify(record)) };
+        (CLEARTEXT_FIELDS[storeName] || []).forEach(field => {
+            if (record[field] !== undefined) envelope[field] = record[field];
+        });
+        return envelope;
+    },
+    decode: async (storeName: StoreName, record: any) => {
+        // Records written before the vault was enabled are still plain
+        if (!record || !record.__enc) return record;
+        if (!activeKey) throw new VaultLockedError();
+        return JSON.parse(await decryptWith(activeKey, record.__enc));
+    },
+};
+
+// Re-writes every record of the encrypted stores through the current codec
+const rewriteEncryptedStores = async (records: Map<StoreName, any[]>) => {
+    for (const storeName of ENCRYPTED_STORES) {
+        await writeStoreAsStored(storeName, records.get(storeName) || []);
+    }
+};
+
+// Reads every record, including the ones that fail validation (listed in the report):
+// skipping them would leave them in the old encoding, unreadable once the key is gone
+const readAllEncryptedStores = async (report: MigrationReport): Promise<Map<StoreName, any[]>> => {
+    const records = new Map<StoreName, any[]>();
+    for (const storeName of ENCRYPTED_STORES) {
+        records.set(storeName, await readStoreAsStored(storeName, report));
+    }
+    return records;
+};
+
+// --- Public API ---
+
+export const loadVaultState = async (): Promise<{ enabled: boolean; unlocked: boolean; autoLockMinutes: number }> => {
+    vaultMeta = (await getMeta<VaultMeta>(META_KEY_VAULT)) || null;
+    return {
+        enabled: !!vaultMeta,
+        unlocked: !!activeKey,
+        autoLockMinutes: vaultMeta?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES
+    };
+};
+
+export const isVaultEnabled = () => !!vaultMeta;
+
+export const isVaultUnlocked = () => !!activeKey;
+
+// Returns false when the passphrase is wrong
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+    const meta = vaultMeta || await getMeta<VaultMeta>(META_KEY_VAULT);
+    if (!meta) return true;
+
+    const key = await deriveKey(passphrase, base64ToBytes(meta.salt), meta.iterations);
+    try {
+        const check = await decryptWith(key, meta.verifier);
+        if (check !== VERIFIER_TEXT) return false;
+    } catch (e) {
+        // AES-GCM authentication fails with a wrong key
+        return false;
+    }
+
+    vaultMeta = meta;
+    activeKey = key;
+    setRecordCodec(vaultCodec);
+    return true;
+};
+
+// Returns the records that fail validation: they are encrypted as they are, but skipped on load
+export const enableVault = async (passphrase: string, autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES): Promise<MigrationReport> => {
+    if (vaultMeta) throw new Error('Vault is already enabled');
+
+    // Read everything in plain text before the codec is installed
+    const report = createReport();
+    const records = await readAllEncryptedStores(report);
+    const apiKey = localStorage.getItem(LEGACY_API_KEY) || '';
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const meta: VaultMeta = {
+        salt: bytesToBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        verifier: await encryptWith(key, VERIFIER_TEXT),
+        autoLockMinutes
+    };
+
+    activeKey = key;
+    setRecordCodec(vaultCodec);
+    await rewriteEncryptedStores(records);
+    await setMeta(META_KEY_API_KEY, await encryptWith(key, apiKey));
+    await setMeta(META_KEY_VAULT, meta);
+    vaultMeta = meta;
+    localStorage.removeItem(LEGACY_API_KEY);
+    return report;
+};
+
+// Decrypts everything back to plain storage (requires the vault to be unlocked).
+// Returns the records that fail validation, decrypted as they are.
+export const disableVault = async (): Promise<MigrationReport> => {
+    const report = createReport();
+    if (!vaultMeta) return report;
+    if (!activeKey) throw new VaultLockedError();
+
+    const records = await readAllEncryptedStores(report);
+    const apiKey = await loadApiKey();
+
+    setRecordCodec(null);
+    await rewriteEncryptedStores(records);
+    localStorage.setItem(LEGACY_API_KEY, apiKey);
+    await deleteMeta(META_KEY_API_KEY);
+    await deleteMeta(META_KEY_VAULT);
+    vaultMeta = null;
+    activeKey = null;
+    return report;
+};
+
+export const setAutoLockMinutes = async (minutes: number): Promise<void> => {
+    if (!vaultMeta) return;
+    vaultMeta = { ...vaultMeta, autoLockMinutes: minutes };
+    await setMeta(META_KEY_VAULT, vaultMeta);
+};
+
+// Drops the key from memory. Callers reload the page so no decrypted state survives.
+export const lockVault = () => {
+    activeKey = null;
+    setRecordCodec(vaultCodec);
+};
+
+// --- API Key ---
+
+export const loadApiKey = async (): Promise<string> => {
+    if (!vaultMeta) return localStorage.getItem(LEGACY_API_KEY) || '';
+    if (!activeKey) throw new VaultLockedError();
+    const payload = await getMeta<EncryptedPayload>(META_KEY_API_KEY);
+    return payload ? decryptWith(activeKey, payload) : '';
+};
+
+export const saveApiKey = async (apiKey: string): Promise<void> => {
+    if (!vaultMeta) {
+        localStorage.setItem(LEGACY_API_KEY, apiKey);
+        return;
+    }
+    if (!activeKey) throw new VaultLockedError();
+    await setMeta(META_KEY_API_KEY, await encryptWith(activeKey, apiKey));
+};
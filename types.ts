@@ -6,10 +6,146 @@ export enum Role {
 export interface Attachment {
   name: string;
   mimeType: string;
-  data: string; // Base64
+  data?: string; // Base64 (inline only until stored, or when resolved for the API / export)
+  hash?: string; // SHA-256 of the payload in the attachment blob store
+  size?: number; // Decoded byte size
   textContent?: string; // For text-based files in Economy mode
 }
 
+// Google Search grounding of one answer (see services/groundingService)
+export interface GroundingSource {
+  uri: string;
+  title?: string;
+}
+
+export interface GroundingSupport {
+  startIndex: number; // UTF-8 byte offsets into the answer text, as returned by the API
+  endIndex: number;
+  sourceIndices: number[];
+}
+
+export interface GroundingInfo {
+  sources: GroundingSource[];
+  supports: GroundingSupport[];
+  queries: string[];
+  searchEntryPoint?: string; // Rendered HTML of the "Search on Google" chips; must be shown with grounded answers
+}
+
+// --- Function Calling ---
+
+// A user-defined function the model may call (edited in RightPanel, run by services/toolService)
+export interface FunctionTool {
+  id: string;
+  name: string;
+  description: string;
+  parameters: string; // JSON Schema of the arguments, as edited
+  handlerType: 'mock' | 'javascript';
+  handler: string; // Static JSON response, or the body of `async (args) => { ... }`
+  enabled: boolean;
+  imported?: boolean; // JavaScript handler that came from a file; asks before it runs until approved or edited
+}
+
+export interface FunctionCallRecord {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+  thoughtSignature?: string; // Must be sent back with the call (Gemini 3)
+  response?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+// One call/response step of a model turn: optional text the model wrote first, then its calls
+export interface ToolRound {
+  text?: string;
+  calls: FunctionCallRecord[];
+}
+
+// Code execution tool output, in the order it appeared within the answer text
+export interface CodeExecutionBlock {
+  kind: 'code' | 'result' | 'image';
+  textOffset: number; // Character position in the answer text where the block appeared
+  language?: string;  // code
+  code?: string;
+  outcome?: string;   // result: OUTCOME_OK / OUTCOME_FAILED / OUTCOME_DEADLINE_EXCEEDED
+  output?: string;
+  mimeType?: string;  // image (e.g. a matplotlib plot)
+  data?: string;      // Base64, only until the image is moved into the blob store
+  hash?: string;      // Blob store reference (see services/attachmentStore)
+  size?: number;
+}
+
+// Result of checking a structured output answer against its response schema (see services/structuredOutputService)
+export interface SchemaValidation {
+  errors: string[]; // Empty when the answer conforms
+}
+
+export interface StructuredOutputConfig {
+  enabled: boolean;
+  schema: string; // JSON Schema text sent as responseJsonSchema
+}
+
+// {{name}} -> value, substituted at send time (see services/templateService)
+export type PromptVariables = Record<string, string>;
+
+// A user message written with {{variables}}: `text` holds what was sent
+export interface MessageTemplate {
+  text: string;           // As typed, placeholders included
+  values: PromptVariables; // Values substituted into the message and the system instruction
+}
+
+// How much of the conversation is sent with each request (see services/contextPolicyService)
+export type ContextPolicyMode = 'all' | 'window' | 'summarize';
+
+export interface ContextPolicy {
+  mode: ContextPolicyMode;
+  keepTurns: number; // Latest turns sent verbatim in 'window' and 'summarize' mode
+}
+
+// Marks the pseudo-message that stands in for every turn before it
+export interface ContextSummaryInfo {
+  foldedTurns: number; // Turns covered, including those of the summary it replaced
+  model: string;
+  edited?: boolean;
+}
+
+// Token counts of the request(s) behind an answer
+export interface GenerationUsage {
+  promptTokens: number; // Includes the cached tokens
+  candidatesTokens: number;
+  cachedTokens: number;
+  thinkingTokens: number;
+  estimated?: boolean; // Counted locally because no usage was reported
+}
+
+// How an answer was produced; kept so later config changes do not lose it (see services/generationInfoService)
+export interface GenerationInfo {
+  model: string;
+  config: ModelConfig; // Effective config of the request
+  usage?: GenerationUsage; // Missing when no usage was reported (e.g. stopped early); summed over function call rounds
+  firstTokenMs?: number;
+  totalMs?: number;
+  finishReason?: string; // STOP, MAX_TOKENS, SAFETY, ...
+  cost?: number; // USD, computed like the cost tracker
+  cachedContent?: string; // Context cache the request used
+  sharedBy?: number; // Answers returned by the same call (candidateCount); usage and cost cover all of them
+}
+
+// One generated answer for a model turn (regenerate / candidateCount > 1)
+export interface MessageAlternate {
+  text: string;
+  thoughtSignature?: string;
+  timestamp: number;
+  isError?: boolean;
+  stopped?: boolean; // Generation was cancelled by the user; text is partial
+  thoughts?: string; // Thought summary (includeThoughts); never sent back as history
+  grounding?: GroundingInfo;
+  toolRounds?: ToolRound[];
+  codeBlocks?: CodeExecutionBlock[];
+  schemaValidation?: SchemaValidation;
+  safety?: SafetyFeedback;
+  generation?: GenerationInfo;
+}
+
 export interface ChatMessage {
   id: string;
   role: Role;
@@ -18,17 +154,69 @@ export interface ChatMessage {
   thoughtSignature?: string;
   timestamp: number;
   isError?: boolean;
+  stopped?: boolean;
+  thoughts?: string;
+  grounding?: GroundingInfo;
+  toolRounds?: ToolRound[]; // Function calls made before the final text of a model turn
+  codeBlocks?: CodeExecutionBlock[];
+  schemaValidation?: SchemaValidation; // Set on answers requested with a response schema
+  safety?: SafetyFeedback; // Set when the prompt or this answer was blocked
+  generation?: GenerationInfo; // Model answers: model, config, usage and latency
+  contextSummary?: ContextSummaryInfo; // Summary pseudo-message: sent instead of the turns before it
+  template?: MessageTemplate; // Set when the message or the system instruction used {{variables}}
+  // Every answer generated for this turn. text / thoughtSignature / isError / stopped / thoughts mirror the active one,
+  // so history and exports only ever see the selected answer.
+  alternates?: MessageAlternate[];
+  activeAlternate?: number;
+  // Only on user messages where an edit forked the conversation (see services/branchService).
+  // Each branch is one version of this message plus everything after it; the active one is kept empty
+  // because it lives in the surrounding messages list.
+  branches?: ChatMessage[][];
+  activeBranch?: number;
 }
 
+export type HarmCategoryName =
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT'
+  | 'HARM_CATEGORY_CIVIC_INTEGRITY';
+
+export type HarmThreshold = 'OFF' | 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+export type SafetySettings = Partial<Record<HarmCategoryName, HarmThreshold>>;
+
+// Why a prompt or answer was withheld, with the ratings reported alongside (see services/safetyService)
+export interface SafetyFeedback {
+  scope: 'prompt' | 'response';
+  reason: string; // promptFeedback.blockReason or candidate finishReason (SAFETY, PROHIBITED_CONTENT, ...)
+  message?: string;
+  ratings: { category: string; probability: string; blocked?: boolean }[];
+}
+
+export type ResponseModality = 'TEXT' | 'IMAGE';
+
 export interface ModelConfig {
   model: string;
   temperature: number;
   topP: number;
   topK: number;
   maxOutputTokens: number;
-  safetySettings: string;
+  stopSequences?: string[]; // Up to 5; generation stops before any of them
+  presencePenalty?: number; // -2..2, penalises tokens that already appeared
+  frequencyPenalty?: number; // -2..2, penalises tokens by how often they appeared
+  seed?: number; // Fixed seed for (best-effort) reproducible sampling
+  responseModalities?: ResponseModality[]; // e.g. ['TEXT', 'IMAGE'] for image-capable models
+  safetySettings: SafetySettings; // Per-category thresholds; missing categories use the API default
   thinkingLevel: 'LOW' | 'HIGH';
   enableGoogleSearch: boolean;
+  enableCodeExecution?: boolean; // Lets the model write and run Python server-side
+  candidateCount?: number; // Answers requested per call (default 1)
+  includeThoughts?: boolean; // Stream thought summaries of thinking models
+  tools?: FunctionTool[]; // Function declarations (not sent while a context cache is active)
+  structuredOutput?: StructuredOutputConfig; // JSON mode with a response schema
+  contextPolicy?: ContextPolicy; // Missing = keep the whole history
+  variables?: PromptVariables; // Values for {{name}} placeholders in the system instruction and messages
 }
 
 export interface ContextCacheConfig {
@@ -48,6 +236,30 @@ export interface SessionData {
   messages: ChatMessage[];
   config: ModelConfig;
   updatedAt: number;
+  schemaVersion?: number; // Stamped by the storage layer (see services/schemaService)
+}
+
+// Saved system instruction or prompt preset (see services/promptLibraryService)
+export type PromptKind = 'system' | 'prompt';
+
+export interface PromptVersion {
+  version: number; // 1-based
+  text: string;
+  config?: ModelConfig; // Model config snapshot saved with this version (applied on request)
+  configVersion?: number; // Config schema version of the snapshot, see schemaService
+  note?: string;
+  createdAt: number;
+}
+
+export interface PromptLibraryEntry {
+  id: string;
+  name: string;
+  kind: PromptKind;
+  tags: string[];
+  versions: PromptVersion[]; // Oldest first; the last one is the current version
+  createdAt: number;
+  updatedAt: number;
+  schemaVersion?: number;
 }
 
 export interface TokenUsage {
@@ -63,15 +275,25 @@ export interface BatchJobRecord {
   status: string;      // "JOB_STATE_PENDING", "JOB_STATE_SUCCEEDED", etc.
   createdAt: number;
   result?: string;     // If succeeded, store short result or download link
+  schemaVersion?: number;
 }
 
 export type StreamChunk = {
     text: string;
+    thoughts?: string; // Thought summary delta (parts flagged `thought`), kept apart from the answer
     thoughtSignature?: string;
+    grounding?: GroundingInfo; // Usually only on the last chunk; replaces any earlier value
+    functionCalls?: FunctionCallRecord[]; // First candidate only
+    safety?: SafetyFeedback; // Prompt blocked (no candidates follow) or first candidate blocked
+    // Per-candidate deltas (several are present when candidateCount > 1)
+    // codeBlocks offsets are relative to this chunk's text of the candidate
+    candidates?: { index: number; text: string; thoughts?: string; thoughtSignature?: string; grounding?: GroundingInfo; codeBlocks?: CodeExecutionBlock[]; safety?: SafetyFeedback; finishReason?: string }[];
     usageMetadata?: {
         promptTokenCount: number;
         candidatesTokenCount: number;
         totalTokenCount: number;
+        cachedContentTokenCount?: number;
+        thoughtsTokenCount?: number;
     };
 };
 
@@ -90,6 +312,11 @@ export interface BatchFileItem {
   answer: string;
   status: 'pending' | 'loading' | 'success' | 'error';
   errorMsg?: string;
+  schemaValidation?: SchemaValidation;
+  safety?: SafetyFeedback;
+  resolvedQuestion?: string; // The question as sent, when it used {{variables}}
+  attempts?: number; // Requests made for the last run of this item (retries included)
+  retryStatus?: string; // Set while waiting for the next attempt
   tokenUsage?: {
       prompt: number;
       candidates: number;
@@ -105,6 +332,7 @@ export interface BatchSession {
   items: BatchFileItem[];
   cacheNameUsed?: string;
   isFinished: boolean;
+  schemaVersion?: number;
 }
 
-export type ActiveViewType = 'chat' | 'bulk' | 'economy';
\ No newline at end of file
+export type ActiveViewType = 'chat' | 'bulk' | 'economy' | 'compare';
\ No newline at end of file